@@ -2,24 +2,97 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import DropZone from './components/DropZone';
 import FileTree from './components/FileTree';
+import TokenBudgetPanel from './components/TokenBudgetPanel';
 import OutputPanel from './components/OutputPanel';
 import FilterPanel from './components/FilterPanel';
+import QuestionSelectPanel from './components/QuestionSelectPanel';
+import SkippedFilesPanel from './components/SkippedFilesPanel';
+import IngestionSettingsPanel from './components/IngestionSettingsPanel';
+import LiveFolderBar from './components/LiveFolderBar';
+import ChangeSummaryBar from './components/ChangeSummaryBar';
+import GitPanel from './components/GitPanel';
+import SecretsReviewModal from './components/SecretsReviewModal';
 import ProjectSandbox from './components/ProjectSandbox'; // Updated import
 import AgentDashboard from './components/AgentDashboard'; 
 import ComposeToModularView from './components/ComposeToModularView'; // New Import
 import SafeComponent from './components/SafeComponent'; 
 import { SafeModeProvider } from './contexts/SafeModeContext'; 
 import { ColosseumProvider } from './contexts/ColosseumContext'; 
-import { ProcessedFile, FileNode, SummaryFocus, SafeModeLevel } from './types';
-import { isIgnored, readFileContent, buildFileTree, generateLLMOutput, createPatternMatcher, generateChunks } from './utils/fileProcessing';
-import { summarizeCode } from './services/geminiService';
-import { Layers, FileCode2, Github, AlertTriangle, UploadCloud, Play, BrainCircuit, Puzzle } from 'lucide-react';
+import { ProcessedFile, FileNode, SummaryFocus, SafeModeLevel, SkippedFile, OversizeSettings, ConverterSettings, FileChangeStatus, SecretSettings, SecretRule, OutputFormat, OutputTemplate, StripLevel, TokenizerId, FileOrder, ModelPreset } from './types';
+import { isIgnoreFile, parseIgnoreFile, createIgnoreMatcher } from './utils/ignoreRules';
+import { expandArchives } from './utils/archiveImport';
+import { ingestFiles, buildFileTreeInWorker, buildSkeletonsInWorker, countTokensInWorker, generateChunksInWorker, measureOutputCostsInWorker, rankFilesInWorker, traceDependenciesInWorker, scanSecretsInWorker, SecretScanInWorkerResult, IngestionEntry } from './utils/ingestionPool';
+import { TokenizerConfig, loadGeminiCalibration, saveGeminiCalibration, calibrationSample } from './utils/tokenizers';
+import { DEFAULT_OVERSIZE_SETTINGS } from './utils/oversizedFiles';
+import { readFileForIngestion, findConverter, DEFAULT_CONVERTER_SETTINGS } from './utils/converters';
+import { isAssetPath } from './utils/assetMetadata';
+import { canSkeleton } from './utils/skeleton';
+import { TraceOptions, TraceResult } from './utils/importGraph';
+import { reconcileReimport } from './utils/fileDiff';
+import { collectGitDirectory, openGitRepository, diffCommitWithWorkingTree, generateGitDiffOutput, GitDirectory, GitRepository, GitCommit } from './utils/gitRepository';
+import { scanSecrets, redactSecrets, redactSources, BUILTIN_SECRET_RULES, loadSecretSettings, saveSecretSettings } from './utils/secretScanner';
+import { isLiveFolderSupported, pickLiveFolder, ensureReadPermission, scanDirectoryHandle, saveFolderHandle, loadFolderHandle, clearFolderHandle } from './utils/liveFolder';
+import { matchBuiltinIgnore, readFileContent, estimateTokens, hashContent, generateLLMOutput, createPatternMatcher, generateChunks, measureOutputCosts, OutputOptions, OutputCosts, CHUNK_LIMIT_ERROR } from './utils/fileProcessing';
+import { OutputSection } from './utils/outputFormats';
+import { resolveFormatter, loadOutputTemplates, saveOutputTemplates } from './utils/outputTemplates';
+import { DEFAULT_MODEL_PRESET_ID, getModelPreset, getChunkBudget, loadCustomModelPresets, saveCustomModelPresets } from './utils/modelPresets';
+import { estimateStripSavings } from './utils/commentStripping';
+import { summarizeCode, countGeminiTokens } from './services/geminiService';
+import { Layers, FileCode2, Github, AlertTriangle, UploadCloud, Play, BrainCircuit, Puzzle, XCircle, RotateCw, ShieldAlert, ShieldCheck, LayoutGrid, ListTree, GitFork, X } from 'lucide-react';
+
+const LIVE_RESCAN_INTERVAL = 5000;
+const GIT_LOG_LIMIT = 50;
+// Path under which the git diff section is scanned for secrets alongside the files
+const GIT_DIFF_SOURCE = 'git diff';
 
 // Main App Content wrapped in safe mode logic
 const AppContent: React.FC = () => {
   const [files, setFiles] = useState<ProcessedFile[]>([]);
+  const [skippedFiles, setSkippedFiles] = useState<SkippedFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string>('');
+  const [processingProgress, setProcessingProgress] = useState(0);
+
+  // Ingestion left unfinished by Cancel, kept so the import can be resumed
+  const [pendingEntries, setPendingEntries] = useState<IngestionEntry[]>([]);
+  // Files from before the paused import, so resumed files are still diffed against them
+  const [pendingBaseline, setPendingBaseline] = useState<ProcessedFile[]>([]);
+  // Set when some pending entries are there because their batch failed rather than because of Cancel
+  const [ingestionError, setIngestionError] = useState<string | null>(null);
+  const ingestionAbortRef = useRef<AbortController | null>(null);
+  const [isIngesting, setIsIngesting] = useState(false); // Drives the Cancel button; the ref alone doesn't re-render
+
+  // Size cap and reduction strategies for oversized files
+  const [oversizeSettings, setOversizeSettings] = useState<OversizeSettings>(DEFAULT_OVERSIZE_SETTINGS);
+  const [converterSettings, setConverterSettings] = useState<ConverterSettings>(DEFAULT_CONVERTER_SETTINGS);
+
+  // Live Folder State
+  const [liveFolder, setLiveFolder] = useState<FileSystemDirectoryHandle | null>(null);
+  const [storedLiveFolder, setStoredLiveFolder] = useState<FileSystemDirectoryHandle | null>(null);
+  const [autoRescan, setAutoRescan] = useState(false);
+  const [lastScanAt, setLastScanAt] = useState<number | null>(null);
+  const [fileStatuses, setFileStatuses] = useState<Record<string, FileChangeStatus>>({});
+  const [reusedSummaries, setReusedSummaries] = useState(0);
+  const rescanInFlightRef = useRef(false);
+
+  // Git State (the .git directory is only parsed once the user opts in)
+  const [gitDirectory, setGitDirectory] = useState<GitDirectory | null>(null);
+  const [gitRepo, setGitRepo] = useState<GitRepository | null>(null);
+  const [gitCommits, setGitCommits] = useState<GitCommit[]>([]);
+  const [gitBusy, setGitBusy] = useState(false);
+  const [gitError, setGitError] = useState<string | null>(null);
+  const [gitComparison, setGitComparison] = useState<{ base: GitCommit; section: OutputSection } | null>(null);
+
+  // Secret Redaction State (custom rules and allow-list persist in localStorage)
+  const [secretSettings, setSecretSettings] = useState<SecretSettings>(loadSecretSettings);
+  // Scan of the current contents (see secretScanKey); key '' until the first scan is back
+  const [secretScanResult, setSecretScanResult] = useState<SecretScanInWorkerResult & { key: string }>(
+    { scan: { findings: [], placeholders: new Map() }, redacted: {}, key: '' }
+  );
+  const [showSecretReview, setShowSecretReview] = useState(false);
+
+  // Original File handles by path, needed to re-decode a file with a different encoding
+  const sourceFilesRef = useRef<Map<string, File>>(new Map());
   
   // Summarization State
   const [isSummarizingFiles, setIsSummarizingFiles] = useState(false);
@@ -28,7 +101,36 @@ const AppContent: React.FC = () => {
   const [includeSummaries, setIncludeSummaries] = useState(true);
 
   // Chunking State
-  const [tokenLimit, setTokenLimit] = useState<number>(0); 
+  const [splitOutput, setSplitOutput] = useState(false);
+  const [modelPresetId, setModelPresetId] = useState(DEFAULT_MODEL_PRESET_ID);
+  const [customPresets, setCustomPresets] = useState<ModelPreset[]>(() => loadCustomModelPresets());
+  const modelPreset = useMemo(() => getModelPreset(modelPresetId, customPresets), [modelPresetId, customPresets]);
+  // Parts fill the model's context window minus what its answer needs
+  const tokenLimit = splitOutput ? getChunkBudget(modelPreset) : 0;
+  const [geminiCalibration, setGeminiCalibration] = useState<number | null>(() => loadGeminiCalibration());
+  // Counts from the target model's tokenizer, keyed by tokenizer and content hash (filled in by the worker)
+  const [tokenCounts, setTokenCounts] = useState<Record<string, number>>({});
+  const [exactTokenizers, setExactTokenizers] = useState<Partial<Record<TokenizerId, boolean>>>({}); // False while a vocabulary is missing
+  const [packedChunks, setPackedChunks] = useState<string[]>([]);
+  const [chunkError, setChunkError] = useState<string | null>(null); // Set when the output cannot fit the limit
+  const [displayedTokens, setDisplayedTokens] = useState<{ count: number; exact: boolean } | null>(null);
+  const [exportTokens, setExportTokens] = useState<{ count: number; exact: boolean } | null>(null);
+  const [structureView, setStructureView] = useState<'tree' | 'tokens'>('tree');
+  const [outputCosts, setOutputCosts] = useState<OutputCosts | null>(null);
+  const [trace, setTrace] = useState<{ start: string; options: TraceOptions; result: TraceResult | null; error?: string } | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('plain');
+  const [outputTemplates, setOutputTemplates] = useState<OutputTemplate[]>(() => loadOutputTemplates());
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [includePreamble, setIncludePreamble] = useState(false);
+  const [lineNumbers, setLineNumbers] = useState(false);
+  const [stripLevel, setStripLevel] = useState<StripLevel>('none');
+  const [skeletonMode, setSkeletonMode] = useState(false);
+  const [fileOrder, setFileOrder] = useState<FileOrder>('directory');
+  const [skeletonOverrides, setSkeletonOverrides] = useState<Record<string, boolean>>({}); // Per-file exceptions to skeletonMode
+  // Built in the worker from unredacted content, keyed by path with the hash they were built from
+  const [skeletonCache, setSkeletonCache] = useState<Record<string, { hash?: string; content: string }>>({});
+  const [skeletonError, setSkeletonError] = useState<string | null>(null); // TS/JS files stay in full until the compiler loads
   const [currentChunkIndex, setCurrentChunkIndex] = useState(0);
 
   // Navigation State
@@ -46,46 +148,344 @@ const AppContent: React.FC = () => {
   const emptyStateInputRef = useRef<HTMLInputElement>(null);
 
   // Handlers
-  const handleFilesSelected = async (rawFiles: File[]) => {
+  // When previousFiles is given, the result is diffed against it to reuse summaries of unchanged files
+  const runIngestion = async (entries: IngestionEntry[], baseFiles: ProcessedFile[], previousFiles: ProcessedFile[] = []) => {
+    const controller = new AbortController();
+    ingestionAbortRef.current = controller;
+    setIsIngesting(true);
+    const result = await ingestFiles(entries, {
+        signal: controller.signal,
+        oversize: oversizeSettings,
+        converters: converterSettings,
+        onProgress: (processed, total) => {
+            setProcessingProgress(total > 0 ? processed / total : 0);
+            setProcessingStatus(`Processed ${processed}/${total} files...`);
+        }
+    }).finally(() => {
+        ingestionAbortRef.current = null;
+        setIsIngesting(false);
+    });
+    // Retried files (e.g. after a failed live rescan) replace the versions they were kept in place of
+    const kept = new Map<string, ProcessedFile>(baseFiles.map(f => [f.path, f]));
+    const fresh = result.files.map(f => kept.has(f.path) ? { ...f, selected: kept.get(f.path)!.selected } : f);
+    const freshPaths = new Set(fresh.map(f => f.path));
+    const merged = [...baseFiles.filter(f => !freshPaths.has(f.path)), ...fresh].sort((a, b) => a.path.localeCompare(b.path));
+    setPendingEntries(result.pending);
+    setPendingBaseline(result.pending.length > 0 ? previousFiles : []);
+    setIngestionError(result.error || null);
+
+    // A cancelled import hasn't seen every file yet, so missing ones aren't reported as deleted
+    const reimport = previousFiles.length > 0 ? reconcileReimport(previousFiles, merged, !result.cancelled) : null;
+    if (reimport) {
+        // Files imported before a pause keep any selection or summary made since
+        const current = new Map(baseFiles.map(f => [f.path, f]));
+        setFiles(reimport.files.map(f => current.get(f.path) || f));
+        setFileStatuses(reimport.statuses);
+        setReusedSummaries(reimport.reusedSummaries);
+    } else {
+        setFiles(merged);
+    }
+  };
+
+  // Expands archives and applies built-in and .gitignore-style rules without reading contents.
+  // gitFiles are `.git` contents found outside rawFiles (live folders scan them separately).
+  const prepareEntries = async (rawFiles: File[], initialSkipped: SkippedFile[] = [], gitFiles: File[] = []) => {
+    const skipped: SkippedFile[] = [...initialSkipped];
+
+    setProcessingStatus('Unpacking archives...');
+    const { files: expandedFiles, skipped: archiveSkipped } = await expandArchives(rawFiles);
+    skipped.push(...archiveSkipped);
+
+    const sortedFiles = expandedFiles.sort((a, b) => {
+        const pathA = a.webkitRelativePath || a.name;
+        const pathB = b.webkitRelativePath || b.name;
+        return pathA.localeCompare(pathB);
+    });
+
+    // Collect .gitignore / .ignore / .codecontextignore rules from the whole tree first
+    const ignoreFiles = sortedFiles.filter(file => {
+        const path = file.webkitRelativePath || file.name;
+        return isIgnoreFile(path) && !matchBuiltinIgnore(path);
+    });
+    const ignoreRules = (await Promise.all(ignoreFiles.map(async (file) => {
+        const path = file.webkitRelativePath || file.name;
+        return parseIgnoreFile(await readFileContent(file), path);
+    }))).flat();
+    const matchIgnoreRules = createIgnoreMatcher(ignoreRules);
+
+    const entries: IngestionEntry[] = [];
+    for (const file of sortedFiles) {
+        const path = file.webkitRelativePath || file.name;
+        const builtinPattern = matchBuiltinIgnore(path);
+        if (builtinPattern) {
+            skipped.push({ path, pattern: builtinPattern, source: 'built-in' });
+            continue;
+        }
+        const rule = matchIgnoreRules(path);
+        if (rule) {
+            skipped.push({ path, pattern: rule.pattern, source: `${rule.source}:${rule.line}` });
+            continue;
+        }
+        entries.push({ file, path });
+    }
+
+    return {
+        entries,
+        skipped: skipped.sort((a, b) => a.path.localeCompare(b.path)),
+        gitDirectory: collectGitDirectory([...gitFiles, ...sortedFiles]),
+    };
+  };
+
+  const handleFilesSelected = async (rawFiles: File[], initialSkipped: SkippedFile[] = [], gitFiles: File[] = []) => {
     setLoading(true);
     setProcessingStatus('Scanning files...');
-    
-    const newProcessedFiles: ProcessedFile[] = [];
-    let processedCount = 0;
-    const CHUNK_SIZE = 20;
+    setProcessingProgress(0);
+    setPendingEntries([]);
+    setFileStatuses({});
+    setReusedSummaries(0);
+    setGitRepo(null);
+    setGitCommits([]);
+    setGitError(null);
+    setGitComparison(null);
+    const previousFiles = files;
     
     try {
-        const sortedFiles = rawFiles.sort((a, b) => {
-            const pathA = a.webkitRelativePath || a.name;
-            const pathB = b.webkitRelativePath || b.name;
-            return pathA.localeCompare(pathB);
-        });
-        
-        for (let i = 0; i < sortedFiles.length; i += CHUNK_SIZE) {
-            const chunk = sortedFiles.slice(i, i + CHUNK_SIZE);
-            await Promise.all(chunk.map(async (file) => {
-                const path = file.webkitRelativePath || file.name;
-                if (isIgnored(path)) return;
-                const content = await readFileContent(file);
-                newProcessedFiles.push({
-                    path,
-                    name: file.name,
-                    size: file.size,
-                    type: file.type,
-                    content,
-                    selected: true,
-                    isBinary: content === '[Binary file detected]'
-                });
-            }));
-            processedCount += chunk.length;
-            setProcessingStatus(`Processed ${processedCount}/${rawFiles.length} files...`);
-            await new Promise(r => setTimeout(r, 0));
-        }
+        const { entries, skipped, gitDirectory: foundGit } = await prepareEntries(rawFiles, initialSkipped, gitFiles);
+        setSkippedFiles(skipped);
+        setGitDirectory(foundGit);
+        sourceFilesRef.current = new Map<string, File>(entries.map(entry => [entry.path, entry.file]));
+
+        // Reading, binary detection and token estimation happen on the worker pool
+        await runIngestion(entries, [], previousFiles);
     } catch (err) {
         console.error(err);
         setProcessingStatus('Error processing files.');
     } finally {
-        setFiles(newProcessedFiles);
+        setLoading(false);
+        setProcessingStatus('');
+    }
+  };
+
+  // Manual uploads replace any live folder session
+  const handleUpload = (rawFiles: File[]) => {
+    setLiveFolder(null);
+    setAutoRescan(false);
+    handleFilesSelected(rawFiles);
+  };
+
+  const handleOpenLiveFolder = async (handle?: FileSystemDirectoryHandle) => {
+    try {
+        const dir = handle || await pickLiveFolder();
+        if (!await ensureReadPermission(dir)) return;
+        await saveFolderHandle(dir);
+        setStoredLiveFolder(dir);
+        setLiveFolder(dir);
+
+        setLoading(true);
+        setProcessingStatus('Scanning live folder...');
+        const { files: scanned, skipped, gitFiles } = await scanDirectoryHandle(dir);
+        await handleFilesSelected(scanned, skipped, gitFiles);
+        setLastScanAt(Date.now());
+    } catch (err) {
+        // Closing the picker rejects with AbortError, which is not a failure
+        if ((err as DOMException)?.name !== 'AbortError') console.error(err);
+        setLoading(false);
+        setProcessingStatus('');
+    }
+  };
+
+  const handleCloseLiveFolder = async () => {
+    setLiveFolder(null);
+    setAutoRescan(false);
+    setStoredLiveFolder(null);
+    await clearFolderHandle();
+  };
+
+  /**
+   * Rescans the live folder and re-reads only files whose size or mtime changed.
+   * Files whose content hash still matches keep their summaries and aren't marked; modified files keep selection only.
+   */
+  const handleRescan = async (prompt = true) => {
+    if (!liveFolder || rescanInFlightRef.current || loading) return;
+    if (!await ensureReadPermission(liveFolder, prompt)) return;
+    rescanInFlightRef.current = true;
+
+    try {
+        const { files: scanned, skipped: scanSkipped, gitFiles } = await scanDirectoryHandle(liveFolder);
+        const { entries, skipped, gitDirectory: foundGit } = await prepareEntries(scanned, scanSkipped, gitFiles);
+        const previous = sourceFilesRef.current;
+        const currentPaths = new Set(entries.map(e => e.path));
+
+        const changed = entries.filter(e => {
+            const prev = previous.get(e.path);
+            return !prev || prev.size !== e.file.size || prev.lastModified !== e.file.lastModified;
+        });
+        const removed = Array.from<string>(previous.keys()).filter(path => !currentPaths.has(path));
+
+        setSkippedFiles(skipped);
+        // Fresh handles, so history read after this sees new commits and packs
+        setGitDirectory(foundGit);
+        setLastScanAt(Date.now());
+        if (changed.length === 0 && removed.length === 0) return;
+
+        const result = await ingestFiles(changed, { oversize: oversizeSettings, converters: converterSettings });
+        // Files whose batch failed keep their previous content and source, so the next rescan tries them again
+        const failed = new Set<string>(result.pending.map(e => e.path));
+        sourceFilesRef.current = new Map<string, File>(entries.flatMap((entry): [string, File][] => {
+            if (!failed.has(entry.path)) return [[entry.path, entry.file]];
+            const prev = previous.get(entry.path);
+            return prev ? [[entry.path, prev]] : [];
+        }));
+        setPendingEntries(result.pending);
+        setPendingBaseline([]);
+        setIngestionError(result.error || null);
+        const fresh = new Map<string, ProcessedFile>(result.files.map(f => [f.path, f]));
+        const previousHashes = new Map<string, string | undefined>(files.map(f => [f.path, f.hash]));
+        // Touched but byte-identical files (e.g. after a checkout or save without edits)
+        const sameContent = new Set(result.files.filter(f => f.hash && previousHashes.get(f.path) === f.hash).map(f => f.path));
+
+        setFiles(prev => {
+            const prevByPath = new Map<string, ProcessedFile>(prev.map(f => [f.path, f]));
+            return entries
+                .map(e => {
+                    const updated = fresh.get(e.path);
+                    const old = prevByPath.get(e.path);
+                    if (updated && old && sameContent.has(e.path)) return { ...updated, selected: old.selected, summary: old.summary };
+                    if (updated) return old ? { ...updated, selected: old.selected } : updated;
+                    return old;
+                })
+                .filter((f): f is ProcessedFile => Boolean(f));
+        });
+
+        setFileStatuses(prev => {
+            const next = { ...prev };
+            changed.forEach(e => {
+                if (sameContent.has(e.path) || failed.has(e.path)) return;
+                next[e.path] = previous.has(e.path) && prev[e.path] !== 'added' ? 'modified' : 'added';
+            });
+            removed.forEach(path => { next[path] = 'deleted'; });
+            return next;
+        });
+    } catch (err) {
+        console.error('Live folder rescan failed', err);
+    } finally {
+        rescanInFlightRef.current = false;
+    }
+  };
+
+  const handleReadGitHistory = async () => {
+    if (!gitDirectory) return;
+    setGitBusy(true);
+    setGitError(null);
+    try {
+        const repo = await openGitRepository(gitDirectory);
+        setGitCommits(await repo.log(GIT_LOG_LIMIT));
+        setGitRepo(repo);
+    } catch (err) {
+        console.error(err);
+        setGitError(`Could not read .git: ${(err as Error).message}`);
+    } finally {
+        setGitBusy(false);
+    }
+  };
+
+  // Selects the files changed since `base` and prepends their unified diffs to the output
+  const handleGitCompare = async (base: GitCommit) => {
+    if (!gitRepo) return;
+    const root = gitRepo.root;
+    setGitBusy(true);
+    setGitError(null);
+    try {
+        const working = new Map<string, File>();
+        sourceFilesRef.current.forEach((file, path) => {
+            if (path.startsWith(root)) working.set(path.substring(root.length), file);
+        });
+        const skippedPaths = new Set<string>(skippedFiles.filter(f => f.path.startsWith(root)).map(f => f.path.substring(root.length)));
+
+        const changes = await diffCommitWithWorkingTree(gitRepo, base, working, skippedPaths);
+        const section = await generateGitDiffOutput(gitRepo, base, changes, working);
+
+        const statuses: Record<string, FileChangeStatus> = {};
+        changes.forEach(change => { statuses[root + change.path] = change.status; });
+        setFiles(prev => prev.map(f => ({ ...f, selected: statuses[f.path] === 'added' || statuses[f.path] === 'modified' })));
+        setFileStatuses(statuses);
+        setReusedSummaries(0);
+        setGitComparison({ base, section });
+    } catch (err) {
+        console.error(err);
+        setGitError(`Comparison failed: ${(err as Error).message}`);
+    } finally {
+        setGitBusy(false);
+    }
+  };
+
+  const handleClearGitComparison = () => {
+    setGitComparison(null);
+    setFileStatuses({});
+  };
+
+  const handleClearFileStatuses = () => {
+    setFileStatuses({});
+    setReusedSummaries(0);
+  };
+
+  const handleCancelIngestion = () => {
+    ingestionAbortRef.current?.abort();
+  };
+
+  const handleResumeIngestion = async () => {
+    if (pendingEntries.length === 0) return;
+    setLoading(true);
+    setProcessingProgress(0);
+    try {
+        await runIngestion(pendingEntries, files, pendingBaseline);
+    } catch (err) {
+        console.error(err);
+    } finally {
+        setLoading(false);
+        setProcessingStatus('');
+    }
+  };
+
+  const handleEncodingChange = async (path: string, encoding: string) => {
+    const source = sourceFilesRef.current.get(path);
+    if (!source) return;
+    try {
+        const decoded = await readFileForIngestion(source, path, oversizeSettings, converterSettings, encoding);
+        setFiles(prev => prev.map(f => f.path === path
+            ? { ...f, content: decoded.content, encoding: decoded.encoding, isBinary: decoded.isBinary, oversizeStrategy: decoded.oversizeStrategy, converter: decoded.converter, asset: decoded.asset, tokens: estimateTokens(decoded.content), hash: hashContent(decoded.content) }
+            : f));
+    } catch (err) {
+        console.error(`Failed to re-decode ${path}`, err);
+    }
+  };
+
+  // Re-reads only the files whose treatment can change under the new cap, rules or converters
+  const handleIngestionSettingsChange = async (next: OversizeSettings, nextConverters: ConverterSettings) => {
+    const threshold = Math.min(oversizeSettings.maxFileSize, next.maxFileSize);
+    const convertersChanged = JSON.stringify(nextConverters) !== JSON.stringify(converterSettings);
+    setOversizeSettings(next);
+    setConverterSettings(nextConverters);
+
+    const entries: IngestionEntry[] = files
+        .filter(f => !f.asset && (f.size > threshold || (convertersChanged && findConverter(f.path))) && sourceFilesRef.current.has(f.path))
+        .map(f => ({ file: sourceFilesRef.current.get(f.path)!, path: f.path }));
+    if (entries.length === 0) return;
+
+    setLoading(true);
+    setProcessingStatus(`Re-reading ${entries.length} files...`);
+    try {
+        const result = await ingestFiles(entries, { oversize: next, converters: nextConverters });
+        const updated = new Map<string, ProcessedFile>(result.files.map(f => [f.path, f]));
+        setFiles(prev => prev.map(f => {
+            const u = updated.get(f.path);
+            return u
+                ? { ...f, content: u.content, encoding: u.encoding, isBinary: u.isBinary, oversizeStrategy: u.oversizeStrategy, converter: u.converter, asset: u.asset, tokens: u.tokens, hash: u.hash }
+                : f;
+        }));
+    } catch (err) {
+        console.error(err);
+    } finally {
         setLoading(false);
         setProcessingStatus('');
     }
@@ -117,11 +517,43 @@ const AppContent: React.FC = () => {
     setFiles(prev => prev.map(f => ({ ...f, selected: true })));
   };
 
-  const handleGenerateSummaries = async () => {
+  // Ranking runs over the unredacted text; only paths and scores come back
+  const handleRankForQuestion = (query: string) => rankFilesInWorker(
+    files.filter(f => !f.asset && !f.isBinary).map(f => ({ path: f.path, hash: f.hash || '', content: f.content })),
+    query
+  );
+
+  // Output costs under the current options, so question selection budgets what the export will actually hold
+  const handleMeasureForQuestion = () => measureOutputCostsInWorker(redactedFiles, outputOptions, tokenizer)
+    .catch(err => {
+      console.error('Measuring output in worker failed, falling back to estimates', err);
+      return measureOutputCosts(redactedFiles, outputOptions);
+    });
+
+  const handleSelectPaths = (paths: Set<string>) => {
+    setFiles(prev => prev.map(f => f.selected === paths.has(f.path) ? f : { ...f, selected: paths.has(f.path) }));
+  };
+
+  const handleTrace = async (start: string, options: TraceOptions) => {
+    try {
+      const sources = files.filter(f => !f.asset && !f.isBinary).map(f => ({ path: f.path, content: f.content }));
+      const result = await traceDependenciesInWorker(sources, start, options);
+      handleSelectPaths(new Set(result.paths));
+      setTrace({ start, options, result });
+    } catch (err) {
+      console.error('Dependency trace failed', err);
+      setTrace({ start, options, result: null, error: (err as Error).message });
+    }
+  };
+
+  // With onlyPaths, those files are summarized again even if they already have a summary
+  const handleGenerateSummaries = async (onlyPaths?: Set<string>) => {
       if (!process.env.API_KEY) return;
       setIsSummarizingFiles(true);
       setIncludeSummaries(true);
-      const filesToSummarize = files.filter(f => f.selected && !f.isBinary && !f.summary);
+      // Summaries are AI requests too, so they only ever see redacted content
+      const filesToSummarize = redactedFiles.filter(f => f.selected && !f.isBinary &&
+          (onlyPaths ? onlyPaths.has(f.path) : !f.summary));
       const total = filesToSummarize.length;
       let completed = 0;
       const BATCH_SIZE = 2; 
@@ -144,6 +576,23 @@ const AppContent: React.FC = () => {
       }
   };
 
+  const handleSetSecretAllowed = (fingerprint: string, allowed: boolean) => {
+    setSecretSettings(prev => ({
+        ...prev,
+        allowList: allowed
+            ? [...prev.allowList.filter(f => f !== fingerprint), fingerprint]
+            : prev.allowList.filter(f => f !== fingerprint),
+    }));
+  };
+
+  const handleAddSecretRule = (rule: SecretRule) => {
+    setSecretSettings(prev => ({ ...prev, customRules: [...prev.customRules, rule] }));
+  };
+
+  const handleRemoveSecretRule = (id: string) => {
+    setSecretSettings(prev => ({ ...prev, customRules: prev.customRules.filter(r => r.id !== id) }));
+  };
+
   const handleFileClick = (path: string) => {
       setActiveFilePath(path);
   };
@@ -156,12 +605,261 @@ const AppContent: React.FC = () => {
       console.log("New files generated by swarm:", generatedFiles);
   };
 
-  const fileTree = useMemo(() => buildFileTree(files), [files]);
-  const fullOutput = useMemo(() => generateLLMOutput(files, { includeSummaries }), [files, includeSummaries]);
-  const chunks = useMemo(() => {
-    if (tokenLimit === 0) return [fullOutput];
-    return generateChunks(files, tokenLimit, { includeSummaries });
-  }, [files, tokenLimit, fullOutput, includeSummaries]);
+  // Tree only depends on paths, so selection toggles don't trigger a rebuild
+  const [fileTree, setFileTree] = useState<FileNode[]>([]);
+  // Deleted live-folder files stay in the tree (unselectable) so removals are visible
+  const pathsKey = useMemo(() => {
+    const deleted = Object.keys(fileStatuses).filter(path => fileStatuses[path] === 'deleted');
+    return [...files.map(f => f.path), ...deleted].sort().join('\n');
+  }, [files, fileStatuses]);
+  useEffect(() => {
+    let stale = false;
+    buildFileTreeInWorker(pathsKey ? pathsKey.split('\n') : []).then(tree => {
+      if (!stale) setFileTree(tree);
+    });
+    return () => { stale = true; };
+  }, [pathsKey]);
+
+  useEffect(() => {
+    if (isLiveFolderSupported()) loadFolderHandle().then(setStoredLiveFolder);
+  }, []);
+
+  // Polling calls through a ref so the interval always sees the latest state
+  const rescanRef = useRef(handleRescan);
+  rescanRef.current = handleRescan;
+  useEffect(() => {
+    if (!liveFolder || !autoRescan) return;
+    const id = setInterval(() => rescanRef.current(false), LIVE_RESCAN_INTERVAL);
+    return () => clearInterval(id);
+  }, [liveFolder, autoRescan]);
+
+  const fileEncodings = useMemo(() => {
+    const map: Record<string, string> = {};
+    // Known binary formats are never decoded, so only sniffed binaries offer an override
+    files.forEach(f => { if (f.encoding && !isAssetPath(f.path)) map[f.path] = f.encoding; });
+    return map;
+  }, [files]);
+
+  const assetTypes = useMemo(() => {
+    const map: Record<string, string> = {};
+    files.forEach(f => { if (f.asset) map[f.path] = f.asset.mime; });
+    return map;
+  }, [files]);
+
+  const changedPaths = useMemo(() => new Set(
+      Object.keys(fileStatuses).filter(path => fileStatuses[path] !== 'deleted')
+  ), [fileStatuses]);
+  const resummarizableCount = useMemo(
+      () => files.filter(f => f.selected && !f.isBinary && changedPaths.has(f.path)).length,
+      [files, changedPaths]
+  );
+
+  useEffect(() => {
+    saveSecretSettings(secretSettings);
+  }, [secretSettings]);
+
+  useEffect(() => {
+    saveOutputTemplates(outputTemplates);
+  }, [outputTemplates]);
+  const activeTemplate = useMemo(() => outputTemplates.find(t => t.id === activeTemplateId) || null, [outputTemplates, activeTemplateId]);
+
+  useEffect(() => {
+    saveCustomModelPresets(customPresets);
+  }, [customPresets]);
+
+  const handleSavePreset = (preset: ModelPreset) => {
+    setCustomPresets(prev => prev.some(p => p.id === preset.id)
+      ? prev.map(p => p.id === preset.id ? preset : p)
+      : [...prev, preset]);
+  };
+
+  const handleSaveTemplate = (template: OutputTemplate) => {
+    setOutputTemplates(prev => prev.some(t => t.id === template.id)
+      ? prev.map(t => t.id === template.id ? template : t)
+      : [...prev, template]);
+  };
+
+  // Secret scanning only depends on contents, so selection toggles don't trigger a rescan
+  const contentKey = useMemo(() => files.map(f => `${f.path}\u0000${f.hash}`).join('\n'), [files]);
+  const secretScanKey = useMemo(
+    () => [contentKey, gitComparison ? hashContent(gitComparison.section.body) : '', JSON.stringify(secretSettings)].join('\u0001'),
+    [contentKey, gitComparison, secretSettings]
+  );
+
+  // Scanning runs in the service worker, which keeps each file's matches until its hash changes.
+  // A value detected in one file is redacted wherever else it appears too
+  useEffect(() => {
+    const sources = files.filter(f => !f.isBinary).map(f => ({ path: f.path, hash: f.hash || '', content: f.content }));
+    if (gitComparison) sources.push({ path: GIT_DIFF_SOURCE, hash: '', content: gitComparison.section.body });
+    const rules = [...BUILTIN_SECRET_RULES, ...secretSettings.customRules];
+    let cancelled = false;
+    const settle = (result: SecretScanInWorkerResult) => {
+      if (!cancelled) setSecretScanResult({ ...result, key: secretScanKey });
+    };
+    scanSecretsInWorker(sources, rules, secretSettings.allowList)
+      .then(settle)
+      .catch(err => {
+        console.error('Secret scan failed in worker, scanning on the main thread', err);
+        if (cancelled) return;
+        const scan = scanSecrets(sources, rules, new Set(secretSettings.allowList));
+        settle({ scan, redacted: redactSources(sources, scan.placeholders) });
+      });
+    return () => { cancelled = true; };
+  }, [secretScanKey]);
+
+  const secretScan = secretScanResult.scan;
+  // Until the scan of the current contents is back, everything downstream keeps the last redacted
+  // output rather than seeing new content that may hold unredacted secrets
+  const secretsCurrent = secretScanResult.key === secretScanKey;
+  const heldOutputRef = useRef<{ files: ProcessedFile[]; gitSection: OutputSection | null; skeletons: Record<string, string> }>({ files: [], gitSection: null, skeletons: {} });
+
+  const tokenizer = useMemo<TokenizerConfig>(() => {
+    const id = modelPreset.tokenizer;
+    return { id, calibration: id === 'gemini' ? geminiCalibration ?? undefined : undefined };
+  }, [modelPreset.tokenizer, geminiCalibration]);
+  // A stand-in vocabulary (e.g. for Claude) counts exactly, but not what the model itself counts
+  const countsExact = (exact: boolean) => exact && !modelPreset.approximateTokenizer;
+  const tokenCountsExact = countsExact(!!exactTokenizers[tokenizer.id]);
+  const tokenKey = (hash?: string) => `${tokenizer.id}:${tokenizer.calibration ?? 1}:${hash}`;
+
+  useEffect(() => {
+    const byHash = new Map<string, string>();
+    files.forEach(f => {
+      if (!f.asset && f.hash && !(tokenKey(f.hash) in tokenCounts)) byHash.set(f.hash, f.content);
+    });
+    if (byHash.size === 0) return;
+    let cancelled = false;
+    countTokensInWorker(Array.from(byHash.values()), tokenizer).then(({ counts, exact }) => {
+      if (cancelled) return;
+      setExactTokenizers(prev => ({ ...prev, [tokenizer.id]: exact }));
+      setTokenCounts(prev => {
+        const next = { ...prev };
+        Array.from(byHash.keys()).forEach((hash, i) => { next[tokenKey(hash)] = counts[i]; });
+        return next;
+      });
+    });
+    return () => { cancelled = true; };
+  }, [contentKey, tokenizer]);
+
+  // ProcessedFile.tokens starts as the ingestion-time estimate and is replaced once the worker has counted it
+  const countedFiles = useMemo(() => files.map(f => {
+    const count = tokenCounts[tokenKey(f.hash)];
+    return count === undefined || count === f.tokens ? f : { ...f, tokens: count };
+  }), [files, tokenCounts, tokenizer]);
+
+  const redactedFiles = useMemo(() => {
+    if (!secretsCurrent) return heldOutputRef.current.files;
+    const { redacted } = secretScanResult;
+    const next = countedFiles.map(f => f.path in redacted ? { ...f, content: redacted[f.path] } : f);
+    heldOutputRef.current.files = next;
+    return next;
+  }, [countedFiles, secretScanResult, secretsCurrent]);
+
+  // Gemini's vocabulary isn't public. Only on request, one countTokens call on a sample of the
+  // selected (redacted) files calibrates the estimate; nothing is sent otherwise
+  const handleCalibrateGemini = async () => {
+    const sample = calibrationSample(redactedFiles.filter(f => f.selected && !f.asset && !f.isBinary).map(f => f.content));
+    if (!sample) return;
+    setIsCalibrating(true);
+    const actual = await countGeminiTokens(sample);
+    if (actual) setGeminiCalibration(saveGeminiCalibration(sample, actual));
+    setIsCalibrating(false);
+  };
+  const redactedGitSection = useMemo(() => {
+    if (!secretsCurrent) return heldOutputRef.current.gitSection;
+    const section = gitComparison ? { ...gitComparison.section, body: secretScanResult.redacted[GIT_DIFF_SOURCE] ?? gitComparison.section.body } : null;
+    heldOutputRef.current.gitSection = section;
+    return section;
+  }, [gitComparison, secretScanResult, secretsCurrent]);
+
+  const secretCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    secretScan.findings.forEach(f => { if (f.placeholder) counts[f.path] = (counts[f.path] || 0) + 1; });
+    return counts;
+  }, [secretScan]);
+  const redactedSecretCount = useMemo(() => secretScan.findings.filter(f => f.placeholder).length, [secretScan]);
+
+  const skeletonStates = useMemo(() => {
+    const map: Record<string, boolean> = {};
+    files.forEach(f => { if (canSkeleton(f)) map[f.path] = skeletonOverrides[f.path] ?? skeletonMode; });
+    return map;
+  }, [contentKey, skeletonMode, skeletonOverrides]);
+
+  useEffect(() => {
+    const missing = files.filter(f => skeletonStates[f.path] && (!skeletonCache[f.path] || skeletonCache[f.path].hash !== f.hash));
+    if (missing.length === 0) return;
+    let cancelled = false;
+    buildSkeletonsInWorker(missing.map(f => ({ path: f.path, content: f.content }))).then(({ skeletons, compilerError }) => {
+      if (cancelled) return;
+      setSkeletonError(compilerError || null);
+      setSkeletonCache(prev => {
+        const next = { ...prev };
+        missing.forEach(f => { if (f.path in skeletons) next[f.path] = { hash: f.hash, content: skeletons[f.path] }; });
+        return next;
+      });
+    });
+    return () => { cancelled = true; };
+  }, [contentKey, skeletonStates]);
+
+  // Secrets are redacted from skeletons the same way as from full content
+  const activeSkeletons = useMemo(() => {
+    if (!secretsCurrent) return heldOutputRef.current.skeletons;
+    const map: Record<string, string> = {};
+    files.forEach(f => {
+      const cached = skeletonCache[f.path];
+      if (skeletonStates[f.path] && cached && cached.hash === f.hash) map[f.path] = redactSecrets(cached.content, secretScan.placeholders);
+    });
+    heldOutputRef.current.skeletons = map;
+    return map;
+  }, [contentKey, skeletonStates, skeletonCache, secretScan, secretsCurrent]);
+
+  const toggleSkeleton = (path: string) => {
+    setSkeletonOverrides(prev => {
+      const enabled = !(prev[path] ?? skeletonMode);
+      const next = { ...prev };
+      // Overrides only record exceptions, so files matching the global mode follow it when it changes
+      if (enabled === skeletonMode) delete next[path];
+      else next[path] = enabled;
+      return next;
+    });
+  };
+
+  const selectedTokens = useMemo(() => countedFiles.reduce((acc, f) => acc + (f.selected ? f.tokens || 0 : 0), 0), [countedFiles]);
+  const outputOptions = useMemo<OutputOptions>(
+    () => ({ includeSummaries, format: outputFormat, preamble: includePreamble, lineNumbers, strip: stripLevel, skeletons: activeSkeletons, template: activeTemplate, order: fileOrder, sections: redactedGitSection ? [redactedGitSection] : [] }),
+    [includeSummaries, outputFormat, includePreamble, lineNumbers, stripLevel, activeSkeletons, activeTemplate, fileOrder, redactedGitSection]
+  );
+  // Shown next to each level in the selector, before it is applied
+  const stripSavings = useMemo(
+    () => estimateStripSavings(redactedFiles.filter(f => f.selected), estimateTokens),
+    [redactedFiles]
+  );
+  const fullOutput = useMemo(() => generateLLMOutput(redactedFiles, outputOptions), [redactedFiles, outputOptions]);
+
+  // Chunks are packed in the worker, where the target model's tokenizer is loaded
+  useEffect(() => {
+    if (tokenLimit === 0) return;
+    let cancelled = false;
+    const settle = (result: string[], error: string | null) => {
+      if (cancelled) return;
+      setPackedChunks(result);
+      setChunkError(error);
+    };
+    generateChunksInWorker(redactedFiles, tokenLimit, outputOptions, tokenizer)
+      .then(result => settle(result, null))
+      .catch((err: Error) => {
+        // A limit that cannot be met is reported, not papered over with an estimated packing
+        if (err.message.startsWith(CHUNK_LIMIT_ERROR)) return settle([], err.message);
+        console.error('Chunking in worker failed, falling back to estimates', err);
+        try {
+          settle(generateChunks(redactedFiles, tokenLimit, outputOptions), null);
+        } catch (fallbackErr) {
+          settle([], (fallbackErr as Error).message);
+        }
+      });
+    return () => { cancelled = true; };
+  }, [redactedFiles, tokenLimit, outputOptions, tokenizer]);
+  const chunks = useMemo(() => tokenLimit === 0 ? [fullOutput] : packedChunks, [tokenLimit, fullOutput, packedChunks]);
 
   useEffect(() => {
     if (currentChunkIndex >= chunks.length) {
@@ -171,11 +869,65 @@ const AppContent: React.FC = () => {
 
   const displayedContent = chunks[currentChunkIndex] || "";
 
+  useEffect(() => {
+    let cancelled = false;
+    countTokensInWorker([displayedContent], tokenizer).then(({ counts, exact }) => {
+      if (!cancelled) setDisplayedTokens({ count: counts[0], exact });
+    });
+    return () => { cancelled = true; };
+  }, [displayedContent, tokenizer]);
+
+  // Every part together, for the cost estimate
+  useEffect(() => {
+    let cancelled = false;
+    countTokensInWorker(chunks, tokenizer).then(({ counts, exact }) => {
+      if (!cancelled) setExportTokens({ count: counts.reduce((acc, n) => acc + n, 0), exact });
+    });
+    return () => { cancelled = true; };
+  }, [chunks, tokenizer]);
+
+  // Per-file costs for the token map, measured only while it is shown
+  useEffect(() => {
+    if (structureView !== 'tokens') return;
+    let cancelled = false;
+    measureOutputCostsInWorker(redactedFiles, outputOptions, tokenizer)
+      .then(result => { if (!cancelled) setOutputCosts(result); })
+      .catch(err => {
+        console.error('Measuring output in worker failed, falling back to estimates', err);
+        if (!cancelled) setOutputCosts(measureOutputCosts(redactedFiles, outputOptions));
+      });
+    return () => { cancelled = true; };
+  }, [structureView, redactedFiles, outputOptions, tokenizer]);
+  const selectedPaths = useMemo(() => new Set(files.filter(f => f.selected).map(f => f.path)), [files]);
+
+  // Pages to the chunk that holds a file, e.g. when following a path:line reference
+  const handleRevealInOutput = (path: string) => {
+    const formatter = resolveFormatter(outputFormat, activeTemplate);
+    const index = chunks.findIndex(chunk => chunk.split('\n').some(line => {
+        const parsed = formatter.parseLine(line);
+        return parsed?.kind === 'start' && parsed.path === path;
+    }));
+    if (index >= 0) setCurrentChunkIndex(index);
+  };
+
   return (
     <div className="min-h-screen bg-[#0f172a] text-slate-200 font-sans selection:bg-blue-500/30">
       
       {/* Project Sandbox Modal */}
-      {showSandbox && <ProjectSandbox onClose={() => setShowSandbox(false)} fullContext={fullOutput} files={files} />}
+      {showSandbox && <ProjectSandbox onClose={() => setShowSandbox(false)} fullContext={fullOutput} files={redactedFiles} />}
+
+      {/* Secret Review Modal */}
+      {showSecretReview && (
+          <SecretsReviewModal
+            findings={secretScan.findings}
+            customRules={secretSettings.customRules}
+            onSetAllowed={handleSetSecretAllowed}
+            onAddRule={handleAddSecretRule}
+            onRemoveRule={handleRemoveSecretRule}
+            onFileClick={handleFileClick}
+            onClose={() => setShowSecretReview(false)}
+          />
+      )}
       
       {/* Agent Colosseum Modal */}
       {showColosseum && (
@@ -190,7 +942,7 @@ const AppContent: React.FC = () => {
           <ComposeToModularView
             onClose={() => setShowComposeToModular(false)}
             fullContext={fullOutput}
-            files={files}
+            files={redactedFiles}
           />
       )}
 
@@ -272,18 +1024,176 @@ const AppContent: React.FC = () => {
           <div className="lg:col-span-4 flex flex-col gap-6 h-full overflow-hidden">
             <div className="flex-shrink-0 space-y-4">
               <SafeComponent id="comp-dropzone" name="File Uploader" category="ui" minSafeModeLevel={SafeModeLevel.ESSENTIAL}>
-                <DropZone onFilesSelected={handleFilesSelected} isLoading={loading} />
+                <DropZone onFilesSelected={handleUpload} isLoading={loading} />
+              </SafeComponent>
+
+              {isLiveFolderSupported() && (
+                  <SafeComponent id="comp-live-folder" name="Live Folder Sync" category="integration" minSafeModeLevel={SafeModeLevel.FULL} dependencies={['comp-dropzone']}>
+                    <LiveFolderBar
+                        folderName={liveFolder?.name}
+                        storedFolderName={storedLiveFolder?.name}
+                        autoRescan={autoRescan}
+                        lastScanAt={lastScanAt}
+                        changeCount={Object.keys(fileStatuses).length}
+                        isBusy={loading}
+                        onOpen={() => handleOpenLiveFolder()}
+                        onReconnect={() => storedLiveFolder && handleOpenLiveFolder(storedLiveFolder)}
+                        onRescan={() => handleRescan()}
+                        onToggleAutoRescan={() => setAutoRescan(!autoRescan)}
+                        onClearMarks={handleClearFileStatuses}
+                        onClose={handleCloseLiveFolder}
+                    />
+                  </SafeComponent>
+              )}
+
+              <SafeComponent id="comp-ingestion-settings" name="Ingestion Settings" category="ui" minSafeModeLevel={SafeModeLevel.STANDARD} dependencies={['comp-dropzone']}>
+                <IngestionSettingsPanel settings={oversizeSettings} converters={converterSettings} onApply={handleIngestionSettingsChange} />
               </SafeComponent>
               
               {loading ? (
-                  <div className="text-xs text-center text-blue-400 animate-pulse font-mono">{processingStatus}</div>
+                  <div className="space-y-2">
+                      <div className="flex items-center justify-between gap-3">
+                          <div className="text-xs text-blue-400 animate-pulse font-mono truncate">{processingStatus}</div>
+                          {isIngesting && (
+                              <button
+                                  onClick={handleCancelIngestion}
+                                  className="flex items-center gap-1 px-2 py-1 text-[10px] rounded border border-red-900/40 text-red-400 hover:bg-red-900/20 transition-colors shrink-0"
+                              >
+                                  <XCircle size={12} />
+                                  Cancel
+                              </button>
+                          )}
+                      </div>
+                      <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-500 transition-all duration-200" style={{ width: `${Math.round(processingProgress * 100)}%` }} />
+                      </div>
+                  </div>
               ) : (
                   files.length > 0 && (
                       <SafeComponent id="comp-filter" name="Filter Panel" category="ui" minSafeModeLevel={SafeModeLevel.STANDARD} dependencies={['comp-dropzone']}>
                         <FilterPanel onApplyFilters={handleApplyFilters} onResetFilters={handleResetFilters} />
+                        <div className="mt-4">
+                            <QuestionSelectPanel
+                                files={countedFiles}
+                                tokenLimit={tokenLimit}
+                                onRank={handleRankForQuestion}
+                                onMeasure={handleMeasureForQuestion}
+                                onSelect={handleSelectPaths}
+                                onToggle={toggleFile}
+                            />
+                        </div>
+                        {skippedFiles.length > 0 && (
+                            <div className="mt-4">
+                                <SkippedFilesPanel skippedFiles={skippedFiles} />
+                            </div>
+                        )}
                       </SafeComponent>
                   )
               )}
+
+              {!loading && files.length > 0 && (
+                  <div className={`flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-xs border
+                      ${redactedSecretCount > 0 ? 'bg-red-900/10 border-red-500/20 text-red-300' : 'bg-slate-900 border-slate-800 text-slate-500'}`}>
+                      <span className="flex items-center gap-2">
+                          {redactedSecretCount > 0 ? <ShieldAlert size={12} /> : <ShieldCheck size={12} className="text-emerald-500" />}
+                          {redactedSecretCount > 0
+                              ? `${redactedSecretCount} potential secrets redacted in ${Object.keys(secretCounts).length} files`
+                              : 'No secrets detected'}
+                      </span>
+                      <button
+                          onClick={() => setShowSecretReview(true)}
+                          className="px-2 py-1 rounded border border-slate-700 hover:bg-slate-800/50 transition-colors shrink-0"
+                      >
+                          Review
+                      </button>
+                  </div>
+              )}
+
+              {!loading && gitDirectory && (
+                  <SafeComponent id="comp-git" name="Git History" category="integration" minSafeModeLevel={SafeModeLevel.FULL} dependencies={['comp-dropzone']}>
+                    <GitPanel
+                        isLoaded={gitRepo !== null}
+                        headRef={gitRepo?.head.ref || null}
+                        commits={gitCommits}
+                        isBusy={gitBusy}
+                        error={gitError}
+                        comparedSha={gitComparison?.base.sha || null}
+                        onLoad={handleReadGitHistory}
+                        onCompare={handleGitCompare}
+                        onClearComparison={handleClearGitComparison}
+                    />
+                  </SafeComponent>
+              )}
+
+              {!loading && Object.keys(fileStatuses).length > 0 && (
+                  <ChangeSummaryBar
+                      fileStatuses={fileStatuses}
+                      reusedSummaries={reusedSummaries}
+                      resummarizableCount={resummarizableCount}
+                      isSummarizing={isSummarizingFiles}
+                      onResummarize={() => handleGenerateSummaries(changedPaths)}
+                      onClear={handleClearFileStatuses}
+                  />
+              )}
+
+              {!loading && trace && !trace.result && (
+                  <div className="flex items-center justify-between gap-3 px-3 py-2 bg-red-900/10 border border-red-500/20 rounded-lg text-xs text-red-300">
+                      <span className="flex items-center gap-2 min-w-0">
+                          <GitFork size={12} className="shrink-0" />
+                          <span className="truncate" title={trace.error}>
+                              Tracing {trace.start.substring(trace.start.lastIndexOf('/') + 1)} failed: {trace.error}
+                          </span>
+                      </span>
+                      <button onClick={() => setTrace(null)} className="p-0.5 rounded hover:bg-slate-800/50 shrink-0" title="Dismiss">
+                          <X size={12} />
+                      </button>
+                  </div>
+              )}
+
+              {!loading && trace?.result && (
+                  <div className={`px-3 py-2 rounded-lg text-xs border space-y-1
+                      ${trace.result.unresolved.length > 0 ? 'bg-amber-900/10 border-amber-500/20 text-amber-300' : 'bg-slate-900 border-slate-800 text-slate-400'}`}>
+                      <div className="flex items-center justify-between gap-3">
+                          <span className="flex items-center gap-2 min-w-0">
+                              <GitFork size={12} className="shrink-0" />
+                              <span className="truncate" title={trace.start}>
+                                  Traced {trace.options.direction === 'both' ? 'imports and importers' : trace.options.direction} of {trace.start.substring(trace.start.lastIndexOf('/') + 1)}
+                                  {' '}({trace.options.depth === Infinity ? 'all levels' : `depth ${trace.options.depth}`}) · {trace.result.paths.length} files selected
+                              </span>
+                          </span>
+                          <button onClick={() => setTrace(null)} className="p-0.5 rounded hover:bg-slate-800/50 shrink-0" title="Dismiss">
+                              <X size={12} />
+                          </button>
+                      </div>
+                      {trace.result.unresolved.length > 0 && (
+                          <div className="space-y-0.5 max-h-24 overflow-y-auto pl-5">
+                              <div>{trace.result.unresolved.length} unresolved import{trace.result.unresolved.length === 1 ? '' : 's'}:</div>
+                              {trace.result.unresolved.map(({ path, specifier }) => (
+                                  <div key={`${path}\u0000${specifier}`} className="font-mono text-[10px] text-amber-400/80 truncate" title={`${path} imports ${specifier}`}>
+                                      {specifier} <span className="text-slate-500">in {path}</span>
+                                  </div>
+                              ))}
+                          </div>
+                      )}
+                  </div>
+              )}
+
+              {!loading && pendingEntries.length > 0 && (
+                  <div className="flex items-center justify-between gap-3 px-3 py-2 bg-amber-900/10 border border-amber-500/20 rounded-lg text-xs text-amber-300">
+                      <span className="min-w-0 truncate" title={ingestionError || undefined}>
+                          {ingestionError
+                              ? `Import incomplete · ${pendingEntries.length.toLocaleString()} files not read: ${ingestionError}`
+                              : `Import paused · ${pendingEntries.length.toLocaleString()} files remaining`}
+                      </span>
+                      <button
+                          onClick={handleResumeIngestion}
+                          className="flex items-center gap-1 px-2 py-1 rounded border border-amber-500/30 hover:bg-amber-900/30 transition-colors shrink-0"
+                      >
+                          <RotateCw size={12} />
+                          {ingestionError ? 'Retry' : 'Resume'}
+                      </button>
+                  </div>
+              )}
             </div>
 
             <div className="flex-1 min-h-0 bg-slate-900 border border-slate-800 rounded-xl flex flex-col overflow-hidden shadow-lg">
@@ -292,12 +1202,49 @@ const AppContent: React.FC = () => {
                     <FileCode2 size={14} />
                     Project Structure
                 </span>
-                <span className="text-xs text-slate-500">{files.filter(f => f.selected).length} selected</span>
+                <span className="flex items-center gap-2 text-xs text-slate-500">
+                    {files.filter(f => f.selected).length} selected · {tokenCountsExact ? '' : '~'}{selectedTokens.toLocaleString()} tokens
+                    {files.length > 0 && (
+                        <button
+                            onClick={() => setStructureView(structureView === 'tree' ? 'tokens' : 'tree')}
+                            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                            title={structureView === 'tree' ? 'Show token map' : 'Show file tree'}
+                        >
+                            {structureView === 'tree' ? <LayoutGrid size={14} /> : <ListTree size={14} />}
+                        </button>
+                    )}
+                </span>
               </div>
               <div className="flex-1 overflow-y-auto p-2 scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
+                {structureView === 'tokens' && files.length > 0 ? (
+                <SafeComponent id="comp-token-map" name="Token Map" category="ui" minSafeModeLevel={SafeModeLevel.STANDARD} dependencies={['comp-dropzone']}>
+                    <TokenBudgetPanel
+                        nodes={fileTree}
+                        costs={outputCosts}
+                        selectedPaths={selectedPaths}
+                        tokenLimit={tokenLimit}
+                        totalChunks={chunks.length}
+                        exact={tokenCountsExact}
+                        onToggle={toggleFile}
+                    />
+                </SafeComponent>
+                ) : (
                 <SafeComponent id="comp-filetree" name="File Explorer" category="ui" minSafeModeLevel={SafeModeLevel.ESSENTIAL}>
-                    <FileTree nodes={fileTree} onToggle={toggleFile} activePath={activeFilePath || undefined} />
+                    <FileTree
+                        nodes={fileTree}
+                        onToggle={toggleFile}
+                        activePath={activeFilePath || undefined}
+                        fileEncodings={fileEncodings}
+                        fileStatuses={fileStatuses}
+                        secretCounts={secretCounts}
+                        assetTypes={assetTypes}
+                        skeletonStates={skeletonStates}
+                        onToggleSkeleton={toggleSkeleton}
+                        onTrace={handleTrace}
+                        onEncodingChange={handleEncodingChange}
+                    />
                 </SafeComponent>
+                )}
               </div>
             </div>
           </div>
@@ -308,7 +1255,7 @@ const AppContent: React.FC = () => {
                     <OutputPanel 
                         content={displayedContent} 
                         fullContext={fullOutput}
-                        onGenerateSummaries={handleGenerateSummaries}
+                        onGenerateSummaries={() => handleGenerateSummaries()}
                         isSummarizingFiles={isSummarizingFiles}
                         summarizationProgress={summarizationProgress}
                         summaryFocus={summaryFocus}
@@ -316,12 +1263,44 @@ const AppContent: React.FC = () => {
                         includeSummaries={includeSummaries}
                         setIncludeSummaries={setIncludeSummaries}
                         tokenLimit={tokenLimit}
-                        setTokenLimit={setTokenLimit}
+                        splitOutput={splitOutput}
+                        setSplitOutput={setSplitOutput}
+                        modelPreset={modelPreset}
+                        customPresets={customPresets}
+                        onSelectPreset={setModelPresetId}
+                        onSavePreset={handleSavePreset}
+                        onDeletePreset={(id) => setCustomPresets(prev => prev.filter(p => p.id !== id))}
+                        contentTokens={displayedTokens && { ...displayedTokens, exact: countsExact(displayedTokens.exact) }}
+                        exportTokens={exportTokens && { ...exportTokens, exact: countsExact(exportTokens.exact) }}
+                        tokenCalibration={tokenizer.id === 'gemini' ? geminiCalibration : null}
+                        isCalibrating={isCalibrating}
+                        onCalibrateTokens={handleCalibrateGemini}
+                        chunkError={tokenLimit > 0 ? chunkError : null}
+                        outputFormat={outputFormat}
+                        setOutputFormat={setOutputFormat}
+                        outputTemplates={outputTemplates}
+                        activeTemplateId={activeTemplate ? activeTemplate.id : null}
+                        onSelectTemplate={setActiveTemplateId}
+                        onSaveTemplate={handleSaveTemplate}
+                        onDeleteTemplate={(id) => setOutputTemplates(prev => prev.filter(t => t.id !== id))}
+                        includePreamble={includePreamble}
+                        setIncludePreamble={setIncludePreamble}
+                        lineNumbers={lineNumbers}
+                        setLineNumbers={setLineNumbers}
+                        stripLevel={stripLevel}
+                        setStripLevel={setStripLevel}
+                        stripSavings={stripSavings}
+                        skeletonMode={skeletonMode}
+                        skeletonError={Object.values(skeletonStates).some(Boolean) ? skeletonError : null}
+                        setSkeletonMode={setSkeletonMode}
+                        fileOrder={fileOrder}
+                        setFileOrder={setFileOrder}
                         currentChunkIndex={currentChunkIndex}
                         totalChunks={chunks.length}
                         onNextChunk={() => setCurrentChunkIndex(prev => Math.min(prev + 1, chunks.length - 1))}
                         onPrevChunk={() => setCurrentChunkIndex(prev => Math.max(prev - 1, 0))}
                         onFileClick={handleFileClick}
+                        onRevealInOutput={handleRevealInOutput}
                         allFilePaths={files.map(f => f.path)}
                     />
                 </SafeComponent>
@@ -348,7 +1327,7 @@ const AppContent: React.FC = () => {
                             multiple
                             onChange={(e) => {
                                 if (e.target.files && e.target.files.length > 0) {
-                                    handleFilesSelected(Array.from(e.target.files));
+                                    handleUpload(Array.from(e.target.files));
                                 }
                             }}
                             {...({ webkitdirectory: "", directory: "" } as any)}
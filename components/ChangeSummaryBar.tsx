@@ -0,0 +1,68 @@
+import React from 'react';
+import { GitCompare, Sparkles, Eraser, Loader2 } from 'lucide-react';
+import { FileChangeStatus } from '../types';
+
+interface ChangeSummaryBarProps {
+  fileStatuses: Record<string, FileChangeStatus>;
+  reusedSummaries: number;
+  resummarizableCount: number;
+  isSummarizing: boolean;
+  onResummarize: () => void;
+  onClear: () => void;
+}
+
+const ChangeSummaryBar: React.FC<ChangeSummaryBarProps> = ({
+  fileStatuses,
+  reusedSummaries,
+  resummarizableCount,
+  isSummarizing,
+  onResummarize,
+  onClear
+}) => {
+  const counts = { added: 0, modified: 0, deleted: 0 };
+  Object.keys(fileStatuses).forEach(path => { counts[fileStatuses[path]]++; });
+
+  const parts = [
+    counts.added > 0 && <span key="added" className="text-emerald-400">{counts.added} added</span>,
+    counts.modified > 0 && <span key="modified" className="text-amber-300">{counts.modified} modified</span>,
+    counts.deleted > 0 && <span key="deleted" className="text-red-400">{counts.deleted} removed</span>,
+  ].filter(Boolean);
+
+  return (
+    <div className="px-3 py-2 bg-slate-900 border border-slate-800 rounded-lg space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <div className="flex items-center gap-2 min-w-0 text-slate-400">
+          <GitCompare size={12} className="text-blue-400 shrink-0" />
+          <span className="flex gap-2 truncate">{parts}</span>
+        </div>
+        <button
+          onClick={onClear}
+          className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-slate-300 transition-colors shrink-0"
+          title="Clear added/modified/removed markers"
+        >
+          <Eraser size={10} />
+          Clear
+        </button>
+      </div>
+      {(reusedSummaries > 0 || resummarizableCount > 0) && (
+        <div className="flex items-center justify-between gap-2 text-[10px]">
+          <span className="text-slate-500">
+            {reusedSummaries > 0 && `${reusedSummaries} summaries reused from unchanged files`}
+          </span>
+          {process.env.API_KEY && resummarizableCount > 0 && (
+            <button
+              onClick={onResummarize}
+              disabled={isSummarizing}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-purple-500/30 text-purple-300 hover:bg-purple-900/20 disabled:opacity-50 transition-colors shrink-0"
+            >
+              {isSummarizing ? <Loader2 size={10} className="animate-spin" /> : <Sparkles size={10} />}
+              Re-summarize {resummarizableCount} changed
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeSummaryBar;
@@ -1,5 +1,6 @@
 import React, { useRef, useState } from 'react';
-import { UploadCloud, Folder } from 'lucide-react';
+import { UploadCloud, Folder, AlertCircle } from 'lucide-react';
+import { collectDroppedFiles } from '../utils/fileSystemEntries';
 
 interface DropZoneProps {
   onFilesSelected: (files: File[]) => void;
@@ -9,6 +10,7 @@ interface DropZoneProps {
 const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected, isLoading }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -20,21 +22,26 @@ const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected, isLoading }) => {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    // Note: Standard Drag and Drop API doesn't easily support full directory structures deeply
-    // without using the File System Access API or recursive webkitGetAsEntry.
-    // For simplicity and robustness in this demo, we encourage the input click for folders,
-    // but basic flat file drops are handled here.
-    const items = Array.from(e.dataTransfer.files);
-    if (items.length > 0) {
-      onFilesSelected(items);
+    setError(null);
+
+    // Walks dropped directories recursively so paths match what the folder picker produces
+    try {
+      const items = await collectDroppedFiles(e.dataTransfer);
+      if (items.length > 0) {
+        onFilesSelected(items);
+      }
+    } catch (err) {
+      // e.g. a folder that was moved or lost permission while being read
+      console.error(err);
+      setError(`Could not read the dropped items: ${(err as Error).message || 'unknown error'}`);
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
     if (e.target.files && e.target.files.length > 0) {
       onFilesSelected(Array.from(e.target.files));
     }
@@ -76,13 +83,19 @@ const DropZone: React.FC<DropZoneProps> = ({ onFilesSelected, isLoading }) => {
             Click to upload project folder
           </p>
           <p className="text-sm text-slate-400">
-            or drag and drop directory here
+            or drag and drop a directory or .zip / .tar.gz archive here
           </p>
         </div>
         <div className="flex items-center gap-2 text-xs text-slate-500 bg-slate-900/50 px-3 py-1.5 rounded-full border border-slate-800">
           <Folder size={12} />
           <span>Supports recursive folder parsing</span>
         </div>
+        {error && (
+          <p className="text-xs text-red-400 flex items-center gap-1.5">
+            <AlertCircle size={12} className="shrink-0" />
+            {error}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,14 +1,127 @@
-import React, { useState, useEffect } from 'react';
-import { FileNode } from '../types';
-import { ChevronRight, ChevronDown, Folder, FileText, Check, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { FileNode, FileChangeStatus } from '../types';
+import { ChevronRight, ChevronDown, Folder, FileText, Check, Sparkles, ShieldAlert, Image, Film, Music, Type, File, Braces, GitFork } from 'lucide-react';
+import { SUPPORTED_ENCODINGS } from '../utils/textDecoding';
+import { getGraphLanguage, TraceOptions, TraceDirection } from '../utils/importGraph';
 
 interface FileTreeProps {
   nodes: FileNode[];
   onToggle: (path: string, checked: boolean) => void;
   activePath?: string;
+  fileEncodings?: Record<string, string>;
+  onEncodingChange?: (path: string, encoding: string) => void;
+  fileStatuses?: Record<string, FileChangeStatus>;
+  secretCounts?: Record<string, number>; // Redacted secrets per file
+  assetTypes?: Record<string, string>; // MIME type of binary files listed as asset descriptors
+  skeletonStates?: Record<string, boolean>; // Skeleton mode per file, for files in supported languages only
+  onToggleSkeleton?: (path: string) => void;
+  onTrace?: (path: string, options: TraceOptions) => void; // Offered on right-click for TS/JS, Python, Go and Rust files
 }
 
-const FileTreeNode: React.FC<{ node: FileNode; onToggle: (path: string, checked: boolean) => void; activePath?: string }> = ({ node, onToggle, activePath }) => {
+interface FileTreeNodeProps extends Omit<FileTreeProps, 'nodes'> {
+  node: FileNode;
+  changedDirs?: Set<string>;
+  onOpenTraceMenu?: (path: string, x: number, y: number) => void;
+}
+
+const TRACE_DEPTHS = [1, 2, 3, 5, Infinity];
+const TRACE_DIRECTIONS: { id: TraceDirection; label: string }[] = [
+  { id: 'imports', label: 'Imports' },
+  { id: 'importers', label: 'Importers' },
+  { id: 'both', label: 'Both' },
+];
+
+interface TraceMenuProps {
+  path: string;
+  x: number;
+  y: number;
+  options: TraceOptions;
+  onChange: (options: TraceOptions) => void;
+  onTrace: () => void;
+  onClose: () => void;
+}
+
+const TraceMenu: React.FC<TraceMenuProps> = ({ path, x, y, options, onChange, onTrace, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-50 w-60 bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 text-xs"
+      style={{ left: Math.min(x, window.innerWidth - 250), top: Math.min(y, window.innerHeight - 190) }}
+    >
+      <div className="flex items-center gap-2 text-slate-300 font-medium">
+        <GitFork size={12} className="text-blue-400 shrink-0" />
+        <span className="truncate" title={path}>Trace from {path.substring(path.lastIndexOf('/') + 1)}</span>
+      </div>
+      <div className="space-y-1">
+        <div className="text-[10px] uppercase tracking-wider text-slate-500">Direction</div>
+        <div className="flex gap-1">
+          {TRACE_DIRECTIONS.map(d => (
+            <button
+              key={d.id}
+              onClick={() => onChange({ ...options, direction: d.id })}
+              className={`flex-1 px-2 py-1 rounded border transition-colors ${options.direction === d.id ? 'text-blue-300 border-blue-500/40 bg-blue-500/10' : 'text-slate-400 border-slate-700 hover:bg-slate-800'}`}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <div className="text-[10px] uppercase tracking-wider text-slate-500">Depth</div>
+        <div className="flex gap-1">
+          {TRACE_DEPTHS.map(depth => (
+            <button
+              key={depth}
+              onClick={() => onChange({ ...options, depth })}
+              className={`flex-1 px-2 py-1 rounded border transition-colors ${options.depth === depth ? 'text-blue-300 border-blue-500/40 bg-blue-500/10' : 'text-slate-400 border-slate-700 hover:bg-slate-800'}`}
+            >
+              {depth === Infinity ? 'All' : depth}
+            </button>
+          ))}
+        </div>
+      </div>
+      <button
+        onClick={onTrace}
+        className="w-full py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium transition-colors"
+        title="Select exactly this file and the files it reaches"
+      >
+        Select Trace
+      </button>
+    </div>
+  );
+};
+
+const STATUS_BADGES: Record<FileChangeStatus, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  modified: { label: 'Modified', className: 'bg-amber-500/20 text-amber-300 border-amber-500/30' },
+  deleted: { label: 'Removed', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+};
+
+const assetIcon = (mime: string) => {
+  if (mime.startsWith('image/')) return Image;
+  if (mime.startsWith('video/')) return Film;
+  if (mime.startsWith('audio/')) return Music;
+  if (mime.startsWith('font/') || mime.includes('fontobject')) return Type;
+  return File;
+};
+
+const FileTreeNode: React.FC<FileTreeNodeProps> = ({ node, ...treeProps }) => {
+  const { onToggle, activePath, fileEncodings, onEncodingChange, fileStatuses, secretCounts, assetTypes, skeletonStates, onToggleSkeleton, changedDirs, onOpenTraceMenu } = treeProps;
   const [isOpen, setIsOpen] = useState(true);
 
   // Auto-expand if a child is likely to be the active one (simple path containment check)
@@ -20,10 +133,15 @@ const FileTreeNode: React.FC<{ node: FileNode; onToggle: (path: string, checked:
 
   const isActive = activePath === node.path;
   const isNew = node.isNew;
-  const isChecked = node.checked !== false; // Handle optional undefined as true
+  const status = node.isFile ? fileStatuses?.[node.path] : undefined;
+  const isDeleted = status === 'deleted';
+  const assetType = node.isFile ? assetTypes?.[node.path] : undefined;
+  const FileIcon = assetType ? assetIcon(assetType) : FileText;
+  const isChecked = node.checked !== false && !isDeleted; // Handle optional undefined as true
 
   const handleCheck = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (isDeleted) return;
     onToggle(node.path, !isChecked);
   };
 
@@ -56,6 +174,11 @@ const FileTreeNode: React.FC<{ node: FileNode; onToggle: (path: string, checked:
         id={isActive ? "active-file-node" : undefined}
         className={`flex items-center gap-2 py-1.5 px-2 rounded-md cursor-pointer group border transition-all duration-200 mb-0.5 ${containerClasses}`}
         onClick={() => !node.isFile && setIsOpen(!isOpen)}
+        onContextMenu={(e) => {
+          if (!node.isFile || isDeleted || !onOpenTraceMenu || !getGraphLanguage(node.path)) return;
+          e.preventDefault();
+          onOpenTraceMenu(node.path, e.clientX, e.clientY);
+        }}
       >
         <button 
           onClick={handleCheck}
@@ -74,15 +197,73 @@ const FileTreeNode: React.FC<{ node: FileNode; onToggle: (path: string, checked:
         </span>
 
         {node.isFile ? (
-            <FileText size={14} className={`shrink-0 ${iconColorClass}`} />
+            <FileIcon size={14} className={`shrink-0 ${iconColorClass}`} />
         ) : (
             <Folder size={14} className={`shrink-0 ${folderColorClass}`} />
         )}
         
-        <span className={`text-sm truncate flex-1 ${textClasses}`}>
+        <span className={`text-sm truncate flex-1 ${textClasses}`} title={assetType ? `${assetType} (listed as metadata only)` : undefined}>
           {node.name}
         </span>
 
+        {/* Encoding Badge: always visible for non UTF-8 files, on hover otherwise */}
+        {node.isFile && fileEncodings?.[node.path] && onEncodingChange && (
+            <select
+                value={fileEncodings[node.path]}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => onEncodingChange(node.path, e.target.value)}
+                className={`bg-slate-900 text-[9px] font-mono uppercase border rounded px-1 py-0.5 cursor-pointer focus:outline-none shrink-0
+                    ${fileEncodings[node.path] === 'utf-8'
+                        ? 'hidden group-hover:block text-slate-500 border-slate-700'
+                        : fileEncodings[node.path] === 'binary'
+                            ? 'text-slate-400 border-slate-600'
+                            : 'text-amber-400 border-amber-500/30'}`}
+                title="Text encoding (change to re-decode this file)"
+            >
+                {fileEncodings[node.path] === 'binary' && <option value="binary" disabled>binary</option>}
+                {!SUPPORTED_ENCODINGS.includes(fileEncodings[node.path]) && fileEncodings[node.path] !== 'binary' && (
+                    <option value={fileEncodings[node.path]}>{fileEncodings[node.path]}</option>
+                )}
+                {SUPPORTED_ENCODINGS.map(enc => <option key={enc} value={enc}>{enc}</option>)}
+            </select>
+        )}
+
+        {/* Skeleton Toggle: always visible when enabled, on hover otherwise */}
+        {node.isFile && skeletonStates && node.path in skeletonStates && onToggleSkeleton && (
+            <button
+                onClick={(e) => { e.stopPropagation(); onToggleSkeleton(node.path); }}
+                className={`shrink-0 p-0.5 rounded transition-colors ${skeletonStates[node.path]
+                    ? 'text-emerald-400 hover:bg-emerald-500/10'
+                    : 'hidden group-hover:block text-slate-500 hover:text-slate-300'}`}
+                title={skeletonStates[node.path]
+                    ? "Skeleton: only imports, types and signatures are included (click for full content)"
+                    : "Include only imports, types and signatures for this file"}
+            >
+                <Braces size={12} />
+            </button>
+        )}
+
+        {/* Secret Flag */}
+        {node.isFile && secretCounts?.[node.path] ? (
+            <span
+                className="flex items-center gap-0.5 text-[9px] text-red-400 shrink-0"
+                title={`${secretCounts[node.path]} potential secret(s) redacted from output`}
+            >
+                <ShieldAlert size={12} />
+                {secretCounts[node.path]}
+            </span>
+        ) : null}
+
+        {/* Change Badges (live folder sync / re-import) */}
+        {status && (
+            <span className={`text-[9px] px-1.5 py-0.5 rounded-full font-bold uppercase tracking-wider shrink-0 border ${STATUS_BADGES[status].className}`}>
+                {STATUS_BADGES[status].label}
+            </span>
+        )}
+        {!node.isFile && changedDirs?.has(node.path) && (
+            <span className="w-1.5 h-1.5 rounded-full bg-amber-400 shrink-0" title="Contains changed files" />
+        )}
+
         {/* New Badge */}
         {isNew && isChecked && (
             <span className={`text-[9px] px-1.5 py-0.5 rounded-full font-bold uppercase tracking-wider shrink-0
@@ -95,7 +276,7 @@ const FileTreeNode: React.FC<{ node: FileNode; onToggle: (path: string, checked:
       {isOpen && node.children && (
         <div className="ml-6 border-l border-slate-800/50 pl-1">
           {node.children.map((child) => (
-            <FileTreeNode key={child.path} node={child} onToggle={onToggle} activePath={activePath} />
+            <FileTreeNode key={child.path} node={child} {...treeProps} />
           ))}
         </div>
       )}
@@ -103,7 +284,21 @@ const FileTreeNode: React.FC<{ node: FileNode; onToggle: (path: string, checked:
   );
 };
 
-const FileTree: React.FC<FileTreeProps> = ({ nodes, onToggle, activePath }) => {
+const FileTree: React.FC<FileTreeProps> = ({ nodes, ...treeProps }) => {
+  const { activePath, fileStatuses, onTrace } = treeProps;
+  const [traceMenu, setTraceMenu] = useState<{ path: string; x: number; y: number } | null>(null);
+  const [traceOptions, setTraceOptions] = useState<TraceOptions>({ depth: 2, direction: 'imports' });
+
+  // Every ancestor directory of a changed file gets a marker so changes are visible when collapsed
+  const changedDirs = useMemo(() => {
+    const dirs = new Set<string>();
+    Object.keys(fileStatuses || {}).forEach(path => {
+      const parts = path.split('/');
+      for (let i = 1; i < parts.length; i++) dirs.add(parts.slice(0, i).join('/'));
+    });
+    return dirs;
+  }, [fileStatuses]);
+
   if (nodes.length === 0) return <div className="text-slate-500 text-sm p-4 italic text-center">No files selected</div>;
 
   // Scroll active node into view when it changes
@@ -119,8 +314,23 @@ const FileTree: React.FC<FileTreeProps> = ({ nodes, onToggle, activePath }) => {
   return (
     <div className="space-y-0.5 overflow-x-hidden pr-2">
       {nodes.map((node) => (
-        <FileTreeNode key={node.path} node={node} onToggle={onToggle} activePath={activePath} />
+        <FileTreeNode
+          key={node.path}
+          node={node}
+          {...treeProps}
+          changedDirs={changedDirs}
+          onOpenTraceMenu={onTrace ? (path, x, y) => setTraceMenu({ path, x, y }) : undefined}
+        />
       ))}
+      {traceMenu && onTrace && (
+        <TraceMenu
+          {...traceMenu}
+          options={traceOptions}
+          onChange={setTraceOptions}
+          onTrace={() => { onTrace(traceMenu.path, traceOptions); setTraceMenu(null); }}
+          onClose={() => setTraceMenu(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { GitBranch, ChevronDown, ChevronUp, GitCommitHorizontal, Loader2, X } from 'lucide-react';
+import { GitCommit } from '../utils/gitRepository';
+
+interface GitPanelProps {
+  isLoaded: boolean;
+  headRef: string | null;
+  commits: GitCommit[];
+  isBusy: boolean;
+  error: string | null;
+  comparedSha: string | null;
+  onLoad: () => void;
+  onCompare: (commit: GitCommit) => void;
+  onClearComparison: () => void;
+}
+
+const formatAge = (seconds: number) => {
+  const days = Math.floor((Date.now() / 1000 - seconds) / 86400);
+  if (days <= 0) return 'today';
+  if (days < 30) return `${days}d ago`;
+  if (days < 365) return `${Math.floor(days / 30)}mo ago`;
+  return `${Math.floor(days / 365)}y ago`;
+};
+
+const GitPanel: React.FC<GitPanelProps> = ({
+  isLoaded,
+  headRef,
+  commits,
+  isBusy,
+  error,
+  comparedSha,
+  onLoad,
+  onCompare,
+  onClearComparison
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const branch = headRef ? headRef.replace(/^refs\/heads\//, '') : 'detached HEAD';
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between bg-slate-950/50 hover:bg-slate-950 transition-colors"
+      >
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-300 min-w-0">
+          <GitBranch size={16} className="text-orange-400 shrink-0" />
+          <span>Git History</span>
+          {isLoaded && <span className="text-[10px] text-slate-500 font-mono ml-1 truncate">{branch}</span>}
+          {comparedSha && (
+            <span className="bg-orange-500/20 text-orange-300 text-[10px] px-1.5 py-0.5 rounded-full border border-orange-500/30 font-mono shrink-0">
+              vs {comparedSha.substring(0, 7)}
+            </span>
+          )}
+        </div>
+        {isOpen ? <ChevronUp size={16} className="text-slate-500" /> : <ChevronDown size={16} className="text-slate-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-3 border-t border-slate-800">
+          {!isLoaded ? (
+            <div className="space-y-2">
+              <p className="text-[10px] text-slate-500">
+                A .git directory was found in the upload. Reading it stays in your browser and lets you
+                build context from the changes since any recent commit.
+              </p>
+              <button
+                onClick={onLoad}
+                disabled={isBusy}
+                className="w-full flex items-center justify-center gap-2 bg-orange-600/10 hover:bg-orange-600/20 text-orange-300 text-xs py-2 rounded transition-colors border border-orange-600/20 hover:border-orange-500/30 disabled:opacity-50"
+              >
+                {isBusy ? <Loader2 size={14} className="animate-spin" /> : <GitBranch size={14} />}
+                Read .git History
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => commits[0] && onCompare(commits[0])}
+                  disabled={isBusy || commits.length === 0}
+                  className="flex-1 flex items-center justify-center gap-2 bg-orange-600/10 hover:bg-orange-600/20 text-orange-300 text-xs py-2 rounded transition-colors border border-orange-600/20 hover:border-orange-500/30 disabled:opacity-50"
+                >
+                  {isBusy ? <Loader2 size={14} className="animate-spin" /> : <GitCommitHorizontal size={14} />}
+                  Working Tree vs HEAD
+                </button>
+                {comparedSha && (
+                  <button
+                    onClick={onClearComparison}
+                    className="flex items-center gap-1 px-3 text-xs text-slate-400 hover:text-slate-200 rounded border border-slate-700 transition-colors"
+                    title="Stop comparing and remove the diff from the output"
+                  >
+                    <X size={12} />
+                    Clear
+                  </button>
+                )}
+              </div>
+
+              <div className="max-h-56 overflow-y-auto bg-slate-950 rounded-lg border border-slate-800 divide-y divide-slate-800/60">
+                {commits.map(commit => (
+                  <button
+                    key={commit.sha}
+                    onClick={() => onCompare(commit)}
+                    disabled={isBusy}
+                    className={`w-full text-left px-3 py-1.5 text-xs flex items-center gap-2 hover:bg-slate-900 disabled:opacity-60 transition-colors ${comparedSha === commit.sha ? 'bg-orange-900/20' : ''}`}
+                    title={`Changes since ${commit.sha}\n${commit.message.trim()}`}
+                  >
+                    <span className="font-mono text-orange-300/80 shrink-0">{commit.sha.substring(0, 7)}</span>
+                    <span className="text-slate-300 truncate flex-1">{commit.subject}</span>
+                    <span className="text-slate-600 shrink-0">{formatAge(commit.authoredAt)}</span>
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500">
+                Click a commit to select the files changed since it and prepend their unified diffs to the output.
+              </p>
+            </>
+          )}
+          {error && <p className="text-[10px] text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GitPanel;
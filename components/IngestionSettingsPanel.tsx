@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { Settings2, ChevronDown, ChevronUp, Plus, X, Check } from 'lucide-react';
+import { OversizeSettings, OversizeStrategy, ConverterSettings } from '../types';
+import { OVERSIZE_STRATEGIES } from '../utils/oversizedFiles';
+
+interface IngestionSettingsPanelProps {
+  settings: OversizeSettings;
+  converters: ConverterSettings;
+  onApply: (settings: OversizeSettings, converters: ConverterSettings) => void;
+}
+
+const IngestionSettingsPanel: React.FC<IngestionSettingsPanelProps> = ({ settings, converters, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<OversizeSettings>(settings);
+  const [converterDraft, setConverterDraft] = useState<ConverterSettings>(converters);
+  const [rulePattern, setRulePattern] = useState('');
+  const [ruleStrategy, setRuleStrategy] = useState<OversizeStrategy>('outline');
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    setConverterDraft(converters);
+  }, [converters]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings) ||
+    JSON.stringify(converterDraft) !== JSON.stringify(converters);
+
+  const handleAddRule = () => {
+    const pattern = rulePattern.trim();
+    if (!pattern) return;
+    setDraft({
+      ...draft,
+      rules: [...draft.rules.filter(r => r.pattern !== pattern), { pattern, strategy: ruleStrategy }],
+    });
+    setRulePattern('');
+  };
+
+  const handleRemoveRule = (pattern: string) => {
+    setDraft({ ...draft, rules: draft.rules.filter(r => r.pattern !== pattern) });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAddRule();
+    }
+  };
+
+  const strategySelect = (value: OversizeStrategy, onChange: (s: OversizeStrategy) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as OversizeStrategy)}
+      className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-blue-500/50 cursor-pointer"
+    >
+      {OVERSIZE_STRATEGIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between bg-slate-950/50 hover:bg-slate-950 transition-colors"
+      >
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+          <Settings2 size={16} className="text-blue-400" />
+          <span>Ingestion</span>
+          <span className="text-[10px] text-slate-500 font-mono ml-1">
+            &gt; {(settings.maxFileSize / (1024 * 1024)).toFixed(1)} MB
+          </span>
+        </div>
+        {isOpen ? <ChevronUp size={16} className="text-slate-500" /> : <ChevronDown size={16} className="text-slate-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-4 border-t border-slate-800">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-slate-400 block">Size Cap (MB)</span>
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={Number((draft.maxFileSize / (1024 * 1024)).toFixed(2))}
+                onChange={(e) => setDraft({ ...draft, maxFileSize: Math.max(0.1, Number(e.target.value) || 0.1) * 1024 * 1024 })}
+                className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500/50"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-slate-400 block">Excerpt Lines</span>
+              <input
+                type="number"
+                min={10}
+                step={10}
+                value={draft.excerptLines}
+                onChange={(e) => setDraft({ ...draft, excerptLines: Math.max(10, Math.round(Number(e.target.value) || 10)) })}
+                className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500/50"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-slate-400 block">Default Strategy</span>
+            {strategySelect(draft.defaultStrategy, (s) => setDraft({ ...draft, defaultStrategy: s }))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-slate-400 block">
+              Per-File Rules
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500/50 placeholder:text-slate-600"
+                placeholder="e.g. *.sql or schema/big.graphql"
+                value={rulePattern}
+                onChange={(e) => setRulePattern(e.target.value)}
+                onKeyDown={handleKeyDown}
+                spellCheck={false}
+              />
+              {strategySelect(ruleStrategy, setRuleStrategy)}
+              <button
+                onClick={handleAddRule}
+                disabled={!rulePattern.trim()}
+                className="px-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 hover:border-slate-600 disabled:opacity-50 transition-colors"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+
+            {draft.rules.length > 0 && (
+              <div className="space-y-1 p-2 bg-slate-950 rounded-lg border border-slate-800">
+                {draft.rules.map(rule => (
+                  <div key={rule.pattern} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-mono text-slate-200 truncate">{rule.pattern}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="text-slate-500">{OVERSIZE_STRATEGIES.find(s => s.value === rule.strategy)?.label}</span>
+                      <button
+                        onClick={() => handleRemoveRule(rule.pattern)}
+                        className="text-slate-500 hover:text-red-400 transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] text-slate-500">
+              The first matching rule wins; other files over the cap use the default strategy.
+            </p>
+          </div>
+
+          <div className="space-y-2 pt-3 border-t border-slate-800/50">
+            <label className="flex items-center gap-2 text-xs font-medium text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={converterDraft.enabled}
+                onChange={(e) => setConverterDraft({ ...converterDraft, enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Convert notebooks, SVG, CSV and minified JS
+            </label>
+            {converterDraft.enabled && (
+              <div className="grid grid-cols-2 gap-3 pl-5">
+                <label className="flex items-center gap-2 text-[11px] text-slate-400 col-span-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={converterDraft.notebookOutputs}
+                    onChange={(e) => setConverterDraft({ ...converterDraft, notebookOutputs: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                  Include notebook cell outputs
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[11px] text-slate-500 block">Output Lines / Cell</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={converterDraft.maxOutputLines}
+                    disabled={!converterDraft.notebookOutputs}
+                    onChange={(e) => setConverterDraft({ ...converterDraft, maxOutputLines: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500/50 disabled:opacity-50"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[11px] text-slate-500 block">CSV Sample Rows</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={converterDraft.csvSampleRows}
+                    onChange={(e) => setConverterDraft({ ...converterDraft, csvSampleRows: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500/50"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-2 border-t border-slate-800/50">
+            <button
+              onClick={() => onApply(draft, converterDraft)}
+              disabled={!isDirty}
+              className="flex-1 flex items-center justify-center gap-2 bg-blue-600/10 hover:bg-blue-600/20 text-blue-400 hover:text-blue-300 text-xs py-2 rounded transition-colors border border-blue-600/20 hover:border-blue-500/30 disabled:opacity-40"
+            >
+              <Check size={14} />
+              Apply Settings
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IngestionSettingsPanel;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { FolderSync, RefreshCw, Radio, X, Eraser } from 'lucide-react';
+
+interface LiveFolderBarProps {
+  folderName?: string;
+  storedFolderName?: string;
+  autoRescan: boolean;
+  lastScanAt: number | null;
+  changeCount: number;
+  isBusy: boolean;
+  onOpen: () => void;
+  onReconnect: () => void;
+  onRescan: () => void;
+  onToggleAutoRescan: () => void;
+  onClearMarks: () => void;
+  onClose: () => void;
+}
+
+const LiveFolderBar: React.FC<LiveFolderBarProps> = ({
+  folderName,
+  storedFolderName,
+  autoRescan,
+  lastScanAt,
+  changeCount,
+  isBusy,
+  onOpen,
+  onReconnect,
+  onRescan,
+  onToggleAutoRescan,
+  onClearMarks,
+  onClose
+}) => {
+  if (!folderName) {
+    return (
+      <div className="flex gap-2">
+        <button
+          onClick={onOpen}
+          disabled={isBusy}
+          className="flex-1 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs py-2 rounded-lg border border-slate-700 hover:border-slate-600 disabled:opacity-50 transition-colors"
+          title="Open a folder with read access and rescan it as it changes"
+        >
+          <FolderSync size={14} className="text-emerald-400" />
+          Open Live Folder
+        </button>
+        {storedFolderName && (
+          <button
+            onClick={onReconnect}
+            disabled={isBusy}
+            className="flex items-center gap-1.5 px-3 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-slate-200 text-xs py-2 rounded-lg border border-slate-700 disabled:opacity-50 transition-colors truncate max-w-[50%]"
+            title={`Reconnect to ${storedFolderName}`}
+          >
+            <RefreshCw size={12} />
+            <span className="truncate">Reconnect {storedFolderName}</span>
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-emerald-900/10 border border-emerald-500/20 rounded-lg px-3 py-2 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs text-emerald-300 min-w-0">
+          <Radio size={12} className={autoRescan ? 'animate-pulse' : ''} />
+          <span className="font-mono truncate">{folderName}</span>
+          {changeCount > 0 && (
+            <span className="bg-amber-500/20 text-amber-300 text-[10px] px-1.5 py-0.5 rounded-full border border-amber-500/30 shrink-0">
+              {changeCount} changed
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-red-400 transition-colors shrink-0" title="Stop live sync">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex items-center gap-2 text-[10px]">
+        <button
+          onClick={onRescan}
+          disabled={isBusy}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-emerald-500/30 text-emerald-300 hover:bg-emerald-900/30 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw size={10} />
+          Rescan
+        </button>
+        <button
+          onClick={onToggleAutoRescan}
+          className={`px-2 py-1 rounded border transition-colors ${autoRescan
+            ? 'bg-emerald-600/20 border-emerald-500/40 text-emerald-200'
+            : 'border-slate-700 text-slate-400 hover:text-slate-300'}`}
+          title="Poll the folder for changes every few seconds"
+        >
+          Auto {autoRescan ? 'On' : 'Off'}
+        </button>
+        {changeCount > 0 && (
+          <button
+            onClick={onClearMarks}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-slate-300 transition-colors"
+            title="Clear added/modified/removed markers"
+          >
+            <Eraser size={10} />
+            Clear
+          </button>
+        )}
+        {lastScanAt && (
+          <span className="ml-auto text-slate-500">Scanned {new Date(lastScanAt).toLocaleTimeString()}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiveFolderBar;
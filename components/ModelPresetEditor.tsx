@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { Cpu, Plus, Trash2, X, AlertCircle } from 'lucide-react';
+import { ModelPreset, TokenizerId } from '../types';
+import { DEFAULT_MODEL_PRESET_ID, TOKENIZER_LABELS, getChunkBudget, getPresetError, createPresetId, formatTokenCount } from '../utils/modelPresets';
+
+interface ModelPresetEditorProps {
+  customPresets: ModelPreset[];
+  activePreset: ModelPreset;
+  onSelect: (id: string) => void;
+  onSave: (preset: ModelPreset) => void; // Adds or replaces by id
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Edits are applied after a pause in typing, like template edits
+const APPLY_DELAY_MS = 300;
+
+const inputClass = 'bg-slate-900 text-[11px] text-slate-300 border border-slate-800 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:opacity-60';
+
+const ModelPresetEditor: React.FC<ModelPresetEditorProps> = ({
+  customPresets,
+  activePreset,
+  onSelect,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<ModelPreset>(activePreset);
+
+  // Switching presets replaces the draft; saves of the draft itself come back unchanged
+  useEffect(() => {
+    setDraft(prev => prev.id === activePreset.id ? prev : activePreset);
+  }, [activePreset]);
+
+  const editable = !!draft.custom;
+  const error = editable ? getPresetError(draft) : null;
+
+  useEffect(() => {
+    if (!editable || draft === activePreset || error) return;
+    const timer = setTimeout(() => onSave(draft), APPLY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, error]);
+
+  const update = (changes: Partial<ModelPreset>) => setDraft(prev => ({ ...prev, ...changes }));
+  const numberField = (key: 'contextWindow' | 'outputReserve' | 'inputPrice') => (e: React.ChangeEvent<HTMLInputElement>) =>
+    update({ [key]: e.target.value === '' ? NaN : Number(e.target.value) });
+
+  // New entries start from the selected model, so adjusting one value is a single edit
+  const handleNew = () => {
+    const preset: ModelPreset = { ...activePreset, id: createPresetId(), name: `${activePreset.name} (custom)`, custom: true };
+    onSave(preset);
+    onSelect(preset.id);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete model "${draft.name}"?`)) return;
+    onDelete(draft.id);
+    onSelect(DEFAULT_MODEL_PRESET_ID);
+  };
+
+  return (
+    <div className="border-b border-slate-800 bg-slate-950/60 p-3 flex flex-col gap-2 text-xs">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <Cpu size={14} className="text-blue-400" />
+        <input
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          disabled={!editable}
+          placeholder="Model name"
+          className={`${inputClass} w-44`}
+        />
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={handleNew} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="New custom model based on this one">
+            <Plus size={14} />
+          </button>
+          {editable && (
+            <button onClick={handleDelete} className="p-1 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded" title="Delete custom model">
+              <Trash2 size={14} />
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white hover:bg-slate-800 rounded" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="flex flex-col gap-1 text-[10px] text-slate-500">
+          Context window (tokens)
+          <input type="number" min={1} value={Number.isNaN(draft.contextWindow) ? '' : draft.contextWindow} onChange={numberField('contextWindow')} disabled={!editable} className={`${inputClass} font-mono`} />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] text-slate-500">
+          Output reserve (tokens)
+          <input type="number" min={0} value={Number.isNaN(draft.outputReserve) ? '' : draft.outputReserve} onChange={numberField('outputReserve')} disabled={!editable} className={`${inputClass} font-mono`} />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] text-slate-500">
+          Tokenizer
+          <select value={draft.tokenizer} onChange={(e) => update({ tokenizer: e.target.value as TokenizerId })} disabled={!editable} className={`${inputClass} cursor-pointer`}>
+            {(Object.keys(TOKENIZER_LABELS) as TokenizerId[]).map(id => <option key={id} value={id}>{TOKENIZER_LABELS[id]}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] text-slate-500">
+          Input price (USD / 1M tokens)
+          <input type="number" min={0} step={0.01} value={Number.isNaN(draft.inputPrice) ? '' : draft.inputPrice} onChange={numberField('inputPrice')} disabled={!editable} className={`${inputClass} font-mono`} />
+        </label>
+      </div>
+
+      {error ? (
+        <div className="text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {error} (not applied until fixed)</div>
+      ) : (
+        <div className="text-slate-500">
+          Chunk budget: {getChunkBudget(draft).toLocaleString()} tokens ({formatTokenCount(draft.contextWindow)} window minus {draft.outputReserve.toLocaleString()} reserved for the answer).
+          {!editable && ' Built-in models are read-only; add a custom one to change values.'}
+          {!editable && customPresets.length > 0 && ` ${customPresets.length} custom model${customPresets.length === 1 ? '' : 's'} saved in this browser.`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelPresetEditor;
@@ -1,8 +1,15 @@
-import React, { useState, useMemo } from 'react';
-import { Copy, Download, Bot, Sparkles, AlertCircle, Wand2, Network, ChevronDown, ChevronUp, X, ShieldAlert, FileText, ArrowLeft, ArrowRight, Book, Eye, EyeOff, Trash2 } from 'lucide-react';
-import { estimateTokens } from '../utils/fileProcessing';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Copy, Download, Bot, Sparkles, AlertCircle, Wand2, Network, ChevronDown, ChevronUp, X, ShieldAlert, FileText, ArrowLeft, ArrowRight, Book, Eye, EyeOff, Trash2, ListTree, ListOrdered, Braces, LayoutTemplate, GitFork, Scissors, SlidersHorizontal, Gauge, Loader2 } from 'lucide-react';
+import { estimateTokens, NUMBERED_LINE } from '../utils/fileProcessing';
+import { BUILTIN_MODEL_PRESETS, getChunkBudget, estimateInputCost, formatCost, formatTokenCount } from '../utils/modelPresets';
+import { findCodeReferences, resolveReferencePath } from '../utils/codeReferences';
+import { STRIP_LEVELS } from '../utils/commentStripping';
+import { OUTPUT_FORMATTERS, OutputFormatter } from '../utils/outputFormats';
+import { resolveFormatter } from '../utils/outputTemplates';
+import TemplateEditor from './TemplateEditor';
+import ModelPresetEditor from './ModelPresetEditor';
 import { analyzeCodebase } from '../services/geminiService';
-import { SummaryFocus } from '../types';
+import { SummaryFocus, OutputFormat, OutputTemplate, StripLevel, FileOrder, ModelPreset } from '../types';
 
 interface OutputPanelProps {
   content: string;
@@ -16,8 +23,39 @@ interface OutputPanelProps {
   setIncludeSummaries: (include: boolean) => void;
   
   // Chunking Props
-  tokenLimit: number;
-  setTokenLimit: (limit: number) => void;
+  tokenLimit: number; // Chunk budget from the model preset, 0 while not splitting
+  splitOutput: boolean;
+  setSplitOutput: (split: boolean) => void;
+  modelPreset: ModelPreset; // Tokenizer for counts, context window for chunks, price for the cost estimate
+  customPresets: ModelPreset[];
+  onSelectPreset: (id: string) => void;
+  onSavePreset: (preset: ModelPreset) => void;
+  onDeletePreset: (id: string) => void;
+  contentTokens: { count: number; exact: boolean } | null; // Tokens of the displayed content, once counted
+  exportTokens: { count: number; exact: boolean } | null; // Tokens of every part together, once counted
+  tokenCalibration: number | null; // Gemini estimate factor from the countTokens API, if measured
+  isCalibrating: boolean;
+  onCalibrateTokens: () => void; // Sends a sample of the selected, redacted files to the API
+  chunkError: string | null; // Why the output could not be split within the limit
+  outputFormat: OutputFormat;
+  setOutputFormat: (format: OutputFormat) => void;
+  outputTemplates: OutputTemplate[];
+  activeTemplateId: string | null; // Overrides outputFormat while set
+  onSelectTemplate: (id: string | null) => void;
+  onSaveTemplate: (template: OutputTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  includePreamble: boolean;
+  setIncludePreamble: (include: boolean) => void;
+  lineNumbers: boolean;
+  setLineNumbers: (enabled: boolean) => void;
+  stripLevel: StripLevel;
+  setStripLevel: (level: StripLevel) => void;
+  stripSavings: Record<StripLevel, number>; // Estimated tokens removed per level
+  skeletonMode: boolean; // Default for files without a per-file override in the tree
+  setSkeletonMode: (enabled: boolean) => void;
+  skeletonError: string | null; // TS/JS skeletons could not be built
+  fileOrder: FileOrder;
+  setFileOrder: (order: FileOrder) => void;
   currentChunkIndex: number;
   totalChunks: number;
   onNextChunk: () => void;
@@ -25,6 +63,7 @@ interface OutputPanelProps {
   
   // Navigation
   onFileClick?: (path: string) => void;
+  onRevealInOutput?: (path: string) => void; // Switches to the chunk holding the file
   allFilePaths?: string[];
 }
 
@@ -39,12 +78,44 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
   includeSummaries,
   setIncludeSummaries,
   tokenLimit,
-  setTokenLimit,
+  splitOutput,
+  setSplitOutput,
+  modelPreset,
+  customPresets,
+  onSelectPreset,
+  onSavePreset,
+  onDeletePreset,
+  contentTokens,
+  exportTokens,
+  tokenCalibration,
+  isCalibrating,
+  onCalibrateTokens,
+  chunkError,
+  outputFormat,
+  setOutputFormat,
+  outputTemplates,
+  activeTemplateId,
+  onSelectTemplate,
+  onSaveTemplate,
+  onDeleteTemplate,
+  includePreamble,
+  setIncludePreamble,
+  lineNumbers,
+  setLineNumbers,
+  stripLevel,
+  setStripLevel,
+  stripSavings,
+  skeletonMode,
+  skeletonError,
+  setSkeletonMode,
+  fileOrder,
+  setFileOrder,
   currentChunkIndex,
   totalChunks,
   onNextChunk,
   onPrevChunk,
   onFileClick,
+  onRevealInOutput,
   allFilePaths = []
 }) => {
   const [copyFeedback, setCopyFeedback] = useState(false);
@@ -56,9 +127,16 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
   
   // View Mode: 'raw' | 'interactive'
   const [viewMode, setViewMode] = useState<'raw' | 'interactive'>('interactive');
+  const [jumpTarget, setJumpTarget] = useState<JumpTarget | null>(null);
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
+  const [showPresetEditor, setShowPresetEditor] = useState(false);
   
-  const tokenCount = estimateTokens(content);
+  const activeTemplate = outputTemplates.find(t => t.id === activeTemplateId) || null;
+  const formatter = resolveFormatter(outputFormat, activeTemplate);
+  const tokenCount = contentTokens ? contentTokens.count : estimateTokens(content);
+  const tokenCountExact = !!contentTokens?.exact;
   const sizeKB = (new Blob([content]).size / 1024).toFixed(1);
+  const chunkBudget = getChunkBudget(modelPreset);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(content);
@@ -68,14 +146,47 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
 
   const handleDownload = () => {
     const element = document.createElement("a");
-    const file = new Blob([content], { type: 'text/plain' });
+    const file = new Blob([content], { type: formatter.mimeType });
     element.href = URL.createObjectURL(file);
-    element.download = totalChunks > 1 ? `codebase_context_part_${currentChunkIndex + 1}.txt` : "codebase_context.txt";
+    element.download = totalChunks > 1
+        ? `codebase_context_part_${currentChunkIndex + 1}.${formatter.fileExtension}`
+        : `codebase_context.${formatter.fileExtension}`;
     document.body.appendChild(element);
     element.click();
     document.body.removeChild(element);
   };
 
+  const jumpToReference = (path: string, line: number) => {
+    setViewMode('interactive');
+    onFileClick?.(path);
+    onRevealInOutput?.(path);
+    setJumpTarget({ path, line, requestedAt: Date.now() });
+  };
+
+  // Turns "src/App.tsx:140" style citations in analysis results into jumps to that line of the output
+  const renderWithReferences = (text: string) => {
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    findCodeReferences(text).forEach((ref, i) => {
+      const path = resolveReferencePath(ref.path, allFilePaths);
+      if (!path) return;
+      nodes.push(text.substring(last, ref.start));
+      nodes.push(
+        <button
+          key={`ref-${i}`}
+          onClick={() => jumpToReference(path, ref.line)}
+          className="text-blue-300 hover:text-blue-200 underline decoration-blue-500/30 font-mono"
+          title={`Jump to line ${ref.line} of ${path}${lineNumbers ? '' : ' (enable line numbers for exact jumps)'}`}
+        >
+          {text.substring(ref.start, ref.end)}
+        </button>
+      );
+      last = ref.end;
+    });
+    nodes.push(text.substring(last));
+    return nodes;
+  };
+
   const runAnalysis = async (type: 'summary' | 'audit' | 'readme' | 'architecture' | 'manifest' | 'redundancy') => {
     setIsAnalyzing(true);
     setAnalysisError(null);
@@ -103,23 +214,142 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
         <div className="flex items-center gap-4 flex-wrap">
           <div className="flex items-center gap-2">
              <span className="text-sm font-semibold text-slate-300">Generated Output</span>
-             <select 
-                value={tokenLimit}
-                onChange={(e) => setTokenLimit(Number(e.target.value))}
+             <select
+                value={modelPreset.id}
+                onChange={(e) => onSelectPreset(e.target.value)}
                 className="bg-slate-900 text-[10px] text-slate-400 border border-slate-800 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none cursor-pointer"
-                title="Limit output size for specific LLM models"
+                title="Target model: token counts use its tokenizer, parts fit its context window and the cost uses its price"
              >
-                <option value={0}>No Limit (Single File)</option>
-                <option value={100000}>100k Tokens (Claude/GPT-4)</option>
-                <option value={30000}>30k Tokens (Standard Chat)</option>
-                <option value={8000}>8k Tokens (Small)</option>
+                <optgroup label="Models">
+                    {BUILTIN_MODEL_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name} ({formatTokenCount(p.contextWindow)})</option>)}
+                </optgroup>
+                {customPresets.length > 0 && (
+                    <optgroup label="Custom">
+                        {customPresets.map(p => <option key={p.id} value={p.id}>{p.name} ({formatTokenCount(p.contextWindow)})</option>)}
+                    </optgroup>
+                )}
              </select>
+             <button
+                onClick={() => setShowPresetEditor(!showPresetEditor)}
+                className={`p-1 rounded border transition-colors ${showPresetEditor || modelPreset.custom ? 'text-blue-400 border-blue-500/30 bg-blue-500/10' : 'text-slate-500 border-slate-800 hover:text-slate-400'}`}
+                title="Model details and custom models (context window, output reserve, tokenizer, price)"
+             >
+                <SlidersHorizontal size={12} />
+             </button>
+             <button
+                onClick={() => setSplitOutput(!splitOutput)}
+                className={`p-1 rounded border transition-colors ${splitOutput ? 'text-blue-400 border-blue-500/30 bg-blue-500/10' : 'text-slate-500 border-slate-800 hover:text-slate-400'}`}
+                title={splitOutput
+                    ? `Split into parts of up to ${chunkBudget.toLocaleString()} tokens (${modelPreset.name}'s window minus ${modelPreset.outputReserve.toLocaleString()} for the answer)`
+                    : `Single file. Split into parts that fit ${modelPreset.name}'s context window`}
+             >
+                <Scissors size={12} />
+             </button>
+             <select
+                value={activeTemplate ? `template:${activeTemplate.id}` : outputFormat}
+                onChange={(e) => {
+                    if (e.target.value.startsWith('template:')) {
+                        onSelectTemplate(e.target.value.substring('template:'.length));
+                    } else {
+                        setOutputFormat(e.target.value as OutputFormat);
+                        onSelectTemplate(null);
+                    }
+                }}
+                className="bg-slate-900 text-[10px] text-slate-400 border border-slate-800 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none cursor-pointer"
+                title="Output format (applies to every chunk)"
+             >
+                {OUTPUT_FORMATTERS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                {outputTemplates.length > 0 && (
+                    <optgroup label="Templates">
+                        {outputTemplates.map(t => <option key={t.id} value={`template:${t.id}`}>{t.name}</option>)}
+                    </optgroup>
+                )}
+             </select>
+             <button
+                onClick={() => setShowTemplateEditor(!showTemplateEditor)}
+                className={`p-1 rounded border transition-colors ${showTemplateEditor || activeTemplate ? 'text-blue-400 border-blue-500/30 bg-blue-500/10' : 'text-slate-500 border-slate-800 hover:text-slate-400'}`}
+                title="Edit output templates (headers, per-file metadata, footers)"
+             >
+                <LayoutTemplate size={12} />
+             </button>
+             <select
+                value={stripLevel}
+                onChange={(e) => setStripLevel(e.target.value as StripLevel)}
+                className={`bg-slate-900 text-[10px] border rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none cursor-pointer
+                    ${stripLevel === 'none' ? 'text-slate-400 border-slate-800' : 'text-emerald-400 border-emerald-500/30'}`}
+                title="Strip license banners, comments and whitespace (TS/JS, Python, Go, Rust, Java, CSS, HTML). Strings and doc comments are kept."
+             >
+                {STRIP_LEVELS.map(level => (
+                    <option key={level.id} value={level.id}>
+                        {level.label}{level.id !== 'none' ? ` (-${stripSavings[level.id].toLocaleString()} tokens)` : ''}
+                    </option>
+                ))}
+             </select>
+             <button
+                onClick={() => setLineNumbers(!lineNumbers)}
+                className={`p-1 rounded border transition-colors ${lineNumbers ? 'text-blue-400 border-blue-500/30 bg-blue-500/10' : 'text-slate-500 border-slate-800 hover:text-slate-400'}`}
+                title={lineNumbers ? "Line numbers included in every file" : "Prefix every line with its line number"}
+             >
+                <ListOrdered size={12} />
+             </button>
+             <button
+                onClick={() => setSkeletonMode(!skeletonMode)}
+                className={`p-1 rounded border transition-colors ${skeletonError ? 'text-amber-400 border-amber-500/30 bg-amber-500/10' : skeletonMode ? 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' : 'text-slate-500 border-slate-800 hover:text-slate-400'}`}
+                title={skeletonError
+                    ? `${skeletonError}. TS/JS files are included in full; other languages still use skeletons.`
+                    : skeletonMode
+                    ? "Skeleton mode: TS/JS, Python, Go and Java files reduced to imports, types and signatures (override per file in the tree)"
+                    : "Reduce source files to imports, types and signatures with bodies elided (override per file in the tree)"}
+             >
+                <Braces size={12} />
+             </button>
+             <button
+                onClick={() => setFileOrder(fileOrder === 'directory' ? 'dependencies' : 'directory')}
+                className={`p-1 rounded border transition-colors ${fileOrder === 'dependencies' ? 'text-blue-400 border-blue-500/30 bg-blue-500/10' : 'text-slate-500 border-slate-800 hover:text-slate-400'}`}
+                title={fileOrder === 'dependencies'
+                    ? "Dependency order: imported files come before the files that use them (import cycles kept together)"
+                    : "Order files by their imports (TS/JS, Python, Go, Rust) instead of by folder"}
+             >
+                <GitFork size={12} />
+             </button>
+             <button
+                onClick={() => setIncludePreamble(!includePreamble)}
+                className={`p-1 rounded border transition-colors ${includePreamble ? 'text-blue-400 border-blue-500/30 bg-blue-500/10' : 'text-slate-500 border-slate-800 hover:text-slate-400'}`}
+                title={includePreamble
+                    ? "Project tree, file index and part headers included"
+                    : "Add a project tree and file index up front (and part headers when chunked)"}
+             >
+                <ListTree size={12} />
+             </button>
           </div>
 
           <div className="flex items-center gap-2 text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-slate-800">
-            <span>{tokenCount.toLocaleString()} est. tokens</span>
+            <span title={tokenCountExact ? 'Counted with the target model\'s tokenizer' : 'Estimated: tokenizer vocabulary not available for this model'}>
+                {tokenCount.toLocaleString()} {tokenCountExact ? 'tokens' : 'est. tokens'}
+            </span>
+            {process.env.API_KEY && modelPreset.tokenizer === 'gemini' && (
+                <button
+                    onClick={onCalibrateTokens}
+                    disabled={isCalibrating}
+                    className={`transition-colors disabled:opacity-50 ${tokenCalibration !== null ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+                    title={`${tokenCalibration !== null ? `Calibrated (x${tokenCalibration.toFixed(2)}). ` : ''}Send a sample of the selected files (secrets redacted) to Gemini's countTokens API to calibrate the estimate`}
+                >
+                    {isCalibrating ? <Loader2 size={12} className="animate-spin" /> : <Gauge size={12} />}
+                </button>
+            )}
             <span className="w-px h-3 bg-slate-700"></span>
             <span>{sizeKB} KB</span>
+            {exportTokens && (
+                <>
+                    <span className="w-px h-3 bg-slate-700"></span>
+                    <span
+                        className="text-emerald-400/80"
+                        title={`Estimated input cost of the full export${totalChunks > 1 ? ` (all ${totalChunks} parts)` : ''}: ${exportTokens.exact ? '' : '~'}${exportTokens.count.toLocaleString()} tokens at $${modelPreset.inputPrice}/1M (${modelPreset.name})`}
+                    >
+                        {exportTokens.exact ? '' : '~'}{formatCost(estimateInputCost(exportTokens.count, modelPreset))}
+                    </span>
+                </>
+            )}
           </div>
         </div>
         
@@ -192,7 +422,7 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
            <button
             onClick={handleDownload}
             className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
-            title="Download .txt"
+            title={`Download .${formatter.fileExtension}`}
           >
             <Download size={18} />
           </button>
@@ -209,6 +439,13 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
         </div>
       </div>
 
+      {chunkError && (
+          <div className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border-b border-red-500/20 text-xs text-red-300">
+              <AlertCircle size={14} className="shrink-0" />
+              <span>{chunkError}. Pick a model with a larger window or turn off splitting.</span>
+          </div>
+      )}
+
       {/* Pagination Bar */}
       {tokenLimit > 0 && totalChunks > 1 && (
           <div className="flex items-center justify-between px-4 py-2 bg-slate-900 border-b border-slate-800 text-xs">
@@ -234,6 +471,28 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
           </div>
       )}
 
+      {showPresetEditor && (
+          <ModelPresetEditor
+              customPresets={customPresets}
+              activePreset={modelPreset}
+              onSelect={onSelectPreset}
+              onSave={onSavePreset}
+              onDelete={onDeletePreset}
+              onClose={() => setShowPresetEditor(false)}
+          />
+      )}
+
+      {showTemplateEditor && (
+          <TemplateEditor
+              templates={outputTemplates}
+              activeTemplateId={activeTemplateId}
+              onSelect={onSelectTemplate}
+              onSave={onSaveTemplate}
+              onDelete={onDeleteTemplate}
+              onClose={() => setShowTemplateEditor(false)}
+          />
+      )}
+
       {/* Editor/Preview Area */}
       <div className="flex-1 relative group bg-slate-900 overflow-hidden">
         {viewMode === 'raw' ? (
@@ -244,7 +503,7 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
                 spellCheck={false}
             />
         ) : (
-            <InteractiveView content={content} onFileClick={onFileClick} allFilePaths={allFilePaths} />
+            <InteractiveView content={content} formatter={formatter} onFileClick={onFileClick} allFilePaths={allFilePaths} jumpTarget={jumpTarget} />
         )}
       </div>
 
@@ -372,7 +631,7 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
                 {!isResultCollapsed && (
                   <div className="max-h-80 overflow-y-auto p-4 text-sm text-slate-300 border-t border-slate-800 scrollbar-thin scrollbar-thumb-slate-700">
                     <div className="prose prose-invert prose-sm max-w-none prose-p:leading-relaxed prose-headings:text-slate-200 prose-code:bg-slate-800 prose-code:px-1 prose-code:rounded prose-code:before:content-none prose-code:after:content-none">
-                        <pre className="font-sans whitespace-pre-wrap">{analysisResult}</pre>
+                        <pre className="font-sans whitespace-pre-wrap">{renderWithReferences(analysisResult)}</pre>
                     </div>
                   </div>
                 )}
@@ -384,10 +643,36 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
 };
 
 // Component to parse the string and make filenames clickable
-const InteractiveView: React.FC<{ content: string; onFileClick?: (path: string) => void; allFilePaths: string[] }> = ({ content, onFileClick, allFilePaths }) => {
-    // We split by the separator lines we generated
+interface JumpTarget {
+    path: string;
+    line: number;
+    requestedAt: number; // Lets a repeated click on the same reference scroll again
+}
+
+// Element ids for jump targets; the file header doubles as the fallback when lines aren't numbered
+const anchorId = (path: string, line?: number) => line === undefined ? `out-${path}` : `out-${path}:${line}`;
+
+const InteractiveView: React.FC<{
+    content: string;
+    formatter: OutputFormatter;
+    onFileClick?: (path: string) => void;
+    allFilePaths: string[];
+    jumpTarget?: JumpTarget | null;
+}> = ({ content, formatter, onFileClick, allFilePaths, jumpTarget }) => {
+    // We split by the separator lines the active formatter generated
     const lines = content.split('\n');
     const rendered: React.ReactNode[] = [];
+    const [highlightId, setHighlightId] = useState<string | null>(null);
+
+    // Runs after the chunk holding the target has rendered
+    useEffect(() => {
+        if (!jumpTarget) return;
+        const target = document.getElementById(anchorId(jumpTarget.path, jumpTarget.line))
+            || document.getElementById(anchorId(jumpTarget.path));
+        if (!target) return;
+        target.scrollIntoView({ block: 'center' });
+        setHighlightId(target.id);
+    }, [jumpTarget, content]);
     
     // Create a set of filenames for quick lookup to enable deep linking inside code
     const fileNameMap = useMemo(() => {
@@ -446,15 +731,18 @@ const InteractiveView: React.FC<{ content: string; onFileClick?: (path: string)
         });
     };
     
+    let currentPath: string | null = null;
     for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
-        const fileStartMatch = line.match(/^--- FILE START: (.+) ---$/);
+        const parsed = formatter.parseLine(line);
         
-        if (fileStartMatch && fileStartMatch[1]) {
-            const path = fileStartMatch[1];
+        if (parsed?.kind === 'start') {
+            const path = parsed.path;
+            currentPath = path;
             rendered.push(
                 <div 
                     key={`header-${i}`} 
+                    id={anchorId(path)}
                     className="text-blue-400 font-bold py-2 mt-4 cursor-pointer hover:underline flex items-center gap-2 bg-slate-900/80 sticky top-0 backdrop-blur-sm"
                     onClick={() => onFileClick?.(path)}
                     title="Click to locate in file tree"
@@ -463,7 +751,8 @@ const InteractiveView: React.FC<{ content: string; onFileClick?: (path: string)
                     {line}
                 </div>
             );
-        } else if (line.match(/^--- FILE END: (.+) ---$/)) {
+        } else if (parsed?.kind === 'end') {
+             currentPath = null;
              rendered.push(
                 <div key={`footer-${i}`} className="text-slate-600 italic py-2 mb-2">
                     {line}
@@ -472,8 +761,14 @@ const InteractiveView: React.FC<{ content: string; onFileClick?: (path: string)
         } else {
             // Check if this line is part of a code block (simple heuristic: indented or inside markers)
             // For now, apply linking to all non-marker lines
+            const numbered = currentPath ? NUMBERED_LINE.exec(line) : null;
+            const id = numbered ? anchorId(currentPath!, parseInt(numbered[1], 10)) : undefined;
             rendered.push(
-                <div key={`line-${i}`} className="whitespace-pre min-h-[1.25em]">
+                <div
+                    key={`line-${i}`}
+                    id={id}
+                    className={`whitespace-pre min-h-[1.25em] ${id && id === highlightId ? 'bg-amber-500/20 ring-1 ring-amber-500/40' : ''}`}
+                >
                     {renderLineWithLinks(line, i)}
                 </div>
             );
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { MessageSquareText, ChevronDown, ChevronUp, Search, Loader2, Check } from 'lucide-react';
+import { ProcessedFile } from '../types';
+import { SearchResult, selectWithinBudget } from '../utils/searchIndex';
+import { OutputCosts } from '../utils/fileProcessing';
+
+interface QuestionSelectPanelProps {
+  files: ProcessedFile[]; // With token counts for the target model
+  tokenLimit: number; // 0 means no limit
+  onRank: (query: string) => Promise<SearchResult[]>;
+  onMeasure: () => Promise<OutputCosts>; // Per-file output cost and document overhead under the current options
+  onSelect: (paths: Set<string>) => void; // Replaces the current selection
+  onToggle: (path: string, checked: boolean) => void;
+}
+
+const VISIBLE_RESULTS = 30;
+
+const QuestionSelectPanel: React.FC<QuestionSelectPanelProps> = ({ files, tokenLimit, onRank, onMeasure, onSelect, onToggle }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isRanking, setIsRanking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [costs, setCosts] = useState<OutputCosts | null>(null);
+
+  const byPath = new Map<string, ProcessedFile>(files.map(f => [f.path, f]));
+  // What a file adds to the output (wrapper, line numbers, stripping), falling back to its raw count
+  const tokensOf = (path: string) => costs?.files[path] ?? byPath.get(path)?.tokens ?? 0;
+
+  const handleSelect = async () => {
+    if (!query.trim()) return;
+    setIsRanking(true);
+    setError(null);
+    try {
+      const [ranked, measured] = await Promise.all([onRank(query), onMeasure()]);
+      setResults(ranked);
+      setCosts(measured);
+      if (ranked.length > 0) {
+        // The document wrapper, preamble and sections come out of the limit before any file does
+        const budget = tokenLimit > 0 ? Math.max(1, tokenLimit - measured.overhead) : 0;
+        onSelect(selectWithinBudget(ranked, path => measured.files[path] ?? byPath.get(path)?.tokens ?? 0, budget));
+      }
+    } catch (err) {
+      setError(`Ranking failed: ${(err as Error).message}`);
+    } finally {
+      setIsRanking(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSelect();
+    }
+  };
+
+  const selectedResults = results ? results.filter(r => byPath.get(r.path)?.selected) : [];
+  const selectedTokens = selectedResults.reduce((acc, r) => acc + tokensOf(r.path), costs?.overhead || 0);
+  const topScore = results && results.length > 0 ? results[0].score : 1;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between bg-slate-950/50 hover:bg-slate-950 transition-colors"
+      >
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+          <MessageSquareText size={16} className="text-blue-400" />
+          <span>Select for Question</span>
+          {results && results.length > 0 && (
+            <span className="bg-blue-600 text-white text-[10px] px-1.5 py-0.5 rounded-full ml-1">
+              {selectedResults.length}
+            </span>
+          )}
+        </div>
+        {isOpen ? <ChevronUp size={16} className="text-slate-500" /> : <ChevronDown size={16} className="text-slate-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-3 border-t border-slate-800">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-300 focus:outline-none focus:border-blue-500/50 placeholder:text-slate-600"
+              placeholder="e.g. How are chunks split when the token limit is hit?"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+            />
+            <button
+              onClick={handleSelect}
+              disabled={!query.trim() || isRanking}
+              className="px-3 bg-blue-600/10 hover:bg-blue-600/20 text-blue-400 rounded-lg border border-blue-600/20 hover:border-blue-500/30 disabled:opacity-50 transition-colors"
+              title="Rank files against the question and select the best matches"
+            >
+              {isRanking ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            Ranked locally (BM25 over paths, symbol names and content); no API key needed.
+            The best matches are selected {tokenLimit > 0 ? `until the ${tokenLimit.toLocaleString()} token limit is filled` : 'while they score close to the top result'}.
+          </p>
+
+          {error && <div className="text-xs text-red-400">{error}</div>}
+
+          {results && (
+            results.length === 0 ? (
+              <div className="text-xs text-slate-500">No file mentions any of the question's terms.</div>
+            ) : (
+              <div className="space-y-2">
+                <div className="text-[10px] text-slate-400">
+                  {selectedResults.length} of {results.length} matches selected · {selectedTokens.toLocaleString()}
+                  {tokenLimit > 0 ? ` / ${tokenLimit.toLocaleString()}` : ''} tokens
+                </div>
+                <div className="max-h-56 overflow-y-auto space-y-0.5 scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
+                  {results.slice(0, VISIBLE_RESULTS).map((r, i) => {
+                    const selected = !!byPath.get(r.path)?.selected;
+                    return (
+                      <button
+                        key={r.path}
+                        onClick={() => onToggle(r.path, !selected)}
+                        title={`Matched: ${r.matched.join(', ')}`}
+                        className="w-full flex items-center gap-2 px-1.5 py-1 rounded hover:bg-slate-800/60 text-left group"
+                      >
+                        <span className={`w-3.5 h-3.5 rounded border flex items-center justify-center shrink-0
+                          ${selected ? 'bg-blue-600 border-blue-500' : 'border-slate-600 group-hover:border-slate-500'}`}>
+                          {selected && <Check size={10} className="text-white" />}
+                        </span>
+                        <span className="w-5 text-right text-[10px] text-slate-600 shrink-0">{i + 1}</span>
+                        <span className={`flex-1 truncate font-mono text-[11px] ${selected ? 'text-slate-300' : 'text-slate-500'}`}>{r.path}</span>
+                        <span className="w-10 h-1 bg-slate-800 rounded-full overflow-hidden shrink-0">
+                          <span className="block h-full bg-blue-500/70" style={{ width: `${(r.score / topScore) * 100}%` }} />
+                        </span>
+                        <span className="w-9 text-right text-[10px] text-slate-400 font-mono shrink-0">{r.score.toFixed(2)}</span>
+                        <span className="w-12 text-right text-[10px] text-slate-500 shrink-0">{tokensOf(r.path).toLocaleString()}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+                {results.length > VISIBLE_RESULTS && (
+                  <div className="text-[10px] text-slate-600">+{results.length - VISIBLE_RESULTS} lower-ranked matches</div>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionSelectPanel;
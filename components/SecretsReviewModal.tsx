@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import { ShieldAlert, ShieldCheck, Plus, X, FileText } from 'lucide-react';
+import { SecretRule } from '../types';
+import { SecretFinding, maskSecret, isValidPattern } from '../utils/secretScanner';
+
+interface SecretsReviewModalProps {
+  findings: SecretFinding[];
+  customRules: SecretRule[];
+  onSetAllowed: (fingerprint: string, allowed: boolean) => void;
+  onAddRule: (rule: SecretRule) => void;
+  onRemoveRule: (id: string) => void;
+  onFileClick: (path: string) => void;
+  onClose: () => void;
+}
+
+const SecretsReviewModal: React.FC<SecretsReviewModalProps> = ({
+  findings,
+  customRules,
+  onSetAllowed,
+  onAddRule,
+  onRemoveRule,
+  onFileClick,
+  onClose
+}) => {
+  const [ruleName, setRuleName] = useState('');
+  const [rulePattern, setRulePattern] = useState('');
+
+  const byPath = useMemo(() => {
+    const groups = new Map<string, SecretFinding[]>();
+    findings.forEach(f => {
+      if (!groups.has(f.path)) groups.set(f.path, []);
+      groups.get(f.path)!.push(f);
+    });
+    return Array.from(groups.entries());
+  }, [findings]);
+
+  const redactedCount = findings.filter(f => f.placeholder).length;
+  const ruleId = ruleName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const canAddRule = ruleId.length > 0 && isValidPattern(rulePattern) && !customRules.some(r => r.id === ruleId);
+
+  const handleAddRule = () => {
+    if (!canAddRule) return;
+    onAddRule({ id: ruleId, label: ruleName.trim(), pattern: rulePattern, custom: true });
+    setRuleName('');
+    setRulePattern('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="w-full max-w-4xl max-h-full bg-slate-900 border border-slate-800 rounded-xl shadow-2xl flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-800 bg-slate-950/80 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-red-500/10 rounded-lg border border-red-500/20">
+              <ShieldAlert size={20} className="text-red-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Secret Review</h2>
+              <p className="text-xs text-slate-500">
+                {redactedCount} of {findings.length} matches are replaced with placeholders in every output, chunk and AI request
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors">
+            Close
+          </button>
+        </div>
+
+        {/* Findings */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {byPath.length === 0 && (
+            <div className="text-center text-slate-500 text-sm py-12 flex flex-col items-center gap-2">
+              <ShieldCheck size={32} className="text-emerald-500/60" />
+              No potential secrets found.
+            </div>
+          )}
+          {byPath.map(([path, pathFindings]) => (
+            <div key={path} className="border border-slate-800 rounded-lg overflow-hidden">
+              <button
+                onClick={() => { onFileClick(path); onClose(); }}
+                className="w-full px-3 py-2 bg-slate-950/50 flex items-center gap-2 text-xs font-mono text-slate-300 hover:text-blue-300 transition-colors"
+              >
+                <FileText size={12} />
+                {path}
+              </button>
+              <div className="divide-y divide-slate-800/60">
+                {pathFindings.map((finding, i) => (
+                  <div key={`${finding.fingerprint}-${finding.line}-${i}`} className="px-3 py-2 flex items-center gap-3 text-xs">
+                    <span className="text-slate-600 font-mono w-12 shrink-0">L{finding.line}</span>
+                    <span className="text-slate-400 w-44 shrink-0 truncate">{finding.label}</span>
+                    <span className="font-mono text-slate-500 truncate flex-1">{maskSecret(finding.value)}</span>
+                    {finding.placeholder ? (
+                      <span className="font-mono text-red-300 shrink-0">{finding.placeholder}</span>
+                    ) : (
+                      <span className="text-emerald-400 shrink-0">Allowed</span>
+                    )}
+                    <button
+                      onClick={() => onSetAllowed(finding.fingerprint, finding.placeholder !== null)}
+                      className="px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500 transition-colors shrink-0"
+                      title={finding.placeholder ? 'Mark as a false positive and include it as-is' : 'Redact this value again'}
+                    >
+                      {finding.placeholder ? 'Allow' : 'Redact'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Custom Rules */}
+        <div className="p-6 border-t border-slate-800 space-y-2">
+          <label className="text-xs font-medium text-slate-400 block">Custom Rules</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="w-40 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-blue-500/50 placeholder:text-slate-600"
+              placeholder="Name, e.g. Internal token"
+              value={ruleName}
+              onChange={(e) => setRuleName(e.target.value)}
+            />
+            <input
+              type="text"
+              className={`flex-1 min-w-0 bg-slate-950 border rounded-lg px-3 py-1.5 text-xs font-mono text-slate-300 focus:outline-none placeholder:text-slate-600
+                ${rulePattern && !isValidPattern(rulePattern) ? 'border-red-500/50' : 'border-slate-800 focus:border-blue-500/50'}`}
+              placeholder="Regular expression, e.g. acme_[a-z0-9]{32}"
+              value={rulePattern}
+              onChange={(e) => setRulePattern(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddRule()}
+              spellCheck={false}
+            />
+            <button
+              onClick={handleAddRule}
+              disabled={!canAddRule}
+              className="px-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg border border-slate-700 hover:border-slate-600 disabled:opacity-50 transition-colors"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+          {customRules.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {customRules.map(rule => (
+                <span key={rule.id} className="flex items-center gap-2 bg-slate-800 text-slate-200 text-[10px] px-2 py-1 rounded border border-slate-700">
+                  <span>{rule.label}</span>
+                  <span className="font-mono text-slate-500">{rule.pattern}</span>
+                  <button onClick={() => onRemoveRule(rule.id)} className="text-slate-500 hover:text-red-400 transition-colors">
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <p className="text-[10px] text-slate-500">
+            Custom rules and allowed values are remembered in this browser. Matches become &lt;REDACTED:name_N&gt;.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecretsReviewModal;
@@ -0,0 +1,111 @@
+import React, { useState, useMemo } from 'react';
+import { EyeOff, ChevronDown, ChevronUp, Search } from 'lucide-react';
+import { SkippedFile } from '../types';
+
+interface SkippedFilesPanelProps {
+  skippedFiles: SkippedFile[];
+}
+
+const MAX_VISIBLE_ROWS = 200;
+
+const SkippedFilesPanel: React.FC<SkippedFilesPanelProps> = ({ skippedFiles }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  // Per-rule totals so a single "node_modules/" doesn't drown out project-specific rules
+  const ruleCounts = useMemo(() => {
+    const counts = new Map<string, { pattern: string; source: string; count: number }>();
+    skippedFiles.forEach(f => {
+      const key = `${f.source}\u0000${f.pattern}`;
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { pattern: f.pattern, source: f.source, count: 1 });
+      }
+    });
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+  }, [skippedFiles]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return skippedFiles;
+    return skippedFiles.filter(f =>
+      f.path.toLowerCase().includes(q) ||
+      f.pattern.toLowerCase().includes(q) ||
+      f.source.toLowerCase().includes(q)
+    );
+  }, [skippedFiles, query]);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between bg-slate-950/50 hover:bg-slate-950 transition-colors"
+      >
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+          <EyeOff size={16} className="text-amber-400" />
+          <span>Skipped Files</span>
+          <span className="bg-slate-800 text-slate-300 text-[10px] px-1.5 py-0.5 rounded-full ml-1">
+            {skippedFiles.length}
+          </span>
+        </div>
+        {isOpen ? <ChevronUp size={16} className="text-slate-500" /> : <ChevronDown size={16} className="text-slate-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-3 border-t border-slate-800">
+          {/* Rule Summary */}
+          <div className="flex flex-wrap gap-2">
+            {ruleCounts.slice(0, 12).map(rule => (
+              <button
+                key={`${rule.source}:${rule.pattern}`}
+                onClick={() => setQuery(rule.pattern)}
+                className="flex items-center gap-1 bg-slate-800 text-slate-200 text-[10px] px-2 py-1 rounded border border-slate-700 hover:border-slate-500 transition-colors"
+                title={`Declared in ${rule.source}`}
+              >
+                <span className="font-mono">{rule.pattern}</span>
+                <span className="text-slate-500">{rule.count}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="relative">
+            <Search size={12} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-600" />
+            <input
+              type="text"
+              className="w-full bg-slate-950 border border-slate-800 rounded-lg pl-7 pr-3 py-1.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-blue-500/50 placeholder:text-slate-600"
+              placeholder="Filter by path or rule"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              spellCheck={false}
+            />
+          </div>
+
+          <div className="max-h-56 overflow-y-auto bg-slate-950 rounded-lg border border-slate-800 divide-y divide-slate-800/50 scrollbar-thin scrollbar-thumb-slate-700">
+            {filtered.slice(0, MAX_VISIBLE_ROWS).map(f => (
+              <div key={f.path} className="px-3 py-1.5 text-[11px] font-mono">
+                <div className="text-slate-300 truncate" title={f.path}>{f.path}</div>
+                <div className="text-slate-500 truncate">
+                  <span className="text-amber-400/80">{f.pattern}</span>
+                  <span className="mx-1">·</span>
+                  {f.source}
+                </div>
+              </div>
+            ))}
+            {filtered.length === 0 && (
+              <div className="px-3 py-2 text-xs text-slate-500 italic">No matching files</div>
+            )}
+          </div>
+          {filtered.length > MAX_VISIBLE_ROWS && (
+            <p className="text-[10px] text-slate-500">
+              Showing {MAX_VISIBLE_ROWS} of {filtered.length.toLocaleString()} files. Refine the filter to see more.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SkippedFilesPanel;
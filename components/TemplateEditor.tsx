@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { LayoutTemplate, Plus, Trash2, Download, Upload, ClipboardCopy, X, AlertCircle, Check } from 'lucide-react';
+import { OutputTemplate } from '../types';
+import { TEMPLATE_VARIABLES, EXAMPLE_TEMPLATE, getTemplateError, createTemplateId, exportTemplate, importTemplate } from '../utils/outputTemplates';
+
+interface TemplateEditorProps {
+  templates: OutputTemplate[];
+  activeTemplateId: string | null;
+  onSelect: (id: string | null) => void;
+  onSave: (template: OutputTemplate) => void; // Adds or replaces by id
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Edits are applied after a pause in typing; the output view below is the live preview
+const APPLY_DELAY_MS = 300;
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({
+  templates,
+  activeTemplateId,
+  onSelect,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const active = templates.find(t => t.id === activeTemplateId) || null;
+  const [draft, setDraft] = useState<OutputTemplate | null>(active);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [copyFeedback, setCopyFeedback] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Switching templates replaces the draft; saves of the draft itself come back unchanged
+  useEffect(() => {
+    setDraft(prev => prev?.id === active?.id ? prev : active);
+  }, [active]);
+
+  const error = draft ? getTemplateError(draft.body) : null;
+
+  useEffect(() => {
+    if (!draft || draft === active || error) return;
+    const timer = setTimeout(() => onSave(draft), APPLY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, error]);
+
+  const update = (changes: Partial<OutputTemplate>) => setDraft(prev => prev ? { ...prev, ...changes } : prev);
+
+  const handleNew = () => {
+    const template = { id: createTemplateId(), ...EXAMPLE_TEMPLATE, name: templates.length === 0 ? EXAMPLE_TEMPLATE.name : `Template ${templates.length + 1}` };
+    onSave(template);
+    onSelect(template.id);
+  };
+
+  const handleDelete = () => {
+    if (!draft || !confirm(`Delete template "${draft.name}"?`)) return;
+    onDelete(draft.id);
+    onSelect(null);
+  };
+
+  const handleCopyJson = () => {
+    if (!draft) return;
+    navigator.clipboard.writeText(exportTemplate(draft));
+    setCopyFeedback(true);
+    setTimeout(() => setCopyFeedback(false), 2000);
+  };
+
+  const handleExport = () => {
+    if (!draft) return;
+    const element = document.createElement('a');
+    element.href = URL.createObjectURL(new Blob([exportTemplate(draft)], { type: 'application/json' }));
+    element.download = `${draft.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template'}.template.json`;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const template = importTemplate(await file.text());
+      onSave(template);
+      onSelect(template.id);
+      setImportError(null);
+    } catch (err) {
+      setImportError(`Import failed: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="border-b border-slate-800 bg-slate-950/60 p-3 flex flex-col gap-2 text-xs">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <LayoutTemplate size={14} className="text-blue-400" />
+        <select
+          value={activeTemplateId || ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className="bg-slate-900 text-[11px] text-slate-300 border border-slate-800 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500 focus:outline-none cursor-pointer"
+        >
+          <option value="">Built-in format (no template)</option>
+          {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        {draft && (
+          <>
+            <input
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="Template name"
+              className="bg-slate-900 text-[11px] text-slate-300 border border-slate-800 rounded px-2 py-1 w-40 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+            />
+            <input
+              value={draft.extension || ''}
+              onChange={(e) => update({ extension: e.target.value.replace(/[^a-z0-9]/gi, '') || undefined })}
+              placeholder="txt"
+              title="File extension used for downloads"
+              className="bg-slate-900 text-[11px] text-slate-300 border border-slate-800 rounded px-2 py-1 w-14 font-mono focus:ring-1 focus:ring-blue-500 focus:outline-none"
+            />
+          </>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={handleNew} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="New template">
+            <Plus size={14} />
+          </button>
+          <button onClick={() => importInputRef.current?.click()} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Import template JSON">
+            <Upload size={14} />
+          </button>
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          {draft && (
+            <>
+              <button onClick={handleCopyJson} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Copy template JSON to share">
+                {copyFeedback ? <Check size={14} className="text-green-400" /> : <ClipboardCopy size={14} />}
+              </button>
+              <button onClick={handleExport} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Download template JSON">
+                <Download size={14} />
+              </button>
+              <button onClick={handleDelete} className="p-1 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded" title="Delete template">
+                <Trash2 size={14} />
+              </button>
+            </>
+          )}
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white hover:bg-slate-800 rounded" title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {importError && <div className="text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {importError}</div>}
+
+      {draft ? (
+        <>
+          <textarea
+            value={draft.body}
+            onChange={(e) => update({ body: e.target.value })}
+            spellCheck={false}
+            rows={8}
+            className={`w-full bg-slate-900 p-2 font-mono text-[11px] text-slate-300 border rounded resize-y focus:outline-none focus:ring-1
+              ${error ? 'border-red-500/40 focus:ring-red-500' : 'border-slate-800 focus:ring-blue-500'}`}
+          />
+          {error ? (
+            <div className="text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {error} (not applied until fixed)</div>
+          ) : (
+            <div className="text-slate-500">Preview updates below as you type.</div>
+          )}
+          <div className="flex flex-wrap gap-1 items-center text-[10px]">
+            <span className="text-slate-500 mr-1">Per part:</span>
+            {TEMPLATE_VARIABLES.filter(v => v.scope === 'document').map(v => (
+              <code key={v.name} className="px-1.5 py-0.5 rounded bg-slate-800 text-blue-300" title={v.description}>{`{{${v.name}}}`}</code>
+            ))}
+            <span className="text-slate-500 mx-1">In {'{{#each files}}'}:</span>
+            {TEMPLATE_VARIABLES.filter(v => v.scope === 'file').map(v => (
+              <code key={v.name} className="px-1.5 py-0.5 rounded bg-slate-800 text-emerald-300" title={v.description}>{`{{${v.name}}}`}</code>
+            ))}
+            <span className="text-slate-500 ml-1">Blocks: {'{{#if x}} {{else}} {{/if}}'}, {'{{#unless x}}'}, {'{{! comment }}'}</span>
+          </div>
+        </>
+      ) : (
+        <div className="text-slate-500">
+          Templates wrap the export in your own layout, e.g. a system prompt header, per-file metadata and a task footer.
+          Create one or import a shared template JSON.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { FileNode } from '../types';
+import { OutputCosts } from '../utils/fileProcessing';
+import { buildTokenTree, layoutTreemap, TokenNode } from '../utils/treemap';
+
+interface TokenBudgetPanelProps {
+  nodes: FileNode[];
+  costs: OutputCosts | null; // Null while the worker is measuring
+  selectedPaths: Set<string>;
+  tokenLimit: number; // 0 means no limit
+  totalChunks: number;
+  exact: boolean; // False when counts are estimates
+  onToggle: (path: string, checked: boolean) => void;
+}
+
+const MAP_HEIGHT = 260;
+const LAYOUT = { headerHeight: 14, padding: 2, minSize: 18 };
+const TOP_FILES = 8;
+
+// Selected files are coloured by top-level directory so neighbouring areas stay distinguishable
+const PALETTE = [
+  'bg-blue-500/50 hover:bg-blue-400/70',
+  'bg-emerald-500/50 hover:bg-emerald-400/70',
+  'bg-amber-500/50 hover:bg-amber-400/70',
+  'bg-violet-500/50 hover:bg-violet-400/70',
+  'bg-rose-500/50 hover:bg-rose-400/70',
+  'bg-cyan-500/50 hover:bg-cyan-400/70',
+  'bg-lime-500/50 hover:bg-lime-400/70',
+  'bg-orange-500/50 hover:bg-orange-400/70',
+];
+
+const formatTokens = (n: number) => n >= 10000 ? `${(n / 1000).toFixed(n >= 100000 ? 0 : 1)}k` : n.toLocaleString();
+
+const TokenBudgetPanel: React.FC<TokenBudgetPanelProps> = ({
+  nodes,
+  costs,
+  selectedPaths,
+  tokenLimit,
+  totalChunks,
+  exact,
+  onToggle
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const tree = useMemo(() => costs ? buildTokenTree(nodes, costs.files, selectedPaths) : [], [nodes, costs, selectedPaths]);
+  const rects = useMemo(() => width > 0 ? layoutTreemap(tree, width, MAP_HEIGHT, LAYOUT) : [], [tree, width]);
+
+  const colorOf = useMemo(() => {
+    const topLevel = new Map<string, number>();
+    tree.forEach((node, i) => topLevel.set(node.path, i % PALETTE.length));
+    return (path: string) => topLevel.get(path.split('/')[0]) ?? 0;
+  }, [tree]);
+
+  const selectedFileTokens = tree.reduce((acc, n) => acc + n.selectedTokens, 0);
+  const overhead = costs && selectedPaths.size > 0 ? costs.overhead : 0;
+  const used = selectedFileTokens + overhead;
+  const remaining = tokenLimit - used;
+  const prefix = exact ? '' : '~';
+
+  const topFiles = useMemo(() => {
+    if (!costs) return [];
+    const entries: { path: string; tokens: number }[] = [];
+    selectedPaths.forEach(path => { if (costs.files[path]) entries.push({ path, tokens: costs.files[path] }); });
+    return entries
+      .sort((a, b) => b.tokens - a.tokens)
+      .slice(0, TOP_FILES);
+  }, [costs, selectedPaths]);
+
+  // Directories select everything below them unless it is all selected already
+  const handleClick = (node: TokenNode) => onToggle(node.path, node.selectedTokens < node.tokens);
+
+  const describe = (node: TokenNode) => {
+    const share = used > 0 && node.selectedTokens > 0 ? ` · ${((node.selectedTokens / used) * 100).toFixed(1)}% of output` : '';
+    const selection = node.isFile
+      ? (node.selectedTokens > 0 ? 'selected' : 'not selected')
+      : `${prefix}${node.selectedTokens.toLocaleString()} selected`;
+    return `${node.path}\n${prefix}${node.tokens.toLocaleString()} tokens (${selection})${share}\nClick to ${node.selectedTokens < node.tokens ? 'select' : 'deselect'}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-xs">
+      {/* Budget */}
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-slate-400">
+          <span>
+            {prefix}{used.toLocaleString()} tokens
+            {tokenLimit > 0 && <span className="text-slate-500"> of {tokenLimit.toLocaleString()} per part</span>}
+          </span>
+          {tokenLimit > 0 && (
+            <span className={remaining >= 0 ? 'text-emerald-400' : 'text-amber-400'}>
+              {remaining >= 0
+                ? `${prefix}${remaining.toLocaleString()} left`
+                : `${prefix}${(-remaining).toLocaleString()} over · ${totalChunks} parts`}
+            </span>
+          )}
+        </div>
+        {tokenLimit > 0 && (
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden flex">
+            <div className={`h-full transition-all duration-200 ${remaining >= 0 ? 'bg-blue-500' : 'bg-amber-500'}`} style={{ width: `${Math.min(100, (selectedFileTokens / tokenLimit) * 100)}%` }} />
+            <div className="h-full bg-slate-500 transition-all duration-200" style={{ width: `${Math.min(100, (overhead / tokenLimit) * 100)}%` }} />
+          </div>
+        )}
+        {overhead > 0 && (
+          <div className="text-[10px] text-slate-500">
+            Includes {prefix}{overhead.toLocaleString()} tokens of wrapper, overview and sections
+          </div>
+        )}
+      </div>
+
+      {/* Treemap */}
+      <div ref={containerRef} className="relative w-full rounded border border-slate-800 bg-slate-950/50 overflow-hidden" style={{ height: MAP_HEIGHT }}>
+        {!costs && (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 text-slate-500">
+            <Loader2 size={14} className="animate-spin" /> Measuring output...
+          </div>
+        )}
+        {costs && tree.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-slate-500">No text content to measure</div>
+        )}
+        {rects.map(({ node, x, y, width: w, height: h }) => {
+          const selected = node.selectedTokens > 0;
+          if (!node.isFile) {
+            return (
+              <div
+                key={node.path}
+                className={`absolute border rounded-sm ${selected ? 'border-slate-600' : 'border-slate-800 border-dashed'}`}
+                style={{ left: x, top: y, width: w, height: h }}
+              >
+                {h >= LAYOUT.headerHeight && w >= 24 && (
+                  <button
+                    onClick={() => handleClick(node)}
+                    title={describe(node)}
+                    className={`block w-full text-left px-1 truncate text-[9px] leading-[14px] hover:bg-slate-800 ${selected ? 'text-slate-300' : 'text-slate-600'}`}
+                  >
+                    {node.name}/ <span className="text-slate-500">{formatTokens(node.tokens)}</span>
+                  </button>
+                )}
+              </div>
+            );
+          }
+          return (
+            <button
+              key={node.path}
+              onClick={() => handleClick(node)}
+              title={describe(node)}
+              className={`absolute overflow-hidden border border-slate-950/60 text-left transition-colors
+                ${selected ? `${PALETTE[colorOf(node.path)]} text-white` : 'bg-slate-900 hover:bg-slate-800 text-slate-600'}`}
+              style={{ left: x, top: y, width: w, height: h }}
+            >
+              {w >= 40 && h >= 14 && (
+                <span className="block px-1 truncate text-[9px] leading-[14px]">
+                  {node.name}
+                  {h >= 26 && <span className="block opacity-70">{formatTokens(node.tokens)}</span>}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Largest selected files */}
+      {topFiles.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] uppercase tracking-wider text-slate-500">Largest in output</div>
+          {topFiles.map(({ path, tokens }) => (
+            <button
+              key={path}
+              onClick={() => onToggle(path, false)}
+              title="Click to deselect"
+              className="w-full flex items-center gap-2 group text-left"
+            >
+              <span className="flex-1 truncate font-mono text-[11px] text-slate-400 group-hover:text-red-300 group-hover:line-through">{path}</span>
+              <span className="w-16 h-1 bg-slate-800 rounded-full overflow-hidden shrink-0">
+                <span className="block h-full bg-blue-500/70" style={{ width: `${used > 0 ? (tokens / used) * 100 : 0}%` }} />
+              </span>
+              <span className="w-20 text-right text-slate-500 shrink-0">{prefix}{formatTokens(tokens)} · {used > 0 ? ((tokens / used) * 100).toFixed(0) : 0}%</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenBudgetPanel;
@@ -31,6 +31,21 @@ const callWithRetry = async <T>(fn: () => Promise<T>, retries = 5, initialDelay
     throw new Error("Max retries exceeded");
 };
 
+// Exact Gemini token count for a text, used (only when the user asks) to calibrate the offline estimator
+export const countGeminiTokens = async (text: string): Promise<number | null> => {
+    try {
+        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const response = await callWithRetry(() => ai.models.countTokens({
+            model: 'gemini-2.5-flash',
+            contents: text,
+        }));
+        return response?.totalTokens ?? null;
+    } catch (error) {
+        console.warn("Gemini token count failed:", error);
+        return null;
+    }
+};
+
 export const analyzeCodebase = async (context: string, promptType: 'summary' | 'audit' | 'readme' | 'architecture' | 'manifest' | 'redundancy' | 'consistency' | 'test_plan') => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
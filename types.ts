@@ -7,10 +7,69 @@ export interface ProcessedFile {
   type: string;
   selected: boolean;
   isBinary?: boolean;
+  encoding?: string; // Detected or user-overridden text encoding, e.g. "utf-8", "shift_jis"
+  oversizeStrategy?: OversizeStrategy; // Set when content is an excerpt of a file above the size cap
+  converter?: string; // Id of the converter that rewrote content (size still reflects the original file)
+  asset?: AssetInfo; // Set for binary files; content is then a one-line descriptor
+  tokens?: number; // Estimated token count of content, computed at ingestion
+  hash?: string; // Content fingerprint used to diff re-imports
   summary?: string;
   isNew?: boolean; // For newly generated files
 }
 
+// Metadata kept for images, fonts, PDFs and other binaries in place of their payload
+export interface AssetInfo {
+  mime: string;
+  width?: number;  // Pixels, for images with a readable header
+  height?: number;
+  pages?: number;  // PDFs
+}
+
+// How files above the size cap are reduced before they land in ProcessedFile.content
+export type OversizeStrategy = 'placeholder' | 'head-tail' | 'first-lines' | 'outline' | 'sampled';
+
+export interface OversizeRule {
+  pattern: string; // Glob, regex or exact path (same syntax as exclusion filters)
+  strategy: OversizeStrategy;
+}
+
+export interface OversizeSettings {
+  maxFileSize: number;   // Bytes; larger files go through a strategy
+  excerptLines: number;  // Line budget for excerpts
+  defaultStrategy: OversizeStrategy;
+  rules: OversizeRule[]; // First matching rule wins
+}
+
+// Ingestion-time rewrites of noisy formats (notebooks, SVG, CSV, minified bundles)
+export interface ConverterSettings {
+  enabled: boolean;
+  notebookOutputs: boolean; // Keep cell outputs (text only, truncated)
+  maxOutputLines: number;   // Per cell output
+  csvSampleRows: number;
+}
+
+// Regex source is stored as a string so custom rules survive a JSON round trip
+export interface SecretRule {
+  id: string;          // Placeholder prefix, e.g. "aws_key" -> <REDACTED:aws_key_1>
+  label: string;
+  pattern: string;
+  flags?: string;
+  group?: number;      // Capture group holding the secret; the whole match otherwise
+  minEntropy?: number; // Shannon bits per character the secret must reach
+  custom?: boolean;
+}
+
+export interface SecretSettings {
+  customRules: SecretRule[];
+  allowList: string[]; // Fingerprints of matches confirmed as false positives
+}
+
+export interface SkippedFile {
+  path: string;
+  pattern: string; // The rule that excluded the file, e.g. "gen/" or "*.exe"
+  source: string;  // "built-in" or the ignore file and line, e.g. "app/.gitignore:4"
+}
+
 export interface ProcessingStats {
   totalFiles: number;
   totalSize: number;
@@ -26,8 +85,42 @@ export type FileNode = {
   isNew?: boolean;
 };
 
+export type FileChangeStatus = 'added' | 'modified' | 'deleted';
+
 export type SummaryFocus = 'general' | 'security' | 'performance' | 'core';
 
+// Shape of the generated context (see utils/outputFormats)
+export type OutputFormat = 'plain' | 'xml' | 'markdown' | 'json';
+
+// User-defined output layout, shareable as JSON (see utils/outputTemplates)
+export interface OutputTemplate {
+  id: string;
+  name: string;
+  body: string;
+  extension?: string; // Download file extension, "txt" by default
+}
+
+// Output-time minification, cumulative (see utils/commentStripping)
+export type StripLevel = 'none' | 'license' | 'comments' | 'whitespace';
+
+// File order in the output: by folder, or definitions before their uses (see utils/importGraph)
+export type FileOrder = 'directory' | 'dependencies';
+
+// Vocabulary used to count tokens for the target model (see utils/tokenizers)
+export type TokenizerId = 'o200k' | 'cl100k' | 'gemini';
+
+// Target model: tokenizer, chunk budget and pricing (see utils/modelPresets)
+export interface ModelPreset {
+  id: string;
+  name: string;
+  contextWindow: number; // Tokens
+  outputReserve: number; // Tokens left free for the answer; chunks get the rest of the window
+  tokenizer: TokenizerId;
+  approximateTokenizer?: boolean; // The vocabulary only stands in for the model's own, so counts are estimates
+  inputPrice: number; // USD per million input tokens
+  custom?: boolean; // User-defined and stored locally
+}
+
 // --- Safe Mode & Test Framework Types ---
 
 export type ComponentStatus = 'healthy' | 'degraded' | 'failed' | 'disabled' | 'testing';
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { deflateRawSync, gzipSync } from 'node:zlib';
+import { expandArchives } from './archiveImport';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let position = 0;
+  parts.forEach(p => { out.set(p, position); position += p.length; });
+  return out;
+};
+
+// Zip with stored (method 0) or deflated (method 8) entries; names ending in "/" are directories.
+// CRCs are left at zero since the reader does not check them
+const zip = (entries: { name: string; content?: string; deflate?: boolean }[]) => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  entries.forEach(({ name, content = '', deflate }) => {
+    const nameBytes = bytes(name);
+    const raw = bytes(content);
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, deflate ? 8 : 0, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, deflate ? 8 : 0, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local, data);
+    centrals.push(central);
+    offset += local.length + data.length;
+  });
+  const directory = concat(centrals);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, directory.length, true);
+  ev.setUint32(16, offset, true);
+  return concat([...locals, directory, end]);
+};
+
+const tarHeader = (name: string, size: number, type: string, { prefix = '', mtime = 0 } = {}) => {
+  const header = new Uint8Array(512);
+  header.set(bytes(name), 0);
+  header.set(bytes(size.toString(8).padStart(11, '0')), 124);
+  header.set(bytes(mtime.toString(8).padStart(11, '0')), 136);
+  header[156] = type.charCodeAt(0);
+  header.set(bytes('ustar'), 257);
+  header.set(bytes(prefix), 345);
+  return header;
+};
+
+const padded = (data: Uint8Array) => concat([data, new Uint8Array(Math.ceil(data.length / 512) * 512 - data.length)]);
+
+type TarEntry = { name: string; content?: string | Uint8Array; type?: string; prefix?: string; mtime?: number };
+
+const tar = (entries: TarEntry[]) => concat([
+  ...entries.flatMap(({ name, content = '', type = '0', prefix, mtime }) => {
+    const data = typeof content === 'string' ? bytes(content) : content;
+    return [tarHeader(name, data.length, type, { prefix, mtime }), padded(data)];
+  }),
+  new Uint8Array(1024),
+]);
+
+const upload = (name: string, data: Uint8Array, lastModified = 1_700_000_000_000) => new File([data], name, { lastModified });
+
+const expand = async (file: File) => {
+  const { files, skipped } = await expandArchives([file]);
+  const contents = Object.fromEntries(await Promise.all(files.map(async f => [f.webkitRelativePath, await f.text()])));
+  return { files, contents, skipped };
+};
+
+describe('expandArchives (zip)', () => {
+  it('unpacks stored and deflated entries under the archive path', async () => {
+    const { contents, skipped } = await expand(upload('repo.zip', zip([
+      { name: 'src/' },
+      { name: 'src/a.ts', content: 'export const a = 1;' },
+      { name: 'src/b.ts', content: 'export const b = 2;\n'.repeat(50), deflate: true },
+    ])));
+    expect(contents).toEqual({
+      'repo.zip/src/a.ts': 'export const a = 1;',
+      'repo.zip/src/b.ts': 'export const b = 2;\n'.repeat(50),
+    });
+    expect(skipped).toEqual([]);
+  });
+
+  it('skips built-in ignored entries and keeps the archive timestamp on entries', async () => {
+    const { files, skipped } = await expand(upload('repo.zip', zip([
+      { name: 'node_modules/x/index.js', content: 'x' },
+      { name: 'index.js', content: 'y' },
+    ]), 1234));
+    expect(files.map(f => [f.webkitRelativePath, f.lastModified])).toEqual([['repo.zip/index.js', 1234]]);
+    expect(skipped).toEqual([expect.objectContaining({ path: 'repo.zip/node_modules/x/index.js', source: 'built-in' })]);
+  });
+
+  it('reports a corrupt archive as skipped instead of throwing', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { files, skipped } = await expand(upload('broken.zip', bytes('not a zip at all')));
+    expect(files).toEqual([]);
+    expect(skipped).toEqual([{ path: 'broken.zip', pattern: 'corrupt or unsupported archive', source: 'archive import' }]);
+  });
+});
+
+describe('expandArchives (tar)', () => {
+  const longName = `${'deep/'.repeat(30)}file.txt`;
+  const entries: TarEntry[] = [
+    { name: 'src/', type: '5' },
+    { name: './src/main.go', content: 'package main', mtime: 1_600_000_000 },
+    { name: 'util.go', content: 'package lib', prefix: 'pkg/lib' },
+    { name: '././@LongLink', content: longName, type: 'L' },
+    { name: 'truncated', content: 'long' },
+    { name: 'PaxHeader', content: '28 path=pax/named/entry.txt\n', type: 'x' },
+    { name: 'short', content: 'pax' },
+    { name: 'link', type: '2' },
+  ];
+  const expected = {
+    'src.tar/src/main.go': 'package main',
+    'src.tar/pkg/lib/util.go': 'package lib',
+    [`src.tar/${longName}`]: 'long',
+    'src.tar/pax/named/entry.txt': 'pax',
+  };
+
+  it('reads ustar prefixes, GNU long names and pax paths, skipping non-files', async () => {
+    const { files, contents } = await expand(upload('src.tar', tar(entries)));
+    expect(contents).toEqual(expected);
+    expect(files[0].lastModified).toBe(1_600_000_000_000);
+  });
+
+  it('unpacks gzipped tarballs and single gzipped files', async () => {
+    const data = tar(entries);
+    expect((await expand(upload('src.tgz', new Uint8Array(gzipSync(data))))).contents)
+      .toEqual(Object.fromEntries(Object.entries(expected).map(([path, text]) => [path.replace('src.tar', 'src.tgz'), text])));
+    expect((await expand(upload('notes.txt.gz', new Uint8Array(gzipSync(bytes('hello')))))).contents)
+      .toEqual({ 'notes.txt.gz/notes.txt': 'hello' });
+  });
+
+  it('unpacks archives nested inside archives', async () => {
+    const inner = zip([{ name: 'inner.ts', content: 'nested', deflate: true }]);
+    const { contents } = await expand(upload('outer.tar', tar([{ name: 'vendor.zip', content: inner }])));
+    expect(contents).toEqual({ 'outer.tar/vendor.zip/inner.ts': 'nested' });
+  });
+});
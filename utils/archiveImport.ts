@@ -0,0 +1,305 @@
+import { SkippedFile } from '../types';
+import { matchBuiltinIgnore } from './fileProcessing';
+import { withRelativePath } from './fileSystemEntries';
+
+// Safety caps: archives are unpacked fully in memory, so guard against huge uploads and zip bombs
+const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024;   // Compressed size of a single archive
+const MAX_EXTRACTED_SIZE = 512 * 1024 * 1024; // Total uncompressed bytes per top-level archive
+const MAX_ARCHIVE_DEPTH = 3;                  // Archives nested inside archives
+
+const ARCHIVE_PATTERN = /\.(zip|tar|tgz|tar\.gz|gz)$/i;
+
+interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+  lastModified?: number;
+}
+
+interface ExtractionBudget {
+  remaining: number;
+}
+
+const formatMB = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+const SIZE_LIMIT_ERROR = `Extracted size limit (${formatMB(MAX_EXTRACTED_SIZE)}) exceeded`;
+const SIZE_LIMIT_REASON = `extracted size limit (${formatMB(MAX_EXTRACTED_SIZE)})`;
+
+// Skip reason for a failed extraction: the size limit when that is what stopped it, otherwise the data is bad
+const failureReason = (e: unknown, corrupt: string) =>
+  e instanceof Error && e.message === SIZE_LIMIT_ERROR ? SIZE_LIMIT_REASON : corrupt;
+
+const getPath = (file: File) => file.webkitRelativePath || file.name;
+
+export const isArchive = (path: string): boolean => ARCHIVE_PATTERN.test(path);
+
+// Streams through DecompressionStream and aborts as soon as the output passes the limit
+const decompress = async (data: Uint8Array, format: CompressionFormat, limit: number): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      throw new Error(SIZE_LIMIT_ERROR);
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(total);
+  let position = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, position);
+    position += chunk.length;
+  }
+  return out;
+};
+
+const decodeName = (bytes: Uint8Array) => new TextDecoder('utf-8').decode(bytes);
+
+// --- ZIP ---
+
+const parseZip = async (data: Uint8Array, budget: ExtractionBudget, prefix: string, skipped: SkippedFile[]): Promise<ArchiveEntry[]> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory record sits in the last 22 bytes + up to 64KB of comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a valid zip archive');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error('Zip64 archives are not supported');
+
+  const entries: ArchiveEntry[] = [];
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decodeName(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    const path = `${prefix}/${name}`;
+    const builtinPattern = matchBuiltinIgnore(path);
+    if (builtinPattern) {
+      skipped.push({ path, pattern: builtinPattern, source: 'built-in' });
+      continue;
+    }
+    if (size > budget.remaining) {
+      skipped.push({ path, pattern: SIZE_LIMIT_REASON, source: 'archive import' });
+      continue;
+    }
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = data.subarray(start, start + compressedSize);
+
+    let content: Uint8Array;
+    if (method === 0) {
+      content = raw;
+    } else if (method === 8) {
+      try {
+        content = await decompress(raw, 'deflate-raw', budget.remaining);
+      } catch (e) {
+        console.warn(`Failed to inflate ${path}`, e);
+        skipped.push({ path, pattern: failureReason(e, 'corrupt compressed data'), source: 'archive import' });
+        continue;
+      }
+    } else {
+      skipped.push({ path, pattern: `unsupported compression method ${method}`, source: 'archive import' });
+      continue;
+    }
+
+    budget.remaining -= content.length;
+    entries.push({ path: name, data: content });
+  }
+
+  return entries;
+};
+
+// --- TAR ---
+
+const readString = (bytes: Uint8Array, start: number, length: number) => {
+  const slice = bytes.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return decodeName(end === -1 ? slice : slice.subarray(0, end));
+};
+
+const readOctal = (bytes: Uint8Array, start: number, length: number) => {
+  const value = readString(bytes, start, length).trim();
+  return value ? parseInt(value, 8) : 0;
+};
+
+const parsePaxPath = (data: Uint8Array): string | undefined => {
+  // Records look like "<length> <key>=<value>\n"
+  for (const record of decodeName(data).split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+const parseTar = (data: Uint8Array, budget: ExtractionBudget, prefix: string, skipped: SkippedFile[]): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every(b => b === 0)) break;
+
+    let name = readString(header, 0, 100);
+    const size = readOctal(header, 124, 12);
+    const mtime = readOctal(header, 136, 12);
+    const type = String.fromCharCode(header[156]);
+    if (readString(header, 257, 5) === 'ustar') {
+      const namePrefix = readString(header, 345, 155);
+      if (namePrefix) name = `${namePrefix}/${name}`;
+    }
+
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    // GNU long names and pax headers describe the entry that follows them
+    if (type === 'L') {
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      longName = parsePaxPath(body) ?? longName;
+      continue;
+    }
+    if (type === 'g') continue;
+
+    if (longName) {
+      name = longName;
+      longName = undefined;
+    }
+
+    // Only regular files carry content ('0' or NUL for old-style archives)
+    if (type !== '0' && type !== '\0') continue;
+
+    name = name.replace(/^\.\//, '');
+    const path = `${prefix}/${name}`;
+    const builtinPattern = matchBuiltinIgnore(path);
+    if (builtinPattern) {
+      skipped.push({ path, pattern: builtinPattern, source: 'built-in' });
+      continue;
+    }
+    if (size > budget.remaining) {
+      skipped.push({ path, pattern: SIZE_LIMIT_REASON, source: 'archive import' });
+      continue;
+    }
+
+    budget.remaining -= size;
+    entries.push({ path: name, data: body, lastModified: mtime * 1000 });
+  }
+
+  return entries;
+};
+
+// --- Dispatch ---
+
+const extractArchive = async (
+  path: string,
+  data: Uint8Array,
+  budget: ExtractionBudget,
+  depth: number,
+  skipped: SkippedFile[],
+  lastModified: number
+): Promise<File[]> => {
+  const lower = path.toLowerCase();
+  let entries: ArchiveEntry[];
+
+  if (lower.endsWith('.zip')) {
+    entries = await parseZip(data, budget, path, skipped);
+  } else if (lower.endsWith('.tar')) {
+    entries = parseTar(data, budget, path, skipped);
+  } else if (lower.endsWith('.tgz') || lower.endsWith('.tar.gz')) {
+    // Entry sizes are charged by parseTar, the limit here only bounds the decompressed tarball
+    entries = parseTar(await decompress(data, 'gzip', budget.remaining), budget, path, skipped);
+  } else {
+    // Plain .gz wraps a single file named after the archive
+    const inner = await decompress(data, 'gzip', budget.remaining);
+    budget.remaining -= inner.length;
+    const name = path.split('/').pop()!.replace(/\.gz$/i, '');
+    entries = [{ path: name, data: inner }];
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    const entryPath = `${path}/${entry.path}`;
+
+    if (isArchive(entryPath)) {
+      if (depth >= MAX_ARCHIVE_DEPTH) {
+        skipped.push({ path: entryPath, pattern: `nested archive depth (${MAX_ARCHIVE_DEPTH})`, source: 'archive import' });
+        continue;
+      }
+      try {
+        files.push(...await extractArchive(entryPath, entry.data, budget, depth + 1, skipped, entry.lastModified ?? lastModified));
+      } catch (e) {
+        console.warn(`Failed to unpack nested archive ${entryPath}`, e);
+        skipped.push({ path: entryPath, pattern: failureReason(e, 'corrupt or unsupported archive'), source: 'archive import' });
+      }
+      continue;
+    }
+
+    const name = entry.path.split('/').pop() || entry.path;
+    // Zip entries inherit the archive's timestamp so unchanged re-imports compare equal
+    const file = new File([entry.data], name, { lastModified: entry.lastModified ?? lastModified });
+    files.push(withRelativePath(file, entryPath));
+  }
+
+  return files;
+};
+
+/**
+ * Replaces every .zip/.tar/.tar.gz/.gz upload with its unpacked entries.
+ * Entry paths are prefixed with the archive path (e.g. "repo.zip/src/index.ts") so they flow
+ * through the regular ignore rules and readers like any other file.
+ */
+export const expandArchives = async (files: File[]): Promise<{ files: File[]; skipped: SkippedFile[] }> => {
+  const expanded: File[] = [];
+  const skipped: SkippedFile[] = [];
+
+  for (const file of files) {
+    const path = getPath(file);
+    if (!isArchive(path) || matchBuiltinIgnore(path)) {
+      expanded.push(file);
+      continue;
+    }
+
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      skipped.push({ path, pattern: `archive size limit (${formatMB(MAX_ARCHIVE_SIZE)})`, source: 'archive import' });
+      continue;
+    }
+
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      const budget: ExtractionBudget = { remaining: MAX_EXTRACTED_SIZE };
+      expanded.push(...await extractArchive(path, data, budget, 1, skipped, file.lastModified));
+    } catch (e) {
+      console.warn(`Failed to unpack archive ${path}`, e);
+      skipped.push({ path, pattern: failureReason(e, 'corrupt or unsupported archive'), source: 'archive import' });
+    }
+  }
+
+  return { files: expanded, skipped };
+};
@@ -0,0 +1,137 @@
+import { AssetInfo } from '../types';
+import { formatSize, FULL_READ_LIMIT } from './oversizedFiles';
+
+// Binary formats that are listed as descriptors instead of being read as text
+export const ASSET_MIME_TYPES: Record<string, string> = {
+  // Images
+  '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif',
+  '.webp': 'image/webp', '.bmp': 'image/bmp', '.ico': 'image/x-icon', '.tiff': 'image/tiff', '.avif': 'image/avif',
+  // Fonts
+  '.woff': 'font/woff', '.woff2': 'font/woff2', '.ttf': 'font/ttf', '.otf': 'font/otf', '.eot': 'application/vnd.ms-fontobject',
+  // Audio/Video
+  '.mp3': 'audio/mpeg', '.wav': 'audio/wav', '.ogg': 'audio/ogg', '.flac': 'audio/flac',
+  '.mp4': 'video/mp4', '.mov': 'video/quicktime', '.avi': 'video/x-msvideo', '.webm': 'video/webm', '.flv': 'video/x-flv',
+  // Documents
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword', '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.ppt': 'application/vnd.ms-powerpoint', '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.xls': 'application/vnd.ms-excel', '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const HEADER_BYTES = 64 * 1024;
+const PDF_TAIL_BYTES = 1024 * 1024;
+
+const getExtension = (path: string) => {
+  const name = path.substring(path.lastIndexOf('/') + 1).toLowerCase();
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.substring(dot);
+};
+
+export const isAssetPath = (path: string): boolean => getExtension(path) in ASSET_MIME_TYPES;
+
+type Dimensions = { width: number; height: number };
+
+const readPngSize = (b: Uint8Array, view: DataView): Dimensions | null => {
+  if (b.length < 24 || b[0] !== 0x89 || b[1] !== 0x50 || b[2] !== 0x4e || b[3] !== 0x47) return null;
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+const readGifSize = (b: Uint8Array, view: DataView): Dimensions | null => {
+  if (b.length < 10 || b[0] !== 0x47 || b[1] !== 0x49 || b[2] !== 0x46) return null;
+  return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+};
+
+// Walks JPEG segments up to the first start-of-frame marker
+const readJpegSize = (b: Uint8Array, view: DataView): Dimensions | null => {
+  if (b.length < 4 || b[0] !== 0xff || b[1] !== 0xd8) return null;
+  let pos = 2;
+  while (pos + 9 < b.length) {
+    if (b[pos] !== 0xff) return null;
+    const marker = b[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(pos + 7), height: view.getUint16(pos + 5) };
+    }
+    pos += 2 + view.getUint16(pos + 2);
+  }
+  return null;
+};
+
+const readWebpSize = (b: Uint8Array, view: DataView): Dimensions | null => {
+  const tag = (at: number) => String.fromCharCode(b[at], b[at + 1], b[at + 2], b[at + 3]);
+  if (b.length < 30 || tag(0) !== 'RIFF' || tag(8) !== 'WEBP') return null;
+  const chunk = tag(12);
+  if (chunk === 'VP8X') {
+    return { width: 1 + (b[24] | (b[25] << 8) | (b[26] << 16)), height: 1 + (b[27] | (b[28] << 8) | (b[29] << 16)) };
+  }
+  if (chunk === 'VP8 ') return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  if (chunk === 'VP8L') {
+    return {
+      width: 1 + (((b[22] & 0x3f) << 8) | b[21]),
+      height: 1 + (((b[24] & 0x0f) << 10) | (b[23] << 2) | ((b[22] & 0xc0) >> 6)),
+    };
+  }
+  return null;
+};
+
+const readBmpSize = (b: Uint8Array, view: DataView): Dimensions | null => {
+  if (b.length < 26 || b[0] !== 0x42 || b[1] !== 0x4d) return null;
+  return { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+};
+
+const IMAGE_READERS: Record<string, (b: Uint8Array, view: DataView) => Dimensions | null> = {
+  'image/png': readPngSize,
+  'image/gif': readGifSize,
+  'image/jpeg': readJpegSize,
+  'image/webp': readWebpSize,
+  'image/bmp': readBmpSize,
+};
+
+/**
+ * Counts page objects, falling back to the page tree's /Count when pages live in
+ * compressed object streams. Files above the full-read limit only get their head and tail scanned.
+ */
+const readPdfPageCount = async (file: File): Promise<number | undefined> => {
+  const decoder = new TextDecoder('latin1');
+  const text = file.size <= FULL_READ_LIMIT
+    ? decoder.decode(await file.arrayBuffer())
+    : decoder.decode(await file.slice(0, PDF_TAIL_BYTES).arrayBuffer()) +
+      decoder.decode(await file.slice(file.size - PDF_TAIL_BYTES).arrayBuffer());
+
+  const pages = (text.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  if (pages > 0) return pages;
+  const counts = Array.from(text.matchAll(/\/Count\s+(\d+)/g), m => parseInt(m[1], 10));
+  return counts.length > 0 ? Math.max(...counts) : undefined;
+};
+
+export const readAssetInfo = async (file: File, path: string): Promise<AssetInfo> => {
+  const mime = ASSET_MIME_TYPES[getExtension(path)] || file.type || 'application/octet-stream';
+  const info: AssetInfo = { mime };
+
+  try {
+    const reader = IMAGE_READERS[mime];
+    if (reader) {
+      const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+      const size = reader(bytes, new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+      if (size && size.width > 0 && size.height > 0) Object.assign(info, size);
+    } else if (mime === 'application/pdf') {
+      info.pages = await readPdfPageCount(file);
+    }
+  } catch (e) {
+    // Truncated or malformed headers still get a descriptor, just without details
+    console.warn(`Could not read metadata for ${path}`, e);
+  }
+  return info;
+};
+
+// One-line descriptor that stands in for the binary payload everywhere content is shown
+export const describeAsset = (info: AssetInfo, size: number): string => {
+  const details = [info.mime, formatSize(size)];
+  if (info.width && info.height) details.push(`${info.width}x${info.height}`);
+  if (info.pages) details.push(`${info.pages} page${info.pages === 1 ? '' : 's'}`);
+  return `[Asset: ${details.join(', ')}]`;
+};
@@ -0,0 +1,48 @@
+// Finds "path:line" style citations in model answers and maps them onto loaded file paths.
+
+export interface CodeReference {
+  start: number; // Offsets of the whole citation in the source text
+  end: number;
+  path: string;  // As written, e.g. "src/App.tsx"
+  line: number;
+}
+
+// "src/App.tsx:140", "App.tsx:140-152", "App.tsx#L140"
+const PATH_LINE = /([\w@.\-/]*\w\.[A-Za-z0-9]+)(?::|#L)(\d+)(?:-\d+)?/g;
+// "line 140 of App.tsx", "lines 140-152 in src/App.tsx"
+const LINE_OF_PATH = /\blines? (\d+)(?:[-–]\d+)? (?:of|in) `?([\w@.\-/]*\w\.[A-Za-z0-9]+)`?/gi;
+
+export const findCodeReferences = (text: string): CodeReference[] => {
+  const refs: CodeReference[] = [];
+  let match: RegExpExecArray | null;
+
+  PATH_LINE.lastIndex = 0;
+  while ((match = PATH_LINE.exec(text)) !== null) {
+    refs.push({ start: match.index, end: match.index + match[0].length, path: match[1], line: parseInt(match[2], 10) });
+  }
+  LINE_OF_PATH.lastIndex = 0;
+  while ((match = LINE_OF_PATH.exec(text)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (refs.some(r => start < r.end && end > r.start)) continue;
+    refs.push({ start, end, path: match[2], line: parseInt(match[1], 10) });
+  }
+
+  return refs.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Models often drop the upload root ("src/App.tsx" for "my-app/src/App.tsx") or cite a bare
+ * file name, so fall back to a suffix match and then to a unique base name.
+ */
+export const resolveReferencePath = (ref: string, paths: string[]): string | null => {
+  const cleaned = ref.replace(/^\.?\//, '');
+  if (paths.includes(cleaned)) return cleaned;
+
+  const bySuffix = paths.filter(p => p.endsWith(`/${cleaned}`));
+  if (bySuffix.length > 0) return bySuffix.sort((a, b) => a.length - b.length)[0];
+
+  const name = cleaned.substring(cleaned.lastIndexOf('/') + 1);
+  const byName = paths.filter(p => p.substring(p.lastIndexOf('/') + 1) === name);
+  return byName.length === 1 ? byName[0] : null;
+};
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { stripContent } from './commentStripping';
+
+describe('stripContent (CSS family)', () => {
+  it('keeps protocol-relative unquoted urls in SCSS', () => {
+    const src = '.a { background: url(//cdn.example.com/x.png); } // note\n.b { color: red; }';
+    expect(stripContent(src, 'styles.scss', 'comments')?.content).toBe('.a { background: url(//cdn.example.com/x.png); }\n.b { color: red; }');
+  });
+
+  it('keeps unquoted urls containing comment markers in Less', () => {
+    const src = '.a { background: URL( //cdn.example.com/*/x.png ); }';
+    expect(stripContent(src, 'styles.less', 'comments')?.content).toBe(src);
+  });
+
+  it('still strips comments around quoted and unquoted urls', () => {
+    const src = '/* banner */\n.a { background: url("//cdn.example.com/x.png"); }\n.b { mask: url(//cdn.example.com/m.svg); } /* end */';
+    expect(stripContent(src, 'styles.scss', 'comments')?.content).toBe('.a { background: url("//cdn.example.com/x.png"); }\n.b { mask: url(//cdn.example.com/m.svg); }');
+  });
+
+  it('does not treat a url( suffix of another function as a url', () => {
+    const src = '.a { b: myurl(x) // gone\n}';
+    expect(stripContent(src, 'styles.scss', 'comments')?.content).toBe('.a { b: myurl(x)\n}');
+  });
+});
@@ -0,0 +1,414 @@
+import { ProcessedFile, StripLevel } from '../types';
+
+/**
+ * Output-time minification. Each level includes the previous one:
+ * - license:    drop the leading license/copyright banner
+ * - comments:   drop every comment except doc comments (JSDoc, rustdoc, Go doc) and tool pragmas
+ * - whitespace: also trim trailing whitespace and collapse blank-line runs
+ * Files are scanned into code, string and comment segments first, so string literals
+ * (including template literals, raw strings and docstrings) are never touched.
+ */
+
+type Family = 'js' | 'c' | 'go' | 'rust' | 'python' | 'css' | 'html';
+
+const FAMILIES: Record<string, Family> = {
+  ts: 'js', tsx: 'js', js: 'js', jsx: 'js', mjs: 'js', cjs: 'js', mts: 'js', cts: 'js',
+  java: 'c', kt: 'c', kts: 'c', scala: 'c', c: 'c', h: 'c', cc: 'c', cpp: 'c', hpp: 'c', cs: 'c', swift: 'c',
+  go: 'go',
+  rs: 'rust',
+  py: 'python', pyi: 'python',
+  css: 'css', scss: 'css', less: 'css',
+  html: 'html', htm: 'html', vue: 'html', svelte: 'html',
+};
+
+export const STRIP_LEVELS: { id: StripLevel; label: string }[] = [
+  { id: 'none', label: 'Full Content' },
+  { id: 'license', label: 'Strip License Banners' },
+  { id: 'comments', label: 'Strip Comments' },
+  { id: 'whitespace', label: 'Strip Comments + Whitespace' },
+];
+
+interface Segment {
+  kind: 'code' | 'string' | 'comment';
+  text: string;
+  doc?: boolean;
+}
+
+export const getStripFamily = (path: string): Family | null => {
+  const ext = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+  return FAMILIES[ext] || null;
+};
+
+// --- Scanners ---
+
+// A "/" starts a regex literal (not division) after these tokens
+const REGEX_PRECEDERS = /(?:^|[(,=:[!&|?{};+\-*%<>~^]|\b(?:return|typeof|case|do|else|in|of|yield|await|void|delete|throw|new))\s*$/;
+
+const scanCLike = (src: string, family: Family): Segment[] => {
+  const segments: Segment[] = [];
+  let code = '';
+  let tail = ''; // Recent code before the pending buffer, for regex-vs-division decisions
+  let i = 0;
+  const flushCode = () => {
+    if (code) segments.push({ kind: 'code', text: code });
+    tail = (tail + code).slice(-40);
+    code = '';
+  };
+  const push = (kind: 'string' | 'comment', end: number, doc?: boolean) => {
+    flushCode();
+    segments.push({ kind, text: src.substring(i, end), doc });
+    // A string or regex is an operand, so a following "/" divides
+    if (kind === 'string') tail = '0';
+    i = end;
+  };
+  // Ends a quoted string at the closing quote, or at an unescaped newline for single-line quotes
+  const quotedEnd = (start: number, quote: string, multiline: boolean, escapes = true) => {
+    let j = start + quote.length;
+    while (j < src.length) {
+      if (escapes && src[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (src.startsWith(quote, j)) return j + quote.length;
+      if (!multiline && src[j] === '\n') return j;
+      j++;
+    }
+    return src.length;
+  };
+  // Template literal with ${} interpolations, which may themselves contain templates
+  const templateEnd = (start: number): number => {
+    let j = start + 1;
+    while (j < src.length) {
+      if (src[j] === '\\') {
+        j += 2;
+      } else if (src[j] === '`') {
+        return j + 1;
+      } else if (src[j] === '$' && src[j + 1] === '{') {
+        let depth = 1;
+        j += 2;
+        while (j < src.length && depth > 0) {
+          const ch = src[j];
+          if (ch === '{') depth++;
+          else if (ch === '}') depth--;
+          else if (ch === '`') { j = templateEnd(j); continue; }
+          else if (ch === '"' || ch === '\'') { j = quotedEnd(j, ch, false); continue; }
+          j++;
+        }
+      } else {
+        j++;
+      }
+    }
+    return src.length;
+  };
+
+  // Shebang line, which would otherwise look like a regex literal
+  if (src.startsWith('#!')) {
+    i = src.indexOf('\n') === -1 ? src.length : src.indexOf('\n');
+    code = src.substring(0, i);
+  }
+
+  while (i < src.length) {
+    const ch = src[i];
+    const next = src[i + 1];
+
+    if (ch === '/' && next === '/') {
+      const end = src.indexOf('\n', i);
+      const stop = end === -1 ? src.length : end;
+      const text = src.substring(i, stop);
+      let doc = family === 'rust' && /^\/\/[/!]/.test(text) && !text.startsWith('////');
+      // Go doc comments are the comment group directly above a declaration
+      if (family === 'go') doc = /^\n(?:[ \t]*\/\/[^\n]*\n)*[ \t]*(?:func|type|var|const|package)\b/.test(src.substring(stop));
+      push('comment', stop, doc);
+    } else if (ch === '/' && next === '*') {
+      let end: number;
+      if (family === 'rust') {
+        // Rust block comments nest
+        let depth = 1;
+        end = i + 2;
+        while (end < src.length && depth > 0) {
+          if (src.startsWith('/*', end)) { depth++; end += 2; }
+          else if (src.startsWith('*/', end)) { depth--; end += 2; }
+          else end++;
+        }
+      } else {
+        const close = src.indexOf('*/', i + 2);
+        end = close === -1 ? src.length : close + 2;
+      }
+      const text = src.substring(i, end);
+      const doc = (text.startsWith('/**') && text !== '/**/') || (family === 'rust' && text.startsWith('/*!'));
+      push('comment', end, doc);
+    } else if (family === 'js' && ch === '/' && REGEX_PRECEDERS.test(tail + code)) {
+      // Regex literal; character classes may contain an unescaped "/"
+      let j = i + 1;
+      let inClass = false;
+      while (j < src.length && src[j] !== '\n') {
+        if (src[j] === '\\') { j += 2; continue; }
+        if (src[j] === '[') inClass = true;
+        else if (src[j] === ']') inClass = false;
+        else if (src[j] === '/' && !inClass) { j++; break; }
+        j++;
+      }
+      push('string', j);
+    } else if (ch === '`' && family === 'js') {
+      push('string', templateEnd(i));
+    } else if (ch === '`' && family === 'go') {
+      push('string', quotedEnd(i, '`', true, false));
+    } else if (ch === '"' && src.startsWith('"""', i) && family === 'c') {
+      push('string', quotedEnd(i, '"""', true)); // Java/Kotlin text blocks
+    } else if (family === 'rust' && ch === 'r' && /^r#*"/.test(src.substring(i, i + 260)) && !/[\w]/.test(src[i - 1] || '')) {
+      const hashes = /^r(#*)"/.exec(src.substring(i, i + 260))![1];
+      const close = src.indexOf(`"${hashes}`, i + hashes.length + 2);
+      push('string', close === -1 ? src.length : close + hashes.length + 1);
+    } else if (ch === '\'' && family === 'rust') {
+      // Char literal, or a lifetime ('a) which has no closing quote
+      const m = /^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/.exec(src.substring(i, i + 16));
+      if (m) push('string', i + m[0].length);
+      else { code += ch; i++; }
+    } else if (ch === '"' || (ch === '\'' && family !== 'go')) {
+      push('string', quotedEnd(i, ch, family === 'rust'));
+    } else if (ch === '\'' && family === 'go') {
+      push('string', quotedEnd(i, ch, false)); // rune literal
+    } else {
+      code += ch;
+      i++;
+    }
+  }
+  flushCode();
+  return segments;
+};
+
+// url( whose argument is not a quoted string, e.g. url(//cdn.example.com/x.png)
+const startsUnquotedUrl = (src: string, i: number) =>
+  /^url\(\s*(?!['"\s])/i.test(src.substring(i, i + 64)) && !/[\w-]/.test(src[i - 1] || '');
+
+const scanCss = (src: string, path: string): Segment[] => {
+  // SCSS and Less also allow // line comments; plain CSS treats them as part of values (e.g. urls)
+  const lineComments = !path.toLowerCase().endsWith('.css');
+  const segments: Segment[] = [];
+  let code = '';
+  let i = 0;
+  const flush = () => { if (code) segments.push({ kind: 'code', text: code }); code = ''; };
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '/' && src[i + 1] === '*') {
+      const close = src.indexOf('*/', i + 2);
+      const end = close === -1 ? src.length : close + 2;
+      flush();
+      segments.push({ kind: 'comment', text: src.substring(i, end), doc: src.startsWith('/**', i) && end - i > 4 });
+      i = end;
+    } else if (lineComments && ch === '/' && src[i + 1] === '/' && src[i - 1] !== ':') {
+      const nl = src.indexOf('\n', i);
+      const end = nl === -1 ? src.length : nl;
+      flush();
+      segments.push({ kind: 'comment', text: src.substring(i, end) });
+      i = end;
+    } else if (ch === '"' || ch === '\'') {
+      let j = i + 1;
+      while (j < src.length && src[j] !== ch && src[j] !== '\n') j += src[j] === '\\' ? 2 : 1;
+      const end = Math.min(src.length, j + 1);
+      flush();
+      segments.push({ kind: 'string', text: src.substring(i, end) });
+      i = end;
+    } else if ((ch === 'u' || ch === 'U') && startsUnquotedUrl(src, i)) {
+      // An unquoted url(...) is a literal too: "//" and "/*" inside it (e.g. protocol-relative urls) are not comments
+      const close = src.indexOf(')', i + 4);
+      const end = close === -1 ? src.length : close;
+      code += src.substring(i, i + 4);
+      flush();
+      segments.push({ kind: 'string', text: src.substring(i + 4, end) });
+      i = end;
+    } else {
+      code += ch;
+      i++;
+    }
+  }
+  flush();
+  return segments;
+};
+
+const scanPython = (src: string): Segment[] => {
+  const segments: Segment[] = [];
+  let code = '';
+  let i = 0;
+  const flush = () => { if (code) segments.push({ kind: 'code', text: code }); code = ''; };
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '#') {
+      const nl = src.indexOf('\n', i);
+      const end = nl === -1 ? src.length : nl;
+      flush();
+      segments.push({ kind: 'comment', text: src.substring(i, end) });
+      i = end;
+    } else if (ch === '"' || ch === '\'') {
+      // Docstrings are triple-quoted strings, so they survive every level untouched
+      const quote = src.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+      let j = i + quote.length;
+      while (j < src.length) {
+        if (src[j] === '\\') { j += 2; continue; }
+        if (src.startsWith(quote, j)) { j += quote.length; break; }
+        if (quote.length === 1 && src[j] === '\n') break;
+        j++;
+      }
+      const end = Math.min(src.length, j);
+      flush();
+      segments.push({ kind: 'string', text: src.substring(i, end) });
+      i = end;
+    } else {
+      code += ch;
+      i++;
+    }
+  }
+  flush();
+  return segments;
+};
+
+// Comments only; raw-text elements are protected as strings so scripts and <pre> blocks stay intact
+const scanHtml = (src: string): Segment[] => {
+  const segments: Segment[] = [];
+  const pattern = /<!--[\s\S]*?(?:-->|$)|<(script|style|pre|textarea)\b[\s\S]*?(?:<\/\1\s*>|$)/gi;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(src)) !== null) {
+    if (match.index > last) segments.push({ kind: 'code', text: src.substring(last, match.index) });
+    const isComment = match[0].startsWith('<!--');
+    // Conditional comments change rendering in old IE, so treat them like code
+    segments.push({ kind: isComment && !match[0].startsWith('<!--[if') ? 'comment' : 'string', text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < src.length) segments.push({ kind: 'code', text: src.substring(last) });
+  return segments;
+};
+
+const scan = (src: string, family: Family, path: string): Segment[] => {
+  if (family === 'python') return scanPython(src);
+  if (family === 'css') return scanCss(src, path);
+  if (family === 'html') return scanHtml(src);
+  return scanCLike(src, family);
+};
+
+// --- Stripping ---
+
+const LICENSE_PATTERN = /licen[sc]e|copyright|spdx-license-identifier|\(c\)\s*\d{4}|all rights reserved/i;
+// Comments that change tooling behaviour (type checking, linting, build tags, encodings)
+const PRAGMA_PATTERN = /^(?:#!|\/\/\/\s*<reference|\/\/\s*(?:@ts-|eslint|prettier|istanbul|go:|\+build|nolint|#region|#endregion)|\/\*\s*(?:eslint|istanbul|prettier|@jsx|webpackChunkName)|#\s*(?:-\*-|type:|noqa|pylint|pragma|fmt:)|#\s*(?:vim?|coding)[:=])/i;
+
+// The leading banner: consecutive top-of-file comments, if any of them mentions a license
+const findLicenseBanner = (segments: Segment[]): Set<number> => {
+  const banner: number[] = [];
+  for (let k = 0; k < segments.length; k++) {
+    const seg = segments[k];
+    if (seg.kind === 'code' && seg.text.trim() === '') continue;
+    if (k === 0 && seg.kind === 'code' && /^#![^\n]*\n\s*$/.test(seg.text)) continue; // Shebang lines scan as code in JS
+    if (seg.kind !== 'comment' || PRAGMA_PATTERN.test(seg.text)) {
+      if (banner.length === 0 && seg.kind === 'comment') continue; // Shebang or pragma above the banner
+      break;
+    }
+    banner.push(k);
+  }
+  return banner.some(k => LICENSE_PATTERN.test(segments[k].text)) ? new Set(banner) : new Set();
+};
+
+export interface StripResult {
+  content: string;
+  lineNumbers: number[]; // Original (1-based) line number of every kept line
+}
+
+const REMOVED = '\u0000';
+
+export const stripContent = (content: string, path: string, level: StripLevel): StripResult | null => {
+  const family = getStripFamily(path);
+  if (level === 'none' || !family) return null;
+
+  const segments = scan(content, family, path);
+  const banner = findLicenseBanner(segments);
+
+  // Removed comments leave a marker on every line they covered, so line numbering stays aligned with the source
+  let text = '';
+  const protectedLines = new Set<number>();
+  let line = 0;
+  segments.forEach((seg, k) => {
+    const newlines = (seg.text.match(/\n/g) || []).length;
+    const remove = seg.kind === 'comment' && (
+      banner.has(k) ||
+      (level !== 'license' && !seg.doc && !PRAGMA_PATTERN.test(seg.text))
+    );
+    if (remove) {
+      text += REMOVED + `\n${REMOVED}`.repeat(newlines);
+    } else {
+      // Interior lines of multi-line strings (and kept comments) must keep their exact whitespace
+      if (seg.kind !== 'code') for (let n = 1; n <= newlines; n++) protectedLines.add(line + n);
+      text += seg.text;
+    }
+    line += newlines;
+  });
+
+  const kept: string[] = [];
+  const lineNumbers: number[] = [];
+  text.split('\n').forEach((raw, idx) => {
+    if (protectedLines.has(idx)) {
+      kept.push(raw.split(REMOVED).join(''));
+      lineNumbers.push(idx + 1);
+      return;
+    }
+    const hadRemoval = raw.includes(REMOVED);
+    let out = raw.split(REMOVED).join('');
+    if (hadRemoval || level === 'whitespace') out = out.replace(/[ \t]+$/, '');
+    // A line that only held a removed comment disappears entirely
+    if (hadRemoval && out.trim() === '') return;
+    if (level === 'whitespace' && out === '' && (kept.length === 0 || kept[kept.length - 1] === '')) return;
+    kept.push(out);
+    lineNumbers.push(idx + 1);
+  });
+
+  return { content: kept.join('\n'), lineNumbers };
+};
+
+const mask = (content: string, path: string, kinds: Segment['kind'][]): string => {
+  const family = getStripFamily(path);
+  if (!family) return content;
+  return scan(content, family, path)
+    .map(seg => kinds.includes(seg.kind) ? seg.text.replace(/[^\n]/g, ' ') : seg.text)
+    .join('');
+};
+
+/**
+ * Blanks out strings and comments (newlines kept), so brace and paren counting over the
+ * result only sees real code. Offsets and line numbers match the input.
+ */
+export const maskLiterals = (content: string, path: string): string => mask(content, path, ['string', 'comment']);
+
+// Comments only, for scanning code whose interesting parts are strings (e.g. import specifiers)
+export const maskComments = (content: string, path: string): string => mask(content, path, ['comment']);
+
+// Files whose content is an excerpt or a converter rewrite are left alone
+export const canStrip = (f: ProcessedFile): boolean =>
+  !f.asset && !f.oversizeStrategy && !f.converter && getStripFamily(f.path) !== null;
+
+const savingsCache = new Map<string, number>();
+const SAVINGS_CACHE_LIMIT = 20000;
+
+/**
+ * Estimated tokens removed per level across the given files. Results are cached per content
+ * hash, so re-running after a selection change only scans files not seen before.
+ */
+export const estimateStripSavings = (files: ProcessedFile[], estimate: (text: string) => number): Record<StripLevel, number> => {
+  const savings: Record<StripLevel, number> = { none: 0, license: 0, comments: 0, whitespace: 0 };
+  if (savingsCache.size > SAVINGS_CACHE_LIMIT) savingsCache.clear();
+
+  files.filter(canStrip).forEach(f => {
+    const before = f.tokens ?? estimate(f.content);
+    (['license', 'comments', 'whitespace'] as const).forEach(level => {
+      const key = `${f.hash || f.path}:${level}`;
+      let saved = savingsCache.get(key);
+      if (saved === undefined) {
+        const result = stripContent(f.content, f.path, level);
+        saved = result ? Math.max(0, before - estimate(result.content)) : 0;
+        if (f.hash) savingsCache.set(key, saved);
+      }
+      savings[level] += saved;
+    });
+  });
+  return savings;
+};
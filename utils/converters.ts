@@ -0,0 +1,225 @@
+import { AssetInfo, ConverterSettings, OversizeSettings } from '../types';
+import { decodeText } from './textDecoding';
+import { readFileWithSettings, clampChars, formatSize, FULL_READ_LIMIT, ReadResult } from './oversizedFiles';
+import { isAssetPath, readAssetInfo, describeAsset } from './assetMetadata';
+
+/**
+ * A converter rewrites a noisy format into something an LLM can read cheaply.
+ * `convert` returns null to leave the content untouched (e.g. unparseable or already small).
+ */
+export interface ContentConverter {
+  id: string;
+  label: string;
+  extensions: string[];
+  convert: (content: string, path: string, size: number, settings: ConverterSettings) => string | null;
+}
+
+export const DEFAULT_CONVERTER_SETTINGS: ConverterSettings = {
+  enabled: true,
+  notebookOutputs: true,
+  maxOutputLines: 20,
+  csvSampleRows: 5,
+};
+
+const getExtension = (path: string) => {
+  const name = path.substring(path.lastIndexOf('/') + 1).toLowerCase();
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.substring(dot);
+};
+
+const truncateLines = (lines: string[], max: number): string[] =>
+  lines.length <= max ? lines : [...lines.slice(0, max), `... (${(lines.length - max).toLocaleString()} more lines)`];
+
+// --- Jupyter notebooks ---
+
+interface NotebookOutput {
+  output_type: string;
+  text?: string | string[];
+  data?: Record<string, string | string[]>;
+  ename?: string;
+  evalue?: string;
+}
+
+interface NotebookCell {
+  cell_type: 'code' | 'markdown' | 'raw';
+  source: string | string[];
+  execution_count?: number | null;
+  outputs?: NotebookOutput[];
+}
+
+const joinSource = (source: string | string[] | undefined) =>
+  Array.isArray(source) ? source.join('') : source || '';
+
+const splitText = (text: string | string[] | undefined) => joinSource(text).replace(/\n$/, '').split('\n');
+
+const formatOutput = (output: NotebookOutput): string[] => {
+  if (output.output_type === 'stream') return splitText(output.text);
+  if (output.output_type === 'error') return [`${output.ename}: ${output.evalue}`];
+
+  const data = output.data || {};
+  if (data['text/plain']) return splitText(data['text/plain']);
+  // Images, HTML and widgets only get a marker; their payload is what inflates raw notebooks
+  return Object.keys(data).map(mime => `[${mime} output omitted]`);
+};
+
+const notebookConverter: ContentConverter = {
+  id: 'notebook',
+  label: 'Jupyter notebook',
+  extensions: ['.ipynb'],
+  convert: (content, _path, _size, settings) => {
+    let notebook: { cells?: NotebookCell[]; metadata?: { kernelspec?: { name?: string } } };
+    try {
+      notebook = JSON.parse(content);
+    } catch {
+      return null;
+    }
+    if (!Array.isArray(notebook.cells)) return null;
+
+    const cells = notebook.cells;
+    const codeCells = cells.filter(c => c.cell_type === 'code').length;
+    const kernel = notebook.metadata?.kernelspec?.name;
+    const outputsNote = settings.notebookOutputs
+      ? `Text outputs truncated to ${settings.maxOutputLines} lines`
+      : 'Outputs omitted';
+
+    const parts = [
+      `[Jupyter notebook: ${cells.length} cells (${codeCells} code, ${cells.length - codeCells} other)` +
+      `${kernel ? `, kernel ${kernel}` : ''}. ${outputsNote}.]`,
+    ];
+
+    cells.forEach((cell, i) => {
+      const source = joinSource(cell.source).replace(/\s+$/, '');
+      if (cell.cell_type !== 'code') {
+        parts.push(`# %% [${cell.cell_type}] cell ${i + 1}\n${source}`);
+        return;
+      }
+
+      const count = cell.execution_count ? ` In[${cell.execution_count}]` : '';
+      let block = `# %% cell ${i + 1}${count}\n${source}`;
+      if (settings.notebookOutputs && cell.outputs && cell.outputs.length > 0) {
+        const lines = cell.outputs.flatMap(formatOutput);
+        if (lines.length > 0) {
+          block += `\n# Output:\n${truncateLines(lines, settings.maxOutputLines).map(l => `# ${l}`).join('\n')}`;
+        }
+      }
+      parts.push(block);
+    });
+
+    return parts.join('\n\n');
+  },
+};
+
+// --- SVG ---
+
+const svgConverter: ContentConverter = {
+  id: 'svg',
+  label: 'SVG image',
+  extensions: ['.svg'],
+  convert: (content, _path, size) => {
+    const root = /<svg\b[^>]*>/i.exec(content)?.[0] || '';
+    const attr = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(root)?.[1];
+    const title = /<title>([^<]*)<\/title>/i.exec(content)?.[1]?.trim();
+
+    const details = [
+      attr('width') && attr('height') ? `${attr('width')}x${attr('height')}` : null,
+      attr('viewBox') ? `viewBox "${attr('viewBox')}"` : null,
+      title ? `title "${title}"` : null,
+      `${(content.match(/<(path|circle|rect|polygon|line|ellipse|g|text|image)\b/gi) || []).length} elements`,
+    ].filter(Boolean);
+
+    return `[SVG image: ${formatSize(size)}, ${details.join(', ')}. Markup omitted.]`;
+  },
+};
+
+// --- CSV / TSV ---
+
+const csvConverter: ContentConverter = {
+  id: 'csv',
+  label: 'Delimited data',
+  extensions: ['.csv', '.tsv'],
+  convert: (content, path, size, settings) => {
+    const lines = content.split(/\r?\n/);
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+    const rows = lines.length - 1;
+    if (rows <= settings.csvSampleRows) return null;
+
+    const delimiter = getExtension(path) === '.tsv' ? '\t' : ',';
+    // Naive column count; quoted delimiters in the header are rare enough to ignore
+    const columns = lines[0].split(delimiter).length;
+    return [
+      `[${getExtension(path) === '.tsv' ? 'TSV' : 'CSV'} data: ${formatSize(size)}, ${rows.toLocaleString()} rows x ${columns} columns. ` +
+      `Showing header and first ${settings.csvSampleRows} rows.]`,
+      ...lines.slice(0, settings.csvSampleRows + 1),
+    ].join('\n');
+  },
+};
+
+// --- Minified JavaScript ---
+
+const MINIFIED_LINE_LENGTH = 500;
+
+const minifiedJsConverter: ContentConverter = {
+  id: 'minified-js',
+  label: 'Minified JavaScript',
+  extensions: ['.js', '.mjs', '.cjs'],
+  convert: (content, path, size) => {
+    const lines = content.split('\n');
+    const isMinifiedName = /\.min\.[mc]?js$/i.test(path);
+    const averageLength = content.length / lines.length;
+    if (!isMinifiedName && (content.length < 2000 || averageLength < MINIFIED_LINE_LENGTH)) return null;
+
+    // The leading banner usually names the library and version, which is all an LLM needs
+    const banner = /^\s*\/\*[!*][\s\S]*?\*\//.exec(content)?.[0];
+    return [
+      `[Minified JavaScript: ${formatSize(size)} on ${lines.length.toLocaleString()} lines. Content omitted.]`,
+      banner ? clampChars(banner, 500) : `${content.substring(0, 200)}...`,
+    ].join('\n');
+  },
+};
+
+export const CONVERTERS: ContentConverter[] = [notebookConverter, svgConverter, csvConverter, minifiedJsConverter];
+
+export const findConverter = (path: string): ContentConverter | undefined => {
+  const ext = getExtension(path);
+  return CONVERTERS.find(c => c.extensions.includes(ext));
+};
+
+export interface IngestedContent extends ReadResult {
+  converter?: string;
+  asset?: AssetInfo;
+}
+
+const readAsset = async (file: File, path: string): Promise<IngestedContent> => {
+  const asset = await readAssetInfo(file, path);
+  return { content: describeAsset(asset, file.size), encoding: 'binary', isBinary: true, asset };
+};
+
+/**
+ * Entry point used by ingestion. Known binary formats and files detected as binary become asset
+ * descriptors. Files with a registered converter are read whole and rewritten before the size cap
+ * applies; everything else goes through the oversize strategies.
+ */
+export const readFileForIngestion = async (
+  file: File,
+  path: string,
+  oversize: OversizeSettings,
+  converters: ConverterSettings,
+  encodingOverride?: string
+): Promise<IngestedContent> => {
+  if (isAssetPath(path)) return readAsset(file, path);
+
+  const converter = converters.enabled ? findConverter(path) : undefined;
+  if (converter && file.size <= FULL_READ_LIMIT) {
+    const decoded = decodeText(new Uint8Array(await file.arrayBuffer()), encodingOverride);
+    if (decoded.isBinary) return readAsset(file, path);
+
+    const converted = converter.convert(decoded.content, path, file.size, converters);
+    if (converted !== null) {
+      return { ...decoded, content: clampChars(converted, oversize.maxFileSize), converter: converter.id };
+    }
+    // Already decoded in full; only files over the cap need another pass
+    if (file.size <= oversize.maxFileSize) return decoded;
+  }
+  const result = await readFileWithSettings(file, path, oversize, encodingOverride);
+  return result.isBinary ? readAsset(file, path) : result;
+};
@@ -0,0 +1,75 @@
+import { ProcessedFile, FileChangeStatus } from '../types';
+
+export interface ReimportResult {
+  files: ProcessedFile[];
+  statuses: Record<string, FileChangeStatus>;
+  reusedSummaries: number;
+}
+
+// Returns the shared top-level folder if every path lives under the same one
+const commonRoot = (paths: string[]): string | null => {
+  if (paths.length === 0) return null;
+  const root = paths[0].split('/')[0];
+  return paths.every(p => p.startsWith(root + '/')) ? root : null;
+};
+
+/**
+ * Diffs a freshly ingested file set against the previous one by content hash.
+ * Unchanged files carry over summary and selection, modified files keep selection only.
+ * When both uploads have a single (possibly renamed) root folder, paths are compared below it,
+ * so "app-v1/src/a.ts" matches "app-v2/src/a.ts". Returns null when the sets share no files,
+ * meaning the upload is a different project and should be treated as a fresh import.
+ */
+export const reconcileReimport = (
+  previous: ProcessedFile[],
+  next: ProcessedFile[],
+  detectDeletions = true
+): ReimportResult | null => {
+  const prevRoot = commonRoot(previous.map(f => f.path));
+  const nextRoot = commonRoot(next.map(f => f.path));
+  const stripRoots = prevRoot !== null && nextRoot !== null;
+
+  const keyOf = (path: string, root: string | null) =>
+    stripRoots && root ? path.substring(root.length + 1) : path;
+
+  const previousByKey = new Map<string, ProcessedFile>();
+  previous.forEach(f => previousByKey.set(keyOf(f.path, prevRoot), f));
+
+  const statuses: Record<string, FileChangeStatus> = {};
+  const seenKeys = new Set<string>();
+  let matched = 0;
+  let reusedSummaries = 0;
+
+  const files = next.map(file => {
+    const key = keyOf(file.path, nextRoot);
+    seenKeys.add(key);
+    const old = previousByKey.get(key);
+
+    if (!old) {
+      statuses[file.path] = 'added';
+      return file;
+    }
+
+    matched++;
+    if (old.hash && old.hash === file.hash) {
+      if (old.summary) reusedSummaries++;
+      return { ...file, selected: old.selected, summary: old.summary };
+    }
+
+    statuses[file.path] = 'modified';
+    return { ...file, selected: old.selected };
+  });
+
+  if (matched === 0) return null;
+
+  if (detectDeletions) {
+    previousByKey.forEach((old, key) => {
+      if (seenKeys.has(key)) return;
+      // Report deletions under the new root so they sit next to their siblings in the tree
+      const path = stripRoots && nextRoot ? `${nextRoot}/${key}` : old.path;
+      statuses[path] = 'deleted';
+    });
+  }
+
+  return { files, statuses, reusedSummaries };
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { ProcessedFile, OutputFormat } from '../types';
+import { generateLLMOutput, generateChunks, estimateTokens, CHUNK_LIMIT_ERROR } from './fileProcessing';
+
+const file = (path: string, content: string): ProcessedFile => ({
+  path, name: path.split('/').pop()!, content, size: content.length, type: 'text/plain', selected: true,
+});
+
+// A TS module of `count` small functions; every line is unique so pieces can be traced back
+const module = (name: string, count: number) => Array.from({ length: count }, (_, i) =>
+  `export function ${name}${i}(value: number): number {\n  const doubled${i} = value * ${i + 2};\n  return doubled${i} + ${i};\n}`
+).join('\n\n');
+
+const FORMATS: OutputFormat[] = ['plain', 'xml', 'markdown', 'json'];
+
+const project = () => [
+  file('README.md', '# Demo\n\nSmall project used by the chunking tests.'),
+  file('src/a.ts', module('alpha', 6)),
+  file('src/b.ts', module('beta', 6)),
+  file('src/util/c.ts', module('gamma', 6)),
+  file('src/util/huge.ts', module('huge', 80)), // Bigger than a whole chunk at the limits below
+];
+
+const assertFits = (chunks: string[], limit: number) =>
+  chunks.forEach((chunk, i) => expect(estimateTokens(chunk), `part ${i + 1}`).toBeLessThanOrEqual(limit));
+
+const assertAllLines = (chunks: string[], files: ProcessedFile[]) => {
+  const joined = chunks.join('\n');
+  files.forEach(f => f.content.split('\n').filter(line => line.trim()).forEach(line => expect(joined).toContain(line)));
+};
+
+describe('generateChunks', () => {
+  it.each(FORMATS)('keeps every %s part within the limit and loses no lines', format => {
+    const files = project();
+    for (const limit of [600, 1000, 2000]) {
+      const chunks = generateChunks(files, limit, { format });
+      expect(chunks.length).toBeGreaterThan(1);
+      assertFits(chunks, limit);
+      assertAllLines(chunks, files);
+    }
+  });
+
+  it.each(FORMATS)('keeps %s parts within the limit with the preamble, line numbers and summaries', format => {
+    const files = project().map(f => ({ ...f, summary: `Summary of ${f.path}` }));
+    const chunks = generateChunks(files, 2000, { format, preamble: true, lineNumbers: true, includeSummaries: true });
+    assertFits(chunks, 2000);
+    expect(chunks[0]).toContain('FILE INDEX');
+  });
+
+  it('splits an oversized file at function boundaries into labelled, complete pieces', () => {
+    const huge = file('src/huge.ts', module('huge', 80));
+    const chunks = generateChunks([huge], 600, { format: 'json' });
+    expect(chunks.length).toBeGreaterThan(1);
+    assertFits(chunks, 600);
+
+    const pieces = chunks.flatMap(chunk => JSON.parse(chunk) as { path: string; part?: string; lines?: string; content: string }[]);
+    expect(pieces.every(p => p.path === 'src/huge.ts')).toBe(true);
+    expect(pieces.map(p => p.part)).toEqual(pieces.map((_, i) => `${i + 1}/${pieces.length}`));
+    // Pieces cover the file in order without gaps, and each one starts at a declaration
+    expect(pieces.map(p => p.content).join('\n')).toBe(huge.content);
+    pieces.forEach(p => expect(p.content.trimStart()).toMatch(/^export function/));
+    const ranges = pieces.map(p => p.lines!.split('-').map(Number));
+    ranges.forEach(([start], i) => expect(start).toBe(i === 0 ? 1 : ranges[i - 1][1] + 1));
+    expect(ranges[ranges.length - 1][1]).toBe(huge.content.split('\n').length);
+  });
+
+  it('returns one part when everything fits exactly', () => {
+    const files = project().slice(0, 3);
+    const single = generateLLMOutput(files, { format: 'xml' });
+    const limit = estimateTokens(single);
+    expect(generateChunks(files, limit, { format: 'xml' })).toEqual([single]);
+    expect(generateChunks(files, limit - 1, { format: 'xml' }).length).toBeGreaterThan(1);
+  });
+
+  it('throws instead of returning parts over a limit too small to hold anything', () => {
+    expect(() => generateChunks(project(), 40, { format: 'xml' })).toThrow(CHUNK_LIMIT_ERROR);
+    expect(() => generateChunks(project(), 80, { format: 'json', preamble: true })).toThrow(CHUNK_LIMIT_ERROR);
+  });
+
+  it('returns nothing when nothing is selected', () => {
+    expect(generateChunks(project().map(f => ({ ...f, selected: false })), 1000)).toEqual([]);
+  });
+});
+
+describe('file order', () => {
+  const files = [
+    file('src/app.ts', "import { helper } from './lib/helper';\nexport const app = helper();"),
+    file('README.md', '# Readme'),
+    file('src/lib/helper.ts', "import { base } from '../../Zeta/base';\nexport const helper = () => base;"),
+    file('Zeta/base.ts', 'export const base = 1;'),
+    file('alpha/x.ts', 'export const x = 1;'),
+  ];
+  const pathsIn = (text: string) => Array.from(text.matchAll(/<source>(.+)<\/source>/g), m => m[1]);
+
+  it('puts root files first, then directories case-insensitively', () => {
+    expect(pathsIn(generateLLMOutput(files, { format: 'xml' }))).toEqual(['README.md', 'alpha/x.ts', 'src/app.ts', 'src/lib/helper.ts', 'Zeta/base.ts']);
+  });
+
+  it('puts imported files before their importers in dependency order', () => {
+    const order = pathsIn(generateLLMOutput(files, { format: 'xml', order: 'dependencies' }));
+    expect(order.indexOf('Zeta/base.ts')).toBeLessThan(order.indexOf('src/lib/helper.ts'));
+    expect(order.indexOf('src/lib/helper.ts')).toBeLessThan(order.indexOf('src/app.ts'));
+  });
+
+  it.each(['directory', 'dependencies'] as const)('lists files the same way in single and split %s output', order => {
+    const single = pathsIn(generateLLMOutput(files, { format: 'xml', order }));
+    const split = generateChunks(files, 80, { format: 'xml', order }).flatMap(pathsIn);
+    expect(split).toEqual(single);
+  });
+});
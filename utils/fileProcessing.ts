@@ -1,4 +1,10 @@
-import { ProcessedFile, FileNode } from '../types';
+import { ProcessedFile, FileNode, OutputFormat, OutputTemplate, StripLevel, FileOrder } from '../types';
+import { decodeText, DecodedText, BINARY_PLACEHOLDER } from './textDecoding';
+import { OutputSection, FilePiece } from './outputFormats';
+import { resolveFormatter } from './outputTemplates';
+import { stripContent, canStrip } from './commentStripping';
+import { orderByDependencies } from './importGraph';
+import { splitContent } from './fileSplitting';
 
 // Common ignore patterns
 const IGNORED_DIRS = new Set([
@@ -6,45 +12,43 @@ const IGNORED_DIRS = new Set([
   '.next', '.nuxt', 'coverage', 'venv', '__pycache__', '.DS_Store'
 ]);
 
+// Images, fonts, media and documents are kept as asset descriptors (see assetMetadata)
 const IGNORED_EXTENSIONS = new Set([
-  // Images
-  '.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico', '.webp', '.bmp', '.tiff',
-  // Audio/Video
-  '.mp3', '.mp4', '.wav', '.avi', '.mov', '.flv',
-  // Archives/Executables
-  '.zip', '.tar', '.gz', '.rar', '.7z', '.exe', '.dll', '.so', '.dylib', '.bin',
-  // Documents
-  '.pdf', '.doc', '.docx', '.ppt', '.pptx', '.xls', '.xlsx',
+  // Archives/Executables (.zip/.tar/.gz are unpacked by archiveImport)
+  '.rar', '.7z', '.exe', '.dll', '.so', '.dylib', '.bin',
   // Lock files (optional, but usually noise for LLMs)
   '.lock', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'
 ]);
 
-const MAX_FILE_SIZE = 1024 * 1024; // 1MB limit for text files to avoid freezing
+export const MAX_FILE_SIZE = 1024 * 1024; // Default 1MB limit for text files to avoid freezing
 
-export const isIgnored = (path: string): boolean => {
+// Returns the built-in pattern that excludes a path (e.g. "node_modules/", "*.exe"), or null
+export const matchBuiltinIgnore = (path: string): string | null => {
   const parts = path.split('/');
   
   // Check directories
-  for (const part of parts) {
-    if (IGNORED_DIRS.has(part)) return true;
+  for (let i = 0; i < parts.length; i++) {
+    if (IGNORED_DIRS.has(parts[i])) return i < parts.length - 1 ? `${parts[i]}/` : parts[i];
   }
 
   // Check extension
   const filename = parts[parts.length - 1];
   if (filename.startsWith('.')) {
      // Ignore hidden files like .DS_Store, .env (optional, but safe to keep .env usually users want it, so let's check explicit ignore list)
-     if (filename === '.DS_Store') return true;
+     if (filename === '.DS_Store') return filename;
   }
   
   const dotIndex = filename.lastIndexOf('.');
   if (dotIndex !== -1) {
     const ext = filename.substring(dotIndex).toLowerCase();
-    if (IGNORED_EXTENSIONS.has(ext)) return true;
+    if (IGNORED_EXTENSIONS.has(ext)) return `*${ext}`;
   }
 
-  return false;
+  return null;
 };
 
+export const isIgnored = (path: string): boolean => matchBuiltinIgnore(path) !== null;
+
 // Converts a user input glob string (e.g. "*.test.ts", "src/temp/") OR Regex (e.g. "/^src\/.*test/") into a RegExp
 export const createPatternMatcher = (pattern: string): RegExp => {
     // Check for explicit regex syntax /pattern/flags
@@ -84,33 +88,33 @@ export const createPatternMatcher = (pattern: string): RegExp => {
     return new RegExp(regexStr, 'i');
 };
 
-export const readFileContent = (file: File): Promise<string> => {
+export const readTextFile = (file: File, encodingOverride?: string, maxFileSize = MAX_FILE_SIZE): Promise<DecodedText> => {
   return new Promise((resolve, reject) => {
-    if (file.size > MAX_FILE_SIZE) {
-      resolve(`[File too large: ${file.size} bytes. Skipped content.]`);
+    if (file.size > maxFileSize) {
+      resolve({ content: `[File too large: ${file.size} bytes. Skipped content.]`, encoding: 'unknown', isBinary: false });
       return;
     }
 
     const reader = new FileReader();
     reader.onload = (e) => {
       const result = e.target?.result;
-      if (typeof result === 'string') {
-        // Basic check for binary content (null bytes)
-        if (result.includes('\0')) {
-             resolve('[Binary file detected]');
-        } else {
-            resolve(result);
-        }
+      if (result instanceof ArrayBuffer) {
+        resolve(decodeText(new Uint8Array(result), encodingOverride));
       } else {
-        resolve('[Binary file detected]');
+        resolve({ content: BINARY_PLACEHOLDER, encoding: 'binary', isBinary: true });
       }
     };
     reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
 };
 
-export const buildFileTree = (files: ProcessedFile[]): FileNode[] => {
+export const readFileContent = async (file: File): Promise<string> => {
+  const { content } = await readTextFile(file);
+  return content;
+};
+
+export const buildFileTree = (files: Pick<ProcessedFile, 'path'>[]): FileNode[] => {
   const root: FileNode[] = [];
   
   files.forEach(file => {
@@ -143,44 +147,18 @@ export const buildFileTree = (files: ProcessedFile[]): FileNode[] => {
   return root;
 };
 
-const getCommentWrapper = (fileName: string): [string, string] => {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    
-    switch (ext) {
-        case 'html':
-        case 'xml':
-        case 'svg':
-        case 'vue': // Vue often uses HTML-like comments in template
-            return ['<!--', '-->'];
-        case 'css':
-        case 'scss':
-        case 'less':
-            return ['/*', '*/'];
-        case 'py':
-        case 'rb':
-        case 'sh':
-        case 'yaml':
-        case 'yml':
-        case 'dockerfile':
-            return ['#', ''];
-        case 'js':
-        case 'jsx':
-        case 'ts':
-        case 'tsx':
-        case 'java':
-        case 'c':
-        case 'cpp':
-        case 'cs':
-        case 'go':
-        case 'rs':
-        case 'swift':
-        case 'php':
-            return ['//', ''];
-        case 'sql':
-            return ['--', ''];
-        default:
-            return ['#', '']; // Default fallback
-    }
+// Fast 64-bit content fingerprint (cyrb53 variant) used to detect changes between imports
+export const hashContent = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
 };
 
 export const estimateTokens = (text: string): number => {
@@ -190,131 +168,459 @@ export const estimateTokens = (text: string): number => {
 
 export interface OutputOptions {
     includeSummaries?: boolean;
+    format?: OutputFormat;
+    sections?: OutputSection[]; // Leading non-file blocks, e.g. the git diff
+    preamble?: boolean; // Project tree, file index and summaries up front; part headers when chunked
+    lineNumbers?: boolean; // Prefix each content line with its line number so answers can cite path:line
+    strip?: StripLevel; // Comment/whitespace stripping applied to supported languages
+    skeletons?: Record<string, string>; // Signature-only content by path, replacing the full file (see utils/skeleton)
+    template?: OutputTemplate | null; // Takes the place of `format` when set and valid
+    order?: FileOrder; // 'dependencies' emits imported files before their importers (TS/JS, Python, Go, Rust)
+    countTokens?: (text: string) => number; // Target model's tokenizer; estimateTokens otherwise. Set inside workers, not cloned
 }
 
-export const generateLLMOutput = (files: ProcessedFile[], options: OutputOptions = { includeSummaries: true }): string => {
-  return files
-    .filter(f => f.selected)
-    .map(f => {
-      let content = f.content;
-      
-      if (f.summary && options.includeSummaries) {
-          const [prefix, suffix] = getCommentWrapper(f.name);
-          // Ensure space between comment syntax and text
-          const start = prefix ? `${prefix} SUMMARY: ` : 'SUMMARY: ';
-          const end = suffix ? ` ${suffix}` : '';
-          content = `${start}${f.summary.trim()}${end}\n${content}`;
-      }
+// Matches the prefix added by numberLines; InteractiveView uses it to anchor path:line jumps
+export const NUMBERED_LINE = /^ *(\d+) \| /;
+
+// `original` holds source line numbers when lines were removed (e.g. by stripping)
+export const numberLines = (content: string, original?: number[]): string => {
+  const lines = content.split('\n');
+  const width = String(original ? original[original.length - 1] || 0 : lines.length).length;
+  return lines.map((line, i) => `${String(original ? original[i] : i + 1).padStart(width)} | ${line}`).join('\n');
+};
+
+// Stripping and line numbering, in that order so numbers still point at the original source
+// Token counts follow the rewritten content so templates report what is actually sent
+const withContent = (f: ProcessedFile, content: string, count: (text: string) => number): ProcessedFile =>
+  ({ ...f, content, tokens: count(content) });
 
-      return `\n\n--- FILE START: ${f.path} ---\n${content}\n--- FILE END: ${f.path} ---`;
+interface PreparedContent {
+  file: ProcessedFile;
+  source: string; // Content before line numbering, for finding split points
+  lineNumbers?: number[]; // Source line of each line when stripping removed some
+}
+
+const prepareWithLines = (f: ProcessedFile, options: OutputOptions): PreparedContent => {
+  if (f.asset) return { file: f, source: f.content };
+  // Skeletons are already reduced to signatures and no longer line up with the source, so they skip stripping and numbering
+  const skeleton = options.skeletons?.[f.path];
+  const count = options.countTokens || estimateTokens;
+  if (skeleton !== undefined) return { file: withContent(f, skeleton, count), source: skeleton };
+  const stripped = options.strip && options.strip !== 'none' && canStrip(f) ? stripContent(f.content, f.path, options.strip) : null;
+  const source = stripped ? stripped.content : f.content;
+  const lineNumbers = stripped?.lineNumbers;
+  if (!options.lineNumbers) return { file: stripped ? withContent(f, source, count) : f, source, lineNumbers };
+  return { file: withContent(f, numberLines(source, lineNumbers), count), source, lineNumbers };
+};
+
+const prepareContent = (f: ProcessedFile, options: OutputOptions): ProcessedFile => prepareWithLines(f, options).file;
+
+const describeFileSize = (f: ProcessedFile) =>
+  `${(f.size / 1024).toFixed(1)} KB, ${f.asset ? 'asset' : `~${(f.tokens ?? estimateTokens(f.content)).toLocaleString()} tokens`}`;
+
+// ASCII rendering of buildFileTree output, folders first
+const renderTree = (nodes: FileNode[], byPath: Map<string, ProcessedFile>, indent = ''): string[] => {
+  const sorted = [...nodes].sort((a, b) => a.isFile === b.isFile ? a.name.localeCompare(b.name) : a.isFile ? 1 : -1);
+  return sorted.flatMap((node, i) => {
+    const last = i === sorted.length - 1;
+    const branch = `${indent}${last ? '└── ' : '├── '}`;
+    if (!node.isFile) {
+      return [`${branch}${node.name}/`, ...renderTree(node.children || [], byPath, indent + (last ? '    ' : '│   '))];
+    }
+    const f = byPath.get(node.path);
+    return [`${branch}${node.name}${f ? ` (${describeFileSize(f)})` : ''}`];
+  });
+};
+
+// "part 3", or "parts 2-4" for a file split across chunks
+const describePartNumbers = (parts: number[]) =>
+  parts.length === 1 ? `part ${parts[0]}` : `parts ${parts[0]}-${parts[parts.length - 1]}`;
+
+/**
+ * Overview placed before the file bodies. `files` must be in output order; `partOf` maps
+ * paths to the 1-based part numbers holding them when the output is chunked.
+ */
+const buildPreamble = (files: ProcessedFile[], includeSummaries: boolean, partOf?: Map<string, number[]>): OutputSection => {
+  const totalSize = files.reduce((acc, f) => acc + f.size, 0);
+  const totalTokens = files.reduce((acc, f) => acc + (f.asset ? 0 : f.tokens ?? estimateTokens(f.content)), 0);
+  const byPath = new Map<string, ProcessedFile>(files.map(f => [f.path, f]));
+
+  const parts = [
+    `PROJECT TREE (${files.length} files, ${(totalSize / 1024).toFixed(1)} KB, ~${totalTokens.toLocaleString()} tokens)`,
+    renderTree(buildFileTree(files), byPath).join('\n'),
+    '',
+    'FILE INDEX',
+    files.map((f, i) => `${i + 1}. ${f.path}${partOf?.has(f.path) ? ` (${describePartNumbers(partOf.get(f.path)!)})` : ''}`).join('\n'),
+  ];
+
+  const summarized = includeSummaries ? files.filter(f => f.summary) : [];
+  if (summarized.length > 0) {
+    parts.push('', 'FILE SUMMARIES', summarized.map(f => `- ${f.path}: ${f.summary!.trim().replace(/\s*\n\s*/g, ' ')}`).join('\n'));
+  }
+
+  return { name: 'PROJECT OVERVIEW', body: parts.join('\n') };
+};
+
+// Root files first, then directories in case-insensitive order; files keep their order within a directory
+const groupByDirectory = (files: ProcessedFile[]): ProcessedFile[][] => {
+  const dirGroups = new Map<string, ProcessedFile[]>();
+  files.forEach(f => {
+    const lastSlash = f.path.lastIndexOf('/');
+    const dir = lastSlash === -1 ? '.' : f.path.substring(0, lastSlash);
+    if (!dirGroups.has(dir)) dirGroups.set(dir, []);
+    dirGroups.get(dir)!.push(f);
+  });
+  return Array.from(dirGroups.keys())
+    .sort((a, b) => {
+      if (a === '.') return -1;
+      if (b === '.') return 1;
+      return a.toLowerCase().localeCompare(b.toLowerCase());
     })
-    .join('');
+    .map(dir => dirGroups.get(dir)!);
+};
+
+// Units that chunk packing keeps together where it can: directories, or import cycles in dependency order
+const orderGroups = (files: ProcessedFile[], order?: FileOrder): ProcessedFile[][] =>
+  order === 'dependencies' ? orderByDependencies(groupByDirectory(files).flat()) : groupByDirectory(files);
+
+export const generateLLMOutput = (files: ProcessedFile[], options: OutputOptions = { includeSummaries: true }): string => {
+  const formatter = resolveFormatter(options.format, options.template);
+  const selected = files.filter(f => f.selected);
+  const unordered = selected.filter(f => !f.asset);
+  // Same order as generateChunks, so single and split output list the selection identically
+  const textFiles = orderGroups(unordered, options.order).flat();
+  const assets = selected.filter(f => f.asset);
+  if (selected.length === 0 && !options.sections?.length) return '';
+
+  const sections = options.sections || [];
+  const items = [
+    ...(options.preamble ? [buildPreamble([...textFiles, ...assets], !!options.includeSummaries), ...sections] : sections).map(formatter.section),
+    ...textFiles.map((f, i) => formatter.file(prepareContent(f, options), i + 1, options.includeSummaries ? f.summary?.trim() : undefined)),
+  ];
+  // Binary assets are listed once by path and descriptor instead of as file blocks
+  if (assets.length > 0) items.push(formatter.assets(assets));
+
+  return formatter.document(items);
+};
+
+export interface OutputCosts {
+  files: Record<string, number>; // Tokens each file adds to the output when selected, wrapper included
+  overhead: number; // Document wrapper, project overview and sections for the current selection
+}
+
+// Per-file cost under the current output options, for every file so unselected ones can be weighed too
+export const measureOutputCosts = (files: ProcessedFile[], options: OutputOptions = { includeSummaries: true }): OutputCosts => {
+  const formatter = resolveFormatter(options.format, options.template);
+  const count = options.countTokens || estimateTokens;
+  const costs: Record<string, number> = {};
+  files.forEach((f, i) => {
+    costs[f.path] = count(f.asset
+      ? formatter.assets([f])
+      : formatter.file(prepareContent(f, options), i + 1, options.includeSummaries ? f.summary?.trim() : undefined));
+  });
+
+  const selected = files.filter(f => f.selected);
+  const sections = options.sections || [];
+  const leading = options.preamble && selected.length > 0
+    ? [buildPreamble([...selected.filter(f => !f.asset), ...selected.filter(f => f.asset)], !!options.includeSummaries), ...sections]
+    : sections;
+  const overhead = count(formatter.document([''])) + leading.reduce((acc, s) => acc + count(formatter.section(s)), 0);
+  return { files: costs, overhead };
 };
 
+interface PackedChunk {
+  items: string[];
+  contents: string[]; // File paths (or a short label) for the part header
+  paths: string[]; // Files in the chunk, for the preamble's file index
+  tokens: number;
+}
+
+interface ChunkEntry {
+  item: string;
+  path: string;
+  label?: string; // Names a piece of a split file in the part header
+  tokens: number;
+}
+
+// Lists the directories a part covers, e.g. "src/components/, src/hooks/ (+2 dirs, 14 files)"
+const describePart = (chunk: PackedChunk) => {
+  const dirs = Array.from(new Set(chunk.contents.map(p => p.includes('/') ? `${p.substring(0, p.lastIndexOf('/'))}/` : p)));
+  const more = dirs.length > 3 ? ` (+${dirs.length - 3} dirs, ${chunk.contents.length} entries)` : '';
+  return `${dirs.slice(0, 3).join(', ')}${more}`;
+};
+
+const buildPartHeader = (chunks: PackedChunk[], index: number): OutputSection => {
+  const others = chunks
+    .map((chunk, i) => i === index ? null : `${i + 1}: ${describePart(chunk)}`)
+    .filter((line): line is string => line !== null);
+  return {
+    name: 'PART',
+    label: `${index + 1} of ${chunks.length}`,
+    body: [`This part: ${chunks[index].contents.join(', ')}`, ...(others.length > 0 ? [`Other parts: ${others.join('; ')}`] : [])].join('\n'),
+  };
+};
+
+// Start of the message thrown when the output cannot be packed within the limit (e.g. a limit
+// smaller than the part headers themselves); callers show it instead of retrying
+export const CHUNK_LIMIT_ERROR = 'Output does not fit the token limit';
+
+const limitError = (detail: string) => new Error(`${CHUNK_LIMIT_ERROR}: ${detail}`);
+
+// Splitting into pieces smaller than this would bury the content under part headers
+const MIN_PIECE_TOKENS = 32;
+
 /**
  * Intelligent Chunking Strategy:
  * 1. Groups files by directory.
  * 2. Prioritizes Root directory files (e.g. README, package.json) to appear first for context.
  * 3. Sorts directories naturally to ensure tree-traversal order (coherence).
+ *    In dependency order the groups are import cycles (usually single files) instead, leaves first.
  * 4. Atomic packing: tries to fit whole directory groups.
- * 5. Overflow handling: splits directories if needed.
+ * 5. Overflow handling: splits directories if needed, and files bigger than a whole chunk
+ *    at declaration boundaries (see utils/fileSplitting), so no chunk exceeds the limit.
+ * Leading sections get chunks of their own (split like files when too big), and every chunk is a complete
+ * document in the active format. A chunk over the limit is never returned: generateChunks throws instead.
+ * With the preamble enabled each chunk also opens with a header naming its files and where the rest are.
  */
 export const generateChunks = (files: ProcessedFile[], tokenLimit: number, options: OutputOptions = { includeSummaries: true }): string[] => {
-    const chunks: string[] = [];
-    
-    // Helper to format a file string
-    const formatFile = (f: ProcessedFile) => {
-        let content = f.content;
-        if (f.summary && options.includeSummaries) {
-             const [prefix, suffix] = getCommentWrapper(f.name);
-             const start = prefix ? `${prefix} SUMMARY: ` : 'SUMMARY: ';
-             const end = suffix ? ` ${suffix}` : '';
-             content = `${start}${f.summary.trim()}${end}\n${content}`;
+    const formatter = resolveFormatter(options.format, options.template);
+    const count = options.countTokens || estimateTokens;
+    let fileIndex = 0;
+
+    const selectedFiles = files.filter(f => f.selected && !f.asset);
+    const assets = files.filter(f => f.selected && f.asset);
+    const sections = options.sections || [];
+    if (selectedFiles.length === 0 && assets.length === 0 && sections.length === 0) return [];
+
+    // Each file is also named in its part header
+    const headerCost = (label: string) => options.preamble ? count(`${label}, `) : 0;
+
+    // Format once up front; packing may run again when part headers need more room
+    const formatted = orderGroups(selectedFiles, options.order).map(group => group.map(f => {
+        const prepared = prepareWithLines(f, options);
+        const index = ++fileIndex;
+        const summary = options.includeSummaries ? f.summary?.trim() : undefined;
+        const item = formatter.file(prepared.file, index, summary);
+        return { prepared, index, summary, entry: { item, path: f.path, tokens: count(item) + headerCost(f.path) } as ChunkEntry };
+    }));
+    const assetSection = assets.length > 0 ? formatter.assets(assets) : '';
+
+    // A file bigger than the budget becomes pieces labelled with their part and line range.
+    // Pieces are sized from per-line counts, which only approximate the formatted piece, so the
+    // target shrinks by the overshoot until every piece fits
+    const splitFile = ({ prepared, index, summary }: (typeof formatted)[number][number], budget: number): ChunkEntry[] => {
+        const { file, source, lineNumbers } = prepared;
+        const sourceLine = (line: number) => lineNumbers ? lineNumbers[line - 1] : line;
+        const widest: FilePiece = { index: 999, total: 999, startLine: 999999, endLine: 999999 };
+        const overhead = count(formatter.file(withContent(file, '', count), index, summary, widest)) + headerCost(`${file.path} (lines 999999-999999)`);
+        let target = budget - overhead;
+        if (target < MIN_PIECE_TOKENS) throw limitError(`${file.path} cannot be split into parts of ${Math.max(0, target)} tokens`);
+        let pieces: ChunkEntry[] = [];
+        for (let attempt = 0; attempt < 4; attempt++) {
+            const split = splitContent(source, file.path, Math.max(1, target), count, file.content);
+            pieces = split.map((p, i) => {
+                const piece = { index: i + 1, total: split.length, startLine: sourceLine(p.startLine), endLine: sourceLine(p.endLine) };
+                const label = `${file.path} (lines ${piece.startLine}-${piece.endLine})`;
+                const item = formatter.file(withContent(file, p.content, count), index, i === 0 ? summary : undefined, piece);
+                return { item, path: file.path, label, tokens: count(item) + headerCost(label) };
+            });
+            const overshoot = Math.max(...pieces.map(p => p.tokens)) - budget;
+            if (overshoot <= 0 || target <= 1) break;
+            target -= overshoot;
         }
-        return `\n\n--- FILE START: ${f.path} ---\n${content}\n--- FILE END: ${f.path} ---`;
+        return pieces;
     };
 
-    const selectedFiles = files.filter(f => f.selected);
-    if (selectedFiles.length === 0) return [];
-
-    // Group by Directory
-    // Map<DirectoryPath, ProcessedFile[]>
-    const dirGroups = new Map<string, ProcessedFile[]>();
-    
-    selectedFiles.forEach(f => {
-        const lastSlash = f.path.lastIndexOf('/');
-        const dir = lastSlash === -1 ? '.' : f.path.substring(0, lastSlash);
-        if (!dirGroups.has(dir)) {
-            dirGroups.set(dir, []);
+    // Splitting depends on the budget, which shrinks when part headers need more room
+    const expanded = new Map<number, ChunkEntry[][]>();
+    const entriesFor = (budget: number): ChunkEntry[][] => {
+        if (!expanded.has(budget)) {
+            expanded.set(budget, formatted.map(group => group.flatMap(f => f.entry.tokens <= budget ? [f.entry] : splitFile(f, budget))));
         }
-        dirGroups.get(dir)!.push(f);
-    });
+        return expanded.get(budget)!;
+    };
 
-    // Sort directories.
-    // We want '.' (root) to come first.
-    // Then alphabetical case-insensitive sort for the rest.
-    const sortedDirs = Array.from(dirGroups.keys()).sort((a, b) => {
-        if (a === '.') return -1;
-        if (b === '.') return 1;
-        return a.toLowerCase().localeCompare(b.toLowerCase());
-    });
+    const pack = (budget: number): PackedChunk[] => {
+        const packed: PackedChunk[] = [];
+        let current: PackedChunk = { items: [], contents: [], paths: [], tokens: 0 };
+        const close = () => {
+            if (current.items.length > 0) packed.push(current);
+            current = { items: [], contents: [], paths: [], tokens: 0 };
+        };
+        const add = (entries: ChunkEntry[]) => {
+            entries.forEach(e => {
+                current.items.push(e.item);
+                current.contents.push(e.label ?? e.path);
+                current.paths.push(e.path);
+                current.tokens += e.tokens;
+            });
+        };
+
+        // Iterate through sorted directories
+        for (const group of entriesFor(budget)) {
+            if (group.length === 0) continue;
+
+            // Calculate total size of this group
+            const groupTotalTokens = group.reduce((acc, e) => acc + e.tokens, 0);
+
+            // Scenario 1: Whole directory fits in remaining space of current chunk
+            if (current.tokens + groupTotalTokens <= budget) {
+                add(group);
+                continue;
+            }
+
+            // Scenario 2: Directory is bigger than remaining space.
+            // If current chunk has meaningful data, close it and start fresh.
+            close();
 
-    let currentChunk = "";
-    let currentTokens = 0;
-
-    // Iterate through sorted directories
-    for (const dir of sortedDirs) {
-        const groupFiles = dirGroups.get(dir)!;
-        if (groupFiles.length === 0) continue;
-        
-        // Calculate total size of this group
-        const groupStrings = groupFiles.map(formatFile);
-        const groupTotalTokens = groupStrings.reduce((acc, str) => acc + estimateTokens(str), 0);
-        
-        // Scenario 1: Whole directory fits in remaining space of current chunk
-        if (currentTokens + groupTotalTokens <= tokenLimit) {
-            currentChunk += groupStrings.join('');
-            currentTokens += groupTotalTokens;
-            continue;
+            // Scenario 3: Check if whole directory fits in a FRESH chunk
+            if (groupTotalTokens <= budget) {
+                add(group);
+                continue;
+            }
+
+            // Scenario 4: Directory is huge. Even a fresh chunk can't hold it all.
+            // We must split the directory file by file; oversized files already arrive as pieces that fit.
+            for (const entry of group) {
+                // If current chunk has content, push it
+                if (current.tokens + entry.tokens > budget) close();
+                add([entry]);
+            }
         }
 
-        // Scenario 2: Directory is bigger than remaining space.
-        // If current chunk has meaningful data, close it and start fresh.
-        if (currentChunk.length > 0) {
-            chunks.push(currentChunk);
-            currentChunk = "";
-            currentTokens = 0;
+        // The asset list goes last, in its own chunk if it doesn't fit the remaining space
+        if (assetSection) {
+            const assetTokens = count(assetSection);
+            if (current.tokens + assetTokens > budget) close();
+            add([{ item: assetSection, path: `${assets.length} asset${assets.length === 1 ? '' : 's'}`, tokens: assetTokens }]);
         }
 
-        // Scenario 3: Check if whole directory fits in a FRESH chunk
-        if (groupTotalTokens <= tokenLimit) {
-             currentChunk += groupStrings.join('');
-             currentTokens += groupTotalTokens;
-             continue;
+        close();
+        return packed;
+    };
+
+    // Wrapper markup (e.g. <documents>) is paid once per chunk; templates may render a different
+    // header or footer for the first, middle and last part, and part numbers can run to three digits
+    const wrapperTokens = Math.max(...[{ index: 1, total: 1 }, { index: 1, total: 999 }, { index: 998, total: 999 }, { index: 999, total: 999 }]
+        .map(part => count(formatter.document([''], part))));
+    // Lowered when the assembled parts come out bigger than their pieces added up (see assemble)
+    let budget = tokenLimit - wrapperTokens;
+    const headerTokens = (all: PackedChunk[], chunk: PackedChunk) =>
+        options.preamble ? count(formatter.section(buildPartHeader(all, all.indexOf(chunk)))) : 0;
+
+    // Part headers grow with the number of parts; repack until every part fits with its header
+    const packFiles = (leading: PackedChunk[]): PackedChunk[] => {
+        let packed = pack(budget);
+        let reserve = 0;
+        for (let attempt = 0; attempt < 8 && options.preamble; attempt++) {
+            const all = [...leading, ...packed];
+            const overshoot = Math.max(0, ...packed.map(chunk => chunk.tokens + headerTokens(all, chunk) - budget));
+            if (overshoot === 0) break;
+            reserve += overshoot;
+            if (budget - reserve < MIN_PIECE_TOKENS) throw limitError('part headers leave no room for files');
+            packed = pack(budget - reserve);
         }
+        return packed;
+    };
 
-        // Scenario 4: Directory is huge. Even a fresh chunk can't hold it all.
-        // We must split the directory file by file.
-        for (const fileStr of groupStrings) {
-            const fileTokens = estimateTokens(fileStr);
+    // A section too big for a chunk is split like a file, each piece labelled with its part
+    const splitSection = (section: OutputSection, sectionBudget: number): ChunkEntry[] => {
+        const whole = formatter.section(section);
+        const name = section.name.toLowerCase();
+        if (count(whole) <= sectionBudget) return [{ item: whole, path: name, tokens: count(whole) }];
+        const labelled = (body: string, index: number, total: number) =>
+            formatter.section({ ...section, label: `${section.label ? `${section.label}, ` : ''}part ${index}/${total}`, body });
+        let target = sectionBudget - count(labelled('', 999, 999));
+        if (target < MIN_PIECE_TOKENS) throw limitError(`the ${name} cannot be split into parts of ${Math.max(0, target)} tokens`);
+        let pieces: ChunkEntry[] = [];
+        for (let attempt = 0; attempt < 4; attempt++) {
+            const split = splitContent(section.body, name, Math.max(1, target), count);
+            pieces = split.map((p, i) => {
+                const item = labelled(p.content, i + 1, split.length);
+                return { item, path: name, tokens: count(item) };
+            });
+            const overshoot = Math.max(...pieces.map(p => p.tokens)) - sectionBudget;
+            if (overshoot <= 0 || target <= 1) break;
+            target -= overshoot;
+        }
+        return pieces;
+    };
 
-            if (currentTokens + fileTokens > tokenLimit) {
-                // If current chunk has content, push it
-                if (currentChunk.length > 0) {
-                    chunks.push(currentChunk);
-                    currentChunk = "";
-                    currentTokens = 0;
-                }
+    // The overview lists the part holding each file, so it is written once the files are packed
+    const leadingSections = (all: PackedChunk[]): OutputSection[] => {
+        if (!options.preamble) return sections;
+        const partOf = new Map<string, number[]>();
+        const addPart = (path: string, part: number) => {
+            const parts = partOf.get(path) || [];
+            if (!parts.includes(part)) partOf.set(path, [...parts, part]);
+        };
+        all.forEach((chunk, i) => chunk.paths.forEach(path => addPart(path, i + 1)));
+        const assetPart = all.findIndex(chunk => chunk.items.includes(assetSection));
+        assets.forEach(f => addPart(f.path, assetPart + 1));
+
+        const byPath = new Map<string, ProcessedFile>(selectedFiles.map(f => [f.path, f]));
+        const ordered = Array.from(new Set(all.flatMap(chunk => chunk.paths)))
+            .filter(path => byPath.has(path))
+            .map(path => byPath.get(path)!);
+        return [buildPreamble([...ordered, ...assets], !!options.includeSummaries, partOf), ...sections];
+    };
+
+    // Leading sections (overview, git diff) get chunks of their own so the files that follow can be packed normally
+    const packLeading = (entries: ChunkEntry[], sectionBudget: number): PackedChunk[] => {
+        const packed: PackedChunk[] = [];
+        entries.forEach(e => {
+            let current = packed[packed.length - 1];
+            if (!current || current.tokens + e.tokens > sectionBudget) {
+                current = { items: [], contents: [], paths: [], tokens: 0 };
+                packed.push(current);
+            }
+            current.items.push(e.item);
+            if (!current.contents.includes(e.path)) current.contents.push(e.path);
+            current.tokens += e.tokens;
+        });
+        return packed;
+    };
+
+    const assemble = (): string[] => {
+        const names = [...(options.preamble ? ['project overview'] : []), ...sections.map(s => s.name.toLowerCase())];
+        let leading: PackedChunk[] = names.length > 0 ? [{ items: [], contents: names, paths: [], tokens: 0 }] : [];
+        let packed = packFiles(leading);
+        // How many chunks the leading sections take changes the part numbers they list, and their
+        // headers change with what they hold; repack until both settle
+        let headerReserve = 0;
+        for (let attempt = 0; attempt < 8 && leading.length > 0; attempt++) {
+            const all = [...leading, ...packed];
+            const sectionBudget = budget - Math.max(headerReserve, headerTokens(all, all[0]));
+            const next = packLeading(leadingSections(all).flatMap(section => splitSection(section, sectionBudget)), sectionBudget);
+            const resized = next.length !== leading.length;
+            leading = next;
+            if (resized) {
+                packed = packFiles(leading);
+                continue;
             }
-            
-            currentChunk += fileStr;
-            currentTokens += fileTokens;
+            const withNext = [...leading, ...packed];
+            const overshoot = Math.max(0, ...leading.map(chunk => chunk.tokens + headerTokens(withNext, chunk) - budget));
+            if (overshoot === 0) break;
+            headerReserve = budget - sectionBudget + overshoot;
         }
-    }
 
-    if (currentChunk.length > 0) {
-        chunks.push(currentChunk);
-    }
+        const all = [...leading, ...packed];
+        const header = (chunk: PackedChunk) => options.preamble ? [formatter.section(buildPartHeader(all, all.indexOf(chunk)))] : [];
+        return all.map((chunk, i) => formatter.document([...header(chunk), ...chunk.items], { index: i + 1, total: all.length }));
+    };
 
-    return chunks;
-};
\ No newline at end of file
+    // Token counts don't add up exactly once pieces are joined (BPE merges across the seams), so a
+    // part can come out a little over; repack with the budget lowered by the overshoot, and refuse
+    // rather than hand out a part over the limit if that doesn't settle it
+    for (let attempt = 0; ; attempt++) {
+        const chunks = assemble();
+        const sizes = chunks.map(chunk => count(chunk));
+        const overshoot = Math.max(0, ...sizes.map(tokens => tokens - tokenLimit));
+        if (overshoot === 0) return chunks;
+        const worst = sizes.indexOf(Math.max(...sizes));
+        if (attempt === 3 || budget - overshoot < MIN_PIECE_TOKENS) {
+            throw limitError(`part ${worst + 1} of ${chunks.length} needs ${sizes[worst].toLocaleString()} tokens, the limit is ${tokenLimit.toLocaleString()}`);
+        }
+        budget -= overshoot;
+    }
+};
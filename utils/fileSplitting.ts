@@ -0,0 +1,165 @@
+import { getStripFamily, maskLiterals } from './commentStripping';
+
+/**
+ * Splits a file that is too large for one chunk into pieces that each fit the budget.
+ * Cuts prefer the shallowest syntactic boundary available: top-level declarations first,
+ * then members of classes / impls / modules, then single statements, and only then
+ * arbitrary lines (or, for a single huge line, characters). Comments, decorators and
+ * attributes stay attached to the declaration they precede.
+ */
+
+export interface ContentPiece {
+  content: string;
+  startLine: number; // 1-based, inclusive, into the lines of the content given
+  endLine: number;
+}
+
+const BRACE_FAMILIES = new Set(['js', 'c', 'go', 'rust', 'css']);
+const OPENERS = '{([';
+const CLOSERS = '})]';
+// Deeper than this, declarations are rare enough that plain line packing does as well
+const MAX_LEVEL = 6;
+const NONE = Infinity;
+
+// Bracket depth at the start of every line of masked content
+const lineDepths = (masked: string[]): number[] => {
+  const depths: number[] = [];
+  let depth = 0;
+  masked.forEach(line => {
+    depths.push(depth);
+    for (const ch of line) {
+      if (OPENERS.includes(ch)) depth++;
+      else if (CLOSERS.includes(ch)) depth = Math.max(0, depth - 1);
+    }
+  });
+  return depths;
+};
+
+// Lines continuing an expression rather than starting a statement
+const CONTINUATION = /^(?:[})\].?:+\-*/%|&=,<>]|\b(?:as|extends|implements|where|else|catch|finally|while)\b)/;
+const STATEMENT_END = /[;{},]$/;
+
+// Brace languages: a line opens a unit at its bracket depth when the previous code line ended one
+const braceLevels = (masked: string[]): number[] => {
+  const depths = lineDepths(masked);
+  let previous = '';
+  return masked.map((line, i) => {
+    const code = line.trim();
+    if (!code) return NONE;
+    const level = i === 0 || STATEMENT_END.test(previous) ? depths[i] : NONE;
+    previous = code;
+    return CONTINUATION.test(code) ? NONE : level;
+  });
+};
+
+const indentOf = (line: string) => line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+
+// Python and markup: indentation is the structure; lines inside open brackets continue the one above
+const indentLevels = (raw: string[], masked: string[]): number[] => {
+  const depths = lineDepths(masked);
+  const indents = raw.map(line => line.trim() ? indentOf(line) : 0);
+  const unit = Math.min(...indents.filter(n => n > 0), Infinity);
+  let continued = false;
+  return masked.map((line, i) => {
+    const code = line.trim();
+    if (!code) return NONE;
+    const level = depths[i] > 0 || continued || CLOSERS.includes(code[0]) ? NONE : unit === Infinity ? 0 : Math.floor(indents[i] / unit);
+    continued = code.endsWith('\\');
+    return level;
+  });
+};
+
+// Anything else: diff files and hunks, markdown headings by rank, then paragraphs (lines after a blank line)
+const textLevels = (raw: string[]): number[] =>
+  raw.map((line, i) => {
+    if (line.startsWith('diff --git ')) return 0;
+    if (line.startsWith('@@ ')) return 1;
+    const heading = line.match(/^(#{1,6})\s/);
+    if (heading) return heading[1].length - 1;
+    return i > 0 && !raw[i - 1].trim() && line.trim() ? MAX_LEVEL : NONE;
+  });
+
+// Moves each boundary up over the comment, decorator and attribute lines directly above it
+const attachLeadingLines = (levels: number[], raw: string[], masked: string[]): number[] => {
+  const result = [...levels];
+  levels.forEach((level, i) => {
+    if (level === NONE) return;
+    let start = i;
+    while (start > 0 && raw[start - 1].trim() && result[start - 1] === NONE) {
+      const code = masked[start - 1].trim();
+      if (code && !code.startsWith('@') && !code.startsWith('#[')) break;
+      start--;
+    }
+    if (start === i) return;
+    result[i] = NONE;
+    result[start] = Math.min(result[start], level);
+  });
+  return result;
+};
+
+const boundaryLevels = (content: string, path: string, raw: string[]): number[] => {
+  const family = getStripFamily(path);
+  if (!family) return textLevels(raw);
+  const masked = maskLiterals(content, path).split('\n');
+  const levels = BRACE_FAMILIES.has(family) ? braceLevels(masked) : indentLevels(raw, masked);
+  return attachLeadingLines(levels, raw, masked);
+};
+
+interface Range {
+  start: number; // 0-based line index, inclusive
+  end: number; // Exclusive
+}
+
+// A single line over budget is cut into roughly even character slices
+const splitLine = (line: string, lineNumber: number, tokens: number, maxTokens: number): ContentPiece[] => {
+  const size = Math.max(1, Math.floor(line.length * maxTokens / tokens));
+  const pieces: ContentPiece[] = [];
+  for (let i = 0; i < line.length; i += size) pieces.push({ content: line.slice(i, i + size), startLine: lineNumber, endLine: lineNumber });
+  return pieces;
+};
+
+/**
+ * Pieces of at most `maxTokens` (as measured line by line with `count`) covering the whole
+ * content in order. Boundaries are found in `content`; the text of each piece is taken from
+ * `display` when given, which must have the same lines (e.g. the content with line numbers).
+ */
+export const splitContent = (
+  content: string,
+  path: string,
+  maxTokens: number,
+  count: (text: string) => number,
+  display = content
+): ContentPiece[] => {
+  const raw = content.split('\n');
+  const lines = display.split('\n');
+  const levels = boundaryLevels(content, path, raw);
+  const prefix = [0];
+  lines.forEach((line, i) => prefix.push(prefix[i] + count(`${line}\n`)));
+  const tokensIn = (r: Range) => prefix[r.end] - prefix[r.start];
+
+  // Consecutive ranges are joined while the result still fits
+  const merge = (ranges: Range[]): Range[] => ranges.reduce<Range[]>((acc, r) => {
+    const last = acc[acc.length - 1];
+    if (last && tokensIn({ start: last.start, end: r.end }) <= maxTokens) last.end = r.end;
+    else acc.push({ ...r });
+    return acc;
+  }, []);
+
+  const split = (range: Range, level: number): Range[] => {
+    if (tokensIn(range) <= maxTokens || range.end - range.start === 1) return [range];
+    if (level > MAX_LEVEL) {
+      return merge(Array.from({ length: range.end - range.start }, (_, i) => ({ start: range.start + i, end: range.start + i + 1 })));
+    }
+    const cuts: number[] = [];
+    for (let i = range.start + 1; i < range.end; i++) if (levels[i] <= level) cuts.push(i);
+    if (cuts.length === 0) return split(range, level + 1);
+    const bounds = [range.start, ...cuts, range.end];
+    return merge(bounds.slice(1).flatMap((end, i) => split({ start: bounds[i], end }, level + 1)));
+  };
+
+  return split({ start: 0, end: lines.length }, 0).flatMap(r => {
+    const tokens = tokensIn(r);
+    if (r.end - r.start === 1 && tokens > maxTokens) return splitLine(lines[r.start], r.start + 1, tokens, maxTokens);
+    return [{ content: lines.slice(r.start, r.end).join('\n'), startLine: r.start + 1, endLine: r.end }];
+  });
+};
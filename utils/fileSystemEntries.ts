@@ -0,0 +1,71 @@
+// Helpers for turning drag-and-drop payloads into the same File[] shape that
+// <input webkitdirectory> produces, including webkitRelativePath.
+
+// webkitRelativePath is a read-only getter on File.prototype, so shadow it on the instance
+export const withRelativePath = (file: File, relativePath: string): File => {
+  Object.defineProperty(file, 'webkitRelativePath', {
+    value: relativePath,
+    configurable: true,
+  });
+  return file;
+};
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns results in batches (100 per call in Chromium) until an empty array signals the end
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  return entries;
+};
+
+const collectEntry = async (entry: FileSystemEntry, out: File[]): Promise<void> => {
+  if (entry.isFile) {
+    try {
+      const file = await readFile(entry as FileSystemFileEntry);
+      // fullPath is rooted at the drop ("/project/src/a.ts"), which keeps each dropped root's prefix
+      out.push(withRelativePath(file, entry.fullPath.replace(/^\/+/, '')));
+    } catch (e) {
+      console.warn(`Failed to read dropped file ${entry.fullPath}`, e);
+    }
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await collectEntry(child, out);
+    }
+  }
+};
+
+/**
+ * Recursively collects every file from a drop, supporting any mix of folders and loose files.
+ * Falls back to the flat dataTransfer.files list when the entries API is unavailable.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be captured synchronously: the item list is cleared once the drop handler yields
+  const entries: FileSystemEntry[] = [];
+  const items = Array.from(dataTransfer.items || []);
+  for (const item of items) {
+    if (item.kind !== 'file') continue;
+    const entry = typeof item.webkitGetAsEntry === 'function' ? item.webkitGetAsEntry() : null;
+    if (entry) entries.push(entry);
+  }
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, files);
+  }
+  return files;
+};
@@ -0,0 +1,498 @@
+import { FileChangeStatus } from '../types';
+import { inflateZlib } from './inflate';
+import { decodeText } from './textDecoding';
+import { createUnifiedDiff } from './unifiedDiff';
+import { OutputSection } from './outputFormats';
+
+/** The files of an uploaded `.git` directory, keyed by path inside it (e.g. "refs/heads/main"). */
+export interface GitDirectory {
+  root: string; // Upload path prefix of the work tree, e.g. "my-project/" or ""
+  files: Map<string, File>;
+}
+
+export interface GitCommit {
+  sha: string;
+  tree: string;
+  parents: string[];
+  author: string;
+  authoredAt: number;  // Unix seconds
+  committedAt: number; // Unix seconds
+  subject: string;
+  message: string;
+}
+
+export interface GitTreeEntry {
+  sha: string;
+  mode: string;
+}
+
+export interface GitChange {
+  path: string; // Relative to the repository root
+  status: FileChangeStatus;
+  oldSha?: string;
+}
+
+export interface GitRepository {
+  root: string;
+  head: { ref: string | null; sha: string | null };
+  readCommit: (sha: string) => Promise<GitCommit>;
+  readTreeFiles: (treeSha: string) => Promise<Map<string, GitTreeEntry>>;
+  readBlob: (sha: string) => Promise<Uint8Array>;
+  log: (limit: number) => Promise<GitCommit[]>;
+}
+
+type ObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+interface GitObject {
+  type: ObjectType;
+  data: Uint8Array;
+}
+
+interface PackIndex {
+  name: string;
+  pack: File;
+  fanout: Uint32Array;
+  shas: Uint8Array;
+  offsets: DataView;
+  largeOffsets: DataView;
+}
+
+const OBJECT_TYPES: Record<number, ObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+const OBJECT_CACHE_LIMIT = 2000;
+// Working-tree files above this are not hashed; comparing them would mean loading them whole
+const MAX_HASHED_FILE_SIZE = 32 * 1024 * 1024;
+const SUBMODULE_MODE = '160000';
+const SYMLINK_MODE = '120000';
+
+const textDecoder = new TextDecoder('utf-8');
+
+const toHex = (bytes: Uint8Array): string => {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) hex += bytes[i].toString(16).padStart(2, '0');
+  return hex;
+};
+
+const fromHex = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return bytes;
+};
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+/**
+ * Finds the shallowest `.git` directory among uploaded files. Nested repositories and
+ * submodules (whose `.git` is a file) are ignored.
+ */
+export const collectGitDirectory = (files: File[]): GitDirectory | null => {
+  let found: GitDirectory | null = null;
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    const match = /^((?:[^/]+\/)*?)\.git\/(.+)$/.exec(path);
+    if (!match) continue;
+    const [, root, inner] = match;
+    if (!found || root.length < found.root.length) found = { root, files: new Map() };
+    if (root === found.root) found.files.set(inner, file);
+  }
+  return found && found.files.has('HEAD') ? found : null;
+};
+
+// --- Pack indexes (version 2) ---
+
+const parsePackIndex = (name: string, pack: File, data: Uint8Array): PackIndex | null => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(0) !== 0xff744f63 || view.getUint32(4) !== 2) {
+    console.warn(`Unsupported pack index format: ${name}`);
+    return null;
+  }
+  const fanout = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) fanout[i] = view.getUint32(8 + i * 4);
+  const count = fanout[255];
+  const shasStart = 8 + 256 * 4;
+  const offsetsStart = shasStart + count * 20 + count * 4; // SHA table, then CRC32 table
+  const largeStart = offsetsStart + count * 4;
+  return {
+    name,
+    pack,
+    fanout,
+    shas: data.subarray(shasStart, shasStart + count * 20),
+    offsets: new DataView(data.buffer, data.byteOffset + offsetsStart, count * 4),
+    largeOffsets: new DataView(data.buffer, data.byteOffset + largeStart, Math.max(0, data.byteLength - largeStart - 40)),
+  };
+};
+
+const findInPack = (index: PackIndex, sha: Uint8Array): number | null => {
+  let lo = sha[0] === 0 ? 0 : index.fanout[sha[0] - 1];
+  let hi = index.fanout[sha[0]];
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    let cmp = 0;
+    for (let i = 0; i < 20 && cmp === 0; i++) cmp = index.shas[mid * 20 + i] - sha[i];
+    if (cmp === 0) {
+      const offset = index.offsets.getUint32(mid * 4);
+      if (!(offset & 0x80000000)) return offset;
+      const large = (offset & 0x7fffffff) * 8;
+      return index.largeOffsets.getUint32(large) * 2 ** 32 + index.largeOffsets.getUint32(large + 4);
+    }
+    if (cmp < 0) lo = mid + 1;
+    else hi = mid;
+  }
+  return null;
+};
+
+// Upper bound on the deflated size of `size` bytes (stored blocks in the worst case)
+const deflateBound = (size: number) => size + Math.ceil(size / 16000) * 5 + 64;
+
+const applyDelta = (base: Uint8Array, delta: Uint8Array): Uint8Array => {
+  let p = 0;
+  const varint = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[p++];
+      result += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return result;
+  };
+
+  if (varint() !== base.length) throw new Error('Delta base size mismatch');
+  const out = new Uint8Array(varint());
+  let o = 0;
+
+  while (p < delta.length) {
+    const op = delta[p++];
+    if (op & 0x80) {
+      // Copy from base: bits 0-3 select offset bytes, bits 4-6 select size bytes
+      let offset = 0;
+      let size = 0;
+      for (let i = 0; i < 4; i++) if (op & (1 << i)) offset += delta[p++] * 2 ** (8 * i);
+      for (let i = 0; i < 3; i++) if (op & (0x10 << i)) size += delta[p++] * 2 ** (8 * i);
+      if (size === 0) size = 0x10000;
+      out.set(base.subarray(offset, offset + size), o);
+      o += size;
+    } else if (op > 0) {
+      out.set(delta.subarray(p, p + op), o);
+      o += op;
+      p += op;
+    } else {
+      throw new Error('Invalid delta opcode');
+    }
+  }
+  return out;
+};
+
+// --- Object parsing ---
+
+const parseCommit = (sha: string, data: Uint8Array): GitCommit => {
+  const text = textDecoder.decode(data);
+  const split = text.indexOf('\n\n');
+  const headers = split === -1 ? text : text.substring(0, split);
+  const message = split === -1 ? '' : text.substring(split + 2);
+
+  const commit: GitCommit = { sha, tree: '', parents: [], author: '', authoredAt: 0, committedAt: 0, subject: '', message };
+  for (const line of headers.split('\n')) {
+    // Continuation lines of multi-line headers (e.g. gpgsig) start with a space
+    if (line.startsWith(' ')) continue;
+    const space = line.indexOf(' ');
+    const key = line.substring(0, space);
+    const value = line.substring(space + 1);
+    if (key === 'tree') commit.tree = value;
+    else if (key === 'parent') commit.parents.push(value);
+    else if (key === 'author' || key === 'committer') {
+      const match = /^(.*?) <[^>]*> (\d+)/.exec(value);
+      if (!match) continue;
+      if (key === 'author') {
+        commit.author = match[1];
+        commit.authoredAt = Number(match[2]);
+      } else {
+        commit.committedAt = Number(match[2]);
+      }
+    }
+  }
+  commit.subject = message.split('\n')[0].trim();
+  return commit;
+};
+
+const parseTree = (data: Uint8Array): { mode: string; name: string; sha: string }[] => {
+  const entries: { mode: string; name: string; sha: string }[] = [];
+  let p = 0;
+  while (p < data.length) {
+    const space = data.indexOf(0x20, p);
+    const nul = data.indexOf(0, space);
+    const mode = textDecoder.decode(data.subarray(p, space));
+    const name = textDecoder.decode(data.subarray(space + 1, nul));
+    entries.push({ mode, name, sha: toHex(data.subarray(nul + 1, nul + 21)) });
+    p = nul + 21;
+  }
+  return entries;
+};
+
+/**
+ * Opens an uploaded `.git` directory for reading. Objects are read lazily from loose files
+ * and packfiles; nothing beyond refs and pack indexes is loaded up front.
+ */
+export const openGitRepository = async (dir: GitDirectory): Promise<GitRepository> => {
+  const { files } = dir;
+  const cache = new Map<string, GitObject>();
+
+  const remember = (key: string, object: GitObject) => {
+    if (cache.size >= OBJECT_CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+    cache.set(key, object);
+    return object;
+  };
+
+  const packs: PackIndex[] = [];
+  for (const [path, file] of files) {
+    const match = /^objects\/pack\/(pack-[0-9a-f]+)\.idx$/.exec(path);
+    const pack = match && files.get(`objects/pack/${match[1]}.pack`);
+    if (!match || !pack) continue;
+    const index = parsePackIndex(match[1], pack, await readBytes(file));
+    if (index) packs.push(index);
+  }
+
+  const packedRefs = new Map<string, string>();
+  const packedRefsFile = files.get('packed-refs');
+  if (packedRefsFile) {
+    for (const line of (await packedRefsFile.text()).split('\n')) {
+      if (!line || line.startsWith('#') || line.startsWith('^')) continue;
+      const [sha, ref] = line.trim().split(' ');
+      if (sha && ref) packedRefs.set(ref, sha);
+    }
+  }
+
+  const resolveRef = async (ref: string, depth = 0): Promise<string | null> => {
+    if (depth > 5) return null;
+    const file = files.get(ref);
+    if (!file) return packedRefs.get(ref) || null;
+    const value = (await file.text()).trim();
+    return value.startsWith('ref: ') ? resolveRef(value.substring(5), depth + 1) : value;
+  };
+
+  const readPackObject = async (index: PackIndex, offset: number): Promise<GitObject> => {
+    const key = `${index.name}@${offset}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    // Header: type and inflated size as a varint, then the delta base reference if any
+    const header = await readBytes(index.pack.slice(offset, offset + 48));
+    let p = 0;
+    let byte = header[p++];
+    const type = (byte >> 4) & 7;
+    let size = byte & 0x0f;
+    let shift = 4;
+    while (byte & 0x80) {
+      byte = header[p++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    }
+
+    let baseOffset: number | null = null;
+    let baseSha: string | null = null;
+    if (type === OFS_DELTA) {
+      byte = header[p++];
+      let distance = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = header[p++];
+        distance = (distance + 1) * 128 + (byte & 0x7f);
+      }
+      baseOffset = offset - distance;
+    } else if (type === REF_DELTA) {
+      baseSha = toHex(header.subarray(p, p + 20));
+      p += 20;
+    }
+
+    const start = offset + p;
+    const { data } = inflateZlib(await readBytes(index.pack.slice(start, start + deflateBound(size))), size);
+
+    if (baseOffset !== null || baseSha !== null) {
+      const resolved = baseOffset !== null ? await readPackObject(index, baseOffset) : await readObject(baseSha!);
+      return remember(key, { type: resolved.type, data: applyDelta(resolved.data, data) });
+    }
+    const objectType = OBJECT_TYPES[type];
+    if (!objectType) throw new Error(`Unknown pack object type ${type}`);
+    return remember(key, { type: objectType, data });
+  };
+
+  const readObject = async (sha: string): Promise<GitObject> => {
+    const cached = cache.get(sha);
+    if (cached) return cached;
+
+    const loose = files.get(`objects/${sha.substring(0, 2)}/${sha.substring(2)}`);
+    if (loose) {
+      const { data } = inflateZlib(await readBytes(loose));
+      const nul = data.indexOf(0);
+      const type = textDecoder.decode(data.subarray(0, data.indexOf(0x20))) as ObjectType;
+      return remember(sha, { type, data: data.subarray(nul + 1) });
+    }
+
+    const shaBytes = fromHex(sha);
+    for (const index of packs) {
+      const offset = findInPack(index, shaBytes);
+      if (offset !== null) return remember(sha, await readPackObject(index, offset));
+    }
+    throw new Error(`Git object ${sha} not found (shallow clone or missing pack?)`);
+  };
+
+  const readTyped = async (sha: string, type: ObjectType) => {
+    let object = await readObject(sha);
+    // Annotated tags point at the commit they tag
+    while (object.type === 'tag' && type !== 'tag') {
+      const target = /^object ([0-9a-f]{40})/.exec(textDecoder.decode(object.data));
+      if (!target) break;
+      object = await readObject(target[1]);
+    }
+    if (object.type !== type) throw new Error(`Expected ${type} ${sha}, found ${object.type}`);
+    return object.data;
+  };
+
+  const readCommit = async (sha: string) => parseCommit(sha, await readTyped(sha, 'commit'));
+
+  const readTreeFiles = async (treeSha: string) => {
+    const result = new Map<string, GitTreeEntry>();
+    const walk = async (sha: string, prefix: string) => {
+      for (const entry of parseTree(await readTyped(sha, 'tree'))) {
+        const path = prefix + entry.name;
+        if (entry.mode === '40000') await walk(entry.sha, `${path}/`);
+        else if (entry.mode !== SUBMODULE_MODE) result.set(path, { sha: entry.sha, mode: entry.mode });
+      }
+    };
+    await walk(treeSha, '');
+    return result;
+  };
+
+  const headText = (await files.get('HEAD')!.text()).trim();
+  const headRef = headText.startsWith('ref: ') ? headText.substring(5) : null;
+  const head = { ref: headRef, sha: headRef ? await resolveRef(headRef) : headText };
+
+  // Newest-first by committer date across all parents, like `git log`
+  const log = async (limit: number) => {
+    if (!head.sha) return [];
+    const result: GitCommit[] = [];
+    const seen = new Set<string>([head.sha]);
+    const queue: GitCommit[] = [await readCommit(head.sha)];
+    while (queue.length > 0 && result.length < limit) {
+      queue.sort((a, b) => b.committedAt - a.committedAt);
+      const commit = queue.shift()!;
+      result.push(commit);
+      for (const parent of commit.parents) {
+        if (seen.has(parent)) continue;
+        seen.add(parent);
+        try {
+          queue.push(await readCommit(parent));
+        } catch (e) {
+          // Shallow clones end at commits whose parents were never fetched
+          console.warn(e);
+        }
+      }
+    }
+    return result;
+  };
+
+  return {
+    root: dir.root,
+    head,
+    readCommit,
+    readTreeFiles,
+    readBlob: sha => readTyped(sha, 'blob'),
+    log,
+  };
+};
+
+// SHA-1 of "blob <size>\0<bytes>", i.e. what `git hash-object` prints
+export const hashGitBlob = async (bytes: Uint8Array): Promise<string> => {
+  const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+  const buffer = new Uint8Array(header.length + bytes.length);
+  buffer.set(header);
+  buffer.set(bytes, header.length);
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-1', buffer)));
+};
+
+/**
+ * Compares a commit's tree with working-tree files (keyed by path relative to the repo root).
+ * Tracked paths listed in `presentPaths` exist on disk but were skipped by ignore rules,
+ * so they are not reported as deleted.
+ */
+export const diffCommitWithWorkingTree = async (
+  repo: GitRepository,
+  commit: GitCommit,
+  working: Map<string, File>,
+  presentPaths: Set<string>,
+  onProgress?: (processed: number, total: number) => void
+): Promise<GitChange[]> => {
+  const tree = await repo.readTreeFiles(commit.tree);
+  const changes: GitChange[] = [];
+  let processed = 0;
+
+  for (const [path, file] of working) {
+    processed++;
+    if (processed % 100 === 0) onProgress?.(processed, working.size);
+    const entry = tree.get(path);
+    if (!entry) {
+      changes.push({ path, status: 'added' });
+      continue;
+    }
+    // Symlinks are uploaded as their targets' contents, so their blobs never match
+    if (entry.mode === SYMLINK_MODE || file.size > MAX_HASHED_FILE_SIZE) continue;
+    if (await hashGitBlob(await readBytes(file)) !== entry.sha) {
+      changes.push({ path, status: 'modified', oldSha: entry.sha });
+    }
+  }
+
+  tree.forEach((entry, path) => {
+    if (!working.has(path) && !presentPaths.has(path)) {
+      changes.push({ path, status: 'deleted', oldSha: entry.sha });
+    }
+  });
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+const shortSha = (sha: string) => sha.substring(0, 7);
+
+/**
+ * Renders changes as one unified-diff section for the LLM. Old versions come from the repository,
+ * new versions from the raw working-tree files keyed by repo path (the same map given to
+ * diffCommitWithWorkingTree), never from processed content, which may be a converter rendering
+ * or an excerpt that no commit ever held.
+ */
+export const generateGitDiffOutput = async (
+  repo: GitRepository,
+  base: GitCommit,
+  changes: GitChange[],
+  working: Map<string, File>
+): Promise<OutputSection> => {
+  const diffs: string[] = [];
+  for (const change of changes) {
+    const file = change.status === 'deleted' ? undefined : working.get(change.path);
+    if (file && file.size > MAX_HASHED_FILE_SIZE) {
+      diffs.push(`diff --git a/${change.path} b/${change.path}\nContent not shown (${Math.round(file.size / (1024 * 1024))} MB)`);
+      continue;
+    }
+    const oldDecoded = change.oldSha ? decodeText(await repo.readBlob(change.oldSha)) : null;
+    const newDecoded = file ? decodeText(await readBytes(file)) : null;
+    const oldPath = change.status === 'added' ? null : change.path;
+    const newPath = change.status === 'deleted' ? null : change.path;
+
+    if (oldDecoded?.isBinary || newDecoded?.isBinary) {
+      diffs.push(`diff --git a/${change.path} b/${change.path}\nBinary files differ`);
+      continue;
+    }
+    diffs.push(createUnifiedDiff(oldPath, newPath, oldDecoded?.content ?? '', newDecoded?.content ?? ''));
+  }
+
+  const counts = (['added', 'modified', 'deleted'] as const)
+    .map(status => `${changes.filter(c => c.status === status).length} ${status}`)
+    .join(', ');
+  return {
+    name: 'GIT DIFF',
+    label: `working tree vs ${shortSha(base.sha)}`,
+    language: 'diff',
+    body: `Base commit: ${base.sha} "${base.subject}" (${base.author}, ${new Date(base.authoredAt * 1000).toISOString()})\n` +
+      `Changed files: ${counts}\n\n` +
+      diffs.join('\n\n'),
+  };
+};
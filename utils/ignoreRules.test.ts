@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseIgnoreFile, createIgnoreMatcher, isIgnoreFile } from './ignoreRules';
+
+// Paths excluded by the given ignore files, keyed by ignore file path
+const excluded = (files: Record<string, string>, paths: string[]) => {
+  const matcher = createIgnoreMatcher(Object.entries(files).flatMap(([path, content]) => parseIgnoreFile(content, path)));
+  return paths.filter(p => matcher(p) !== null);
+};
+
+describe('parseIgnoreFile', () => {
+  it('skips comments and blank lines and keeps line numbers', () => {
+    const rules = parseIgnoreFile('# build output\n\ndist/\n\\#notes.txt\n*.log   \n', '.gitignore');
+    expect(rules.map(r => [r.pattern, r.line, r.dirOnly])).toEqual([['dist/', 3, true], ['\\#notes.txt', 4, false], ['*.log', 5, false]]);
+  });
+
+  it('relates rules to the directory of their ignore file', () => {
+    const [rule] = parseIgnoreFile('!keep.txt', 'packages/app/.ignore');
+    expect(rule).toMatchObject({ baseDir: 'packages/app', source: 'packages/app/.ignore', negate: true });
+  });
+});
+
+describe('createIgnoreMatcher', () => {
+  it('matches unanchored patterns at any depth and anchored ones from the base only', () => {
+    expect(excluded({ '.gitignore': '*.log\n/out.txt\ndocs/*.md' }, [
+      'a.log', 'src/deep/b.log', 'out.txt', 'src/out.txt', 'docs/readme.md', 'src/docs/readme.md', 'docs/sub/x.md',
+    ])).toEqual(['a.log', 'src/deep/b.log', 'out.txt', 'docs/readme.md']);
+  });
+
+  it('applies directory-only patterns to directories, not files of the same name', () => {
+    expect(excluded({ '.gitignore': 'build/' }, ['build/main.js', 'src/build/x.js', 'build'])).toEqual(['build/main.js', 'src/build/x.js']);
+  });
+
+  it('supports "**", "?" and character classes', () => {
+    expect(excluded({ '.gitignore': '**/gen/**\na/**/z.ts\nfile?.txt\nlog[0-9].txt\nv[!0-9].txt' }, [
+      'gen/x.ts', 'src/gen/y/z.ts', 'a/z.ts', 'a/b/c/z.ts', 'file1.txt', 'file10.txt', 'log7.txt', 'logx.txt', 'va.txt', 'v1.txt',
+    ])).toEqual(['gen/x.ts', 'src/gen/y/z.ts', 'a/z.ts', 'a/b/c/z.ts', 'file1.txt', 'log7.txt', 'va.txt']);
+  });
+
+  it('lets the last matching rule win, so negation re-includes files', () => {
+    expect(excluded({ '.gitignore': '*.json\n!package.json' }, ['a.json', 'package.json', 'sub/package.json'])).toEqual(['a.json']);
+  });
+
+  it('cannot re-include a file whose parent directory is excluded', () => {
+    expect(excluded({ '.gitignore': 'vendor/\n!vendor/keep.js' }, ['vendor/keep.js'])).toEqual(['vendor/keep.js']);
+    expect(excluded({ '.gitignore': 'vendor/*\n!vendor/keep.js' }, ['vendor/keep.js', 'vendor/other.js'])).toEqual(['vendor/other.js']);
+  });
+
+  it('lets deeper ignore files override shallower ones', () => {
+    const files = { '.gitignore': '*.env', 'config/.gitignore': '!local.env' };
+    expect(excluded(files, ['prod.env', 'config/local.env', 'config/prod.env', 'local.env'])).toEqual(['prod.env', 'config/prod.env', 'local.env']);
+  });
+
+  it('orders ignore files in the same directory by precedence, not by upload order', () => {
+    const files = { '.codecontextignore': '!secret.txt', '.gitignore': 'secret.txt' };
+    expect(excluded(files, ['secret.txt'])).toEqual([]);
+  });
+
+  it('keeps everything without rules', () => {
+    expect(createIgnoreMatcher([])('any/path.ts')).toBeNull();
+  });
+});
+
+describe('isIgnoreFile', () => {
+  it('recognizes ignore files by name at any depth', () => {
+    expect(['.gitignore', 'a/b/.ignore', 'x/.codecontextignore', 'gitignore', '.gitignore.bak'].map(isIgnoreFile))
+      .toEqual([true, true, true, false, false]);
+  });
+});
@@ -0,0 +1,193 @@
+// Git-compatible ignore file support (.gitignore, .ignore, .codecontextignore).
+// Implements the subset of gitignore(5) semantics that matters for uploaded trees:
+// nested files, negation, anchoring, directory-only patterns and "**".
+
+// Files listed later take precedence over earlier ones within the same directory
+export const IGNORE_FILE_NAMES = ['.gitignore', '.ignore', '.codecontextignore'];
+
+export interface IgnoreRule {
+  pattern: string;  // Original pattern text as written in the file
+  source: string;   // Path of the ignore file that declared the rule
+  line: number;     // 1-based line number inside the source file
+  baseDir: string;  // Directory the rule is relative to ('' for the upload root)
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+export type IgnoreMatcher = (path: string) => IgnoreRule | null;
+
+export const isIgnoreFile = (path: string): boolean => {
+  const name = path.split('/').pop() || '';
+  return IGNORE_FILE_NAMES.includes(name);
+};
+
+// Translates a gitignore glob (without leading "!" or trailing "/") into a regex source string
+const globToRegExpSource = (glob: string): string => {
+  let out = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const c = glob[i];
+
+    if (c === '\\' && i + 1 < glob.length) {
+      out += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i += 2;
+      continue;
+    }
+
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        const startsSegment = i === 0 || glob[i - 1] === '/';
+        const endsSegment = i + 2 === glob.length || glob[i + 2] === '/';
+        if (startsSegment && endsSegment) {
+          if (i + 2 === glob.length) {
+            // Trailing "/**" (or a lone "**") matches everything below
+            out += '.*';
+            i += 2;
+          } else {
+            // Leading "**/" or inner "/**/" matches zero or more directories
+            out += '(?:.*/)?';
+            i += 3;
+          }
+          continue;
+        }
+        // "**" not delimited by slashes behaves like a regular "*"
+        out += '[^/]*';
+        i += 2;
+        continue;
+      }
+      out += '[^/]*';
+      i++;
+      continue;
+    }
+
+    if (c === '?') {
+      out += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (c === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close !== -1) {
+        let body = glob.substring(i + 1, close);
+        if (body.startsWith('!')) body = '^' + body.substring(1);
+        out += `[${body}]`;
+        i = close + 1;
+        continue;
+      }
+    }
+
+    out += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    i++;
+  }
+
+  return out;
+};
+
+export const parseIgnoreFile = (content: string, filePath: string): IgnoreRule[] => {
+  const lastSlash = filePath.lastIndexOf('/');
+  const baseDir = lastSlash === -1 ? '' : filePath.substring(0, lastSlash);
+  const rules: IgnoreRule[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    // Trailing spaces are ignored unless escaped with a backslash
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) return;
+
+    let negate = false;
+    if (line.startsWith('!')) {
+      negate = true;
+      line = line.substring(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.substring(1);
+    }
+
+    let dirOnly = false;
+    if (line.endsWith('/')) {
+      dirOnly = true;
+      line = line.replace(/\/+$/, '');
+    }
+    if (!line) return;
+
+    // A separator at the beginning or middle anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.substring(1);
+
+    const source = globToRegExpSource(line);
+    try {
+      rules.push({
+        pattern: rawLine.trim(),
+        source: filePath,
+        line: index + 1,
+        baseDir,
+        negate,
+        dirOnly,
+        regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      });
+    } catch (e) {
+      console.warn(`Invalid ignore pattern in ${filePath}:${index + 1}`, rawLine);
+    }
+  });
+
+  return rules;
+};
+
+const precedenceOf = (rule: IgnoreRule): number => {
+  const name = rule.source.split('/').pop() || '';
+  return IGNORE_FILE_NAMES.indexOf(name);
+};
+
+/**
+ * Builds a matcher that returns the rule excluding a path, or null if the path is kept.
+ * Follows git precedence: deeper ignore files override shallower ones, the last matching
+ * rule wins, and a file cannot be re-included if one of its parent directories is excluded.
+ */
+export const createIgnoreMatcher = (rules: IgnoreRule[]): IgnoreMatcher => {
+  const ordered = rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => {
+      const depthA = a.rule.baseDir ? a.rule.baseDir.split('/').length : 0;
+      const depthB = b.rule.baseDir ? b.rule.baseDir.split('/').length : 0;
+      if (depthA !== depthB) return depthA - depthB;
+      const precedence = precedenceOf(a.rule) - precedenceOf(b.rule);
+      if (precedence !== 0) return precedence;
+      return a.index - b.index;
+    })
+    .map(entry => entry.rule);
+
+  const dirCache = new Map<string, IgnoreRule | null>();
+
+  const lastMatch = (path: string, isDir: boolean): IgnoreRule | null => {
+    let match: IgnoreRule | null = null;
+    for (const rule of ordered) {
+      if (rule.dirOnly && !isDir) continue;
+      let relative = path;
+      if (rule.baseDir) {
+        if (!path.startsWith(rule.baseDir + '/')) continue;
+        relative = path.substring(rule.baseDir.length + 1);
+      }
+      if (rule.regex.test(relative)) match = rule;
+    }
+    return match;
+  };
+
+  return (path: string) => {
+    if (ordered.length === 0) return null;
+
+    const parts = path.split('/');
+    for (let depth = 1; depth < parts.length; depth++) {
+      const dir = parts.slice(0, depth).join('/');
+      let dirMatch = dirCache.get(dir);
+      if (dirMatch === undefined) {
+        dirMatch = lastMatch(dir, true);
+        dirCache.set(dir, dirMatch);
+      }
+      if (dirMatch && !dirMatch.negate) return dirMatch;
+    }
+
+    const fileMatch = lastMatch(path, false);
+    return fileMatch && !fileMatch.negate ? fileMatch : null;
+  };
+};
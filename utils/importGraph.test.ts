@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportGraph } from './importGraph';
+
+describe('buildImportGraph (TS/JS)', () => {
+  it('ignores import-like text inside string and template literals', () => {
+    const { deps, unresolved } = buildImportGraph([
+      { path: 'src/a.ts', content: [
+        "import { b } from './b';",
+        "const hint = \"import q from './q'\";",
+        "const doc = `export * from './r'`;",
+        "const lazy = 'require(\"./s\")';",
+        "const c = import('./c');",
+      ].join('\n') },
+      { path: 'src/b.ts', content: 'export const b = 1;' },
+      { path: 'src/c.ts', content: 'export const c = 1;' },
+    ]);
+    expect(deps.get('src/a.ts')).toEqual(['src/b.ts', 'src/c.ts']);
+    expect(unresolved.has('src/a.ts')).toBe(false);
+  });
+
+  it('still reports unresolved relative imports', () => {
+    const { unresolved } = buildImportGraph([{ path: 'a.ts', content: "import x from './missing';" }]);
+    expect(unresolved.get('a.ts')).toEqual(['./missing']);
+  });
+
+  it('resolves tsconfig path aliases and skips malformed options', () => {
+    const sources = [
+      { path: 'tsconfig.base.json', content: '{ "compilerOptions": { "paths": { "@lib/*": ["lib/*"], "@bad": "lib/x" }, }, // base\n}' },
+      { path: 'tsconfig.json', content: '{ "extends": "./tsconfig.base.json", "compilerOptions": null }' },
+      { path: 'app.ts', content: "import { x } from '@lib/x';\nimport y from '@bad';" },
+      { path: 'lib/x.ts', content: 'export const x = 1;' },
+    ];
+    const { deps, unresolved } = buildImportGraph(sources);
+    expect(deps.get('app.ts')).toEqual(['lib/x.ts']);
+    expect(unresolved.has('app.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,546 @@
+import { maskComments, maskLiterals } from './commentStripping';
+
+/**
+ * Import graph for TS/JS, Python, Go and Rust, built from import statements alone (no
+ * type information). Only imports that resolve to files in the project become edges;
+ * package imports are ignored, while project-relative imports that match no file are
+ * reported as unresolved. TS/JS aliases come from tsconfig/jsconfig `paths` and `baseUrl`.
+ */
+
+type GraphLanguage = 'js' | 'python' | 'go' | 'rust';
+
+const LANGUAGES: Record<string, GraphLanguage> = {
+  ts: 'js', tsx: 'js', js: 'js', jsx: 'js', mjs: 'js', cjs: 'js', mts: 'js', cts: 'js',
+  py: 'python', pyi: 'python',
+  go: 'go',
+  rs: 'rust',
+};
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+// ESM-style TypeScript imports name the compiled file, e.g. "./util.js" for util.ts
+const JS_OUTPUT_TO_SOURCE: Record<string, string[]> = { '.js': ['.ts', '.tsx'], '.jsx': ['.tsx'], '.mjs': ['.mts'], '.cjs': ['.cts'] };
+
+export interface GraphSource {
+  path: string;
+  content: string;
+}
+
+export interface ImportGraph {
+  deps: Map<string, string[]>; // Project files each file imports, in source order
+  unresolved: Map<string, string[]>; // Local-looking specifiers that matched no file
+}
+
+export const getGraphLanguage = (path: string): GraphLanguage | null =>
+  LANGUAGES[path.substring(path.lastIndexOf('.') + 1).toLowerCase()] || null;
+
+// --- Paths ---
+
+const dirname = (path: string) => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+// Joins and normalizes "." and ".." segments; null when the path climbs above the project root
+const joinPath = (dir: string, relative: string): string | null => {
+  const parts = dir ? dir.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+};
+
+interface PathAlias {
+  pattern: string; // At most one "*"
+  targets: string[];
+}
+
+interface TsConfig {
+  dir: string; // Files below this directory use the config
+  aliases: PathAlias[]; // In the order TypeScript tries them (see prefixLength)
+  aliasBase: string; // Alias targets are relative to baseUrl, or to the config itself without one
+  baseUrl?: string;
+}
+
+interface ResolveContext {
+  paths: Set<string>;
+  tsConfigs: TsConfig[]; // Deepest directory first
+  pythonModules: Map<string, string>; // Dotted module name -> file
+  goModules: { module: string; dir: string }[]; // From go.mod files, longest module path first
+  goPackages: Map<string, string[]>; // Directory -> non-test .go files
+}
+
+const firstExisting = (candidates: string[], paths: Set<string>): string | null =>
+  candidates.find(c => paths.has(c)) || null;
+
+// --- TS / JS ---
+
+const JS_IMPORT_PATTERNS = [
+  /\b(?:import|export)\s+(?:type\s+)?(?:[\w*{}\s,$]+?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+];
+
+// Specifiers are read from the comment-masked text, but a match only counts when its keyword
+// survives string masking too, so import-like text inside string and template literals is skipped
+const extractJsImports = (content: string, path: string): string[] => {
+  const code = maskComments(content, path);
+  const literals = maskLiterals(content, path);
+  return JS_IMPORT_PATTERNS.flatMap(pattern => Array.from(code.matchAll(pattern))
+    .filter(m => literals[m.index!] !== ' ')
+    .map(m => m[1]));
+};
+
+// Extensionless and directory imports resolve the way bundlers do: exact, then extensions, then index files
+export const resolveJsPath = (base: string, paths: Set<string>): string | null => {
+  const ext = base.substring(base.lastIndexOf('.'));
+  const swapped = (JS_OUTPUT_TO_SOURCE[ext] || []).map(source => base.slice(0, -ext.length) + source);
+  return firstExisting([
+    base,
+    ...swapped,
+    ...JS_EXTENSIONS.map(e => base + e),
+    ...JS_EXTENSIONS.map(e => `${base}/index${e}`),
+  ], paths);
+};
+
+// tsconfig files are JSON with comments and trailing commas
+const parseJsonc = (text: string): unknown => {
+  try {
+    return JSON.parse(text
+      .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (m, str) => str || '')
+      .replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return null;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Exact aliases win over wildcards, then the longest prefix before the "*"
+const prefixLength = (pattern: string) => pattern.includes('*') ? pattern.indexOf('*') : Number.MAX_SAFE_INTEGER;
+
+const TS_CONFIG_NAMES = /(?:^|\/)(?:tsconfig|jsconfig)(?:\.[\w-]+)?\.json$/;
+
+// Relative `extends` chains are followed; options from packages (e.g. "@tsconfig/node18") are not available
+const loadTsConfigs = (sources: GraphSource[], paths: Set<string>): TsConfig[] => {
+  const byPath = new Map(sources.filter(s => TS_CONFIG_NAMES.test(s.path)).map(s => [s.path, s.content]));
+  const options = (path: string, seen: Set<string>): { baseUrl?: string; paths?: Record<string, unknown>; pathsDir: string } | null => {
+    if (seen.has(path) || !byPath.has(path)) return null;
+    seen.add(path);
+    const json = parseJsonc(byPath.get(path)!);
+    if (!isRecord(json)) return null;
+    const dir = dirname(path);
+    let inherited: ReturnType<typeof options> = null;
+    if (typeof json.extends === 'string' && json.extends.startsWith('.')) {
+      const target = joinPath(dir, json.extends);
+      if (target !== null) inherited = options(paths.has(target) ? target : `${target}.json`, seen);
+    }
+    const own = isRecord(json.compilerOptions) ? json.compilerOptions : {};
+    const baseUrl = typeof own.baseUrl === 'string' ? joinPath(dir, own.baseUrl) ?? undefined : inherited?.baseUrl;
+    const ownPaths = isRecord(own.paths) ? own.paths : undefined;
+    return {
+      baseUrl,
+      paths: ownPaths ?? inherited?.paths,
+      pathsDir: ownPaths ? dir : inherited?.pathsDir ?? dir,
+    };
+  };
+
+  // Only the main config of each directory applies to its files; variants like tsconfig.app.json are only extended
+  return Array.from(byPath.keys())
+    .filter(path => /(?:^|\/)(?:tsconfig|jsconfig)\.json$/.test(path))
+    .map((path): TsConfig | null => {
+      const resolved = options(path, new Set());
+      if (!resolved) return null;
+      const aliases = Object.entries(resolved.paths || {})
+        .filter((entry): entry is [string, string[]] => Array.isArray(entry[1]) && entry[1].every(t => typeof t === 'string'))
+        .map(([pattern, targets]) => ({ pattern, targets }))
+        .sort((a, b) => prefixLength(b.pattern) - prefixLength(a.pattern));
+      return { dir: dirname(path), aliases, aliasBase: resolved.baseUrl ?? resolved.pathsDir, baseUrl: resolved.baseUrl };
+    })
+    .filter((c): c is TsConfig => c !== null)
+    .sort((a, b) => b.dir.length - a.dir.length);
+};
+
+const matchAlias = (pattern: string, specifier: string): string | null => {
+  const star = pattern.indexOf('*');
+  if (star === -1) return pattern === specifier ? '' : null;
+  const prefix = pattern.substring(0, star);
+  const suffix = pattern.substring(star + 1);
+  if (specifier.length < prefix.length + suffix.length || !specifier.startsWith(prefix) || !specifier.endsWith(suffix)) return null;
+  return specifier.substring(prefix.length, specifier.length - suffix.length);
+};
+
+const resolveJsAlias = (from: string, specifier: string, ctx: ResolveContext): string | null | undefined => {
+  const config = ctx.tsConfigs.find(c => !c.dir || from.startsWith(`${c.dir}/`));
+  if (!config) return undefined;
+  for (const alias of config.aliases) {
+    const captured = matchAlias(alias.pattern, specifier);
+    if (captured === null) continue;
+    for (const target of alias.targets) {
+      const base = joinPath(config.aliasBase, target.replace('*', captured));
+      const found = base === null ? null : resolveJsPath(base, ctx.paths);
+      if (found) return found;
+    }
+    // A catch-all "*" alias usually points at vendored types, so a miss there is just a package
+    if (alias.pattern !== '*') return null;
+  }
+  if (config.baseUrl !== undefined) {
+    const base = joinPath(config.baseUrl, specifier);
+    return (base === null ? null : resolveJsPath(base, ctx.paths)) ?? undefined;
+  }
+  return undefined;
+};
+
+const resolveJs = (from: string, specifier: string, ctx: ResolveContext): string | null | undefined => {
+  if (!specifier.startsWith('.') && !specifier.startsWith('/')) return resolveJsAlias(from, specifier, ctx);
+  const base = specifier.startsWith('/') ? joinPath('', specifier) : joinPath(dirname(from), specifier);
+  return base === null ? null : resolveJsPath(base, ctx.paths);
+};
+
+// --- Python ---
+
+interface PythonImport {
+  level: number; // Leading dots of a relative import
+  module: string;
+  names: string[]; // For "from x import a, b": a and b may be submodules
+}
+
+const extractPythonImports = (content: string, path: string): PythonImport[] => {
+  // Parenthesized import lists are joined onto one line first
+  const code = maskLiterals(content, path).replace(/\(([^)]*)\)/g, (m, inner: string) => m.includes('\n') ? `(${inner.replace(/\s*\n\s*/g, ' ')})` : m);
+  const imports: PythonImport[] = [];
+  for (const line of code.split('\n')) {
+    const from = line.match(/^\s*from\s+(\.*)([\w.]*)\s+import\s+\(?([^)]*)\)?/);
+    if (from) {
+      const names = from[3].split(',').map(n => n.trim().split(/\s+/)[0]).filter(n => n && n !== '*');
+      imports.push({ level: from[1].length, module: from[2], names });
+      continue;
+    }
+    const plain = line.match(/^\s*import\s+(.+)/);
+    if (plain) {
+      plain[1].split(',').forEach(part => {
+        const module = part.trim().split(/\s+/)[0];
+        if (module) imports.push({ level: 0, module, names: [] });
+      });
+    }
+  }
+  return imports;
+};
+
+// Registers each file under every dotted name it can be imported by; a directory with an
+// __init__.py is a package, so files below it are only reachable through its name
+const indexPythonModules = (paths: string[], all: Set<string>): Map<string, string> => {
+  const modules = new Map<string, string>();
+  paths.filter(p => /\.pyi?$/.test(p)).sort((a, b) => a.length - b.length).forEach(path => {
+    const parts = path.replace(/\.pyi?$/, '').split('/');
+    if (parts[parts.length - 1] === '__init__') parts.pop();
+    for (let start = 0; start < parts.length; start++) {
+      const parent = parts.slice(0, start).join('/');
+      if (start > 0 && all.has(`${parent}/__init__.py`)) continue;
+      const name = parts.slice(start).join('.');
+      if (name && !modules.has(name)) modules.set(name, path);
+    }
+  });
+  return modules;
+};
+
+const resolvePythonModule = (dir: string, dotted: string, ctx: ResolveContext): string | null => {
+  const base = joinPath(dir, dotted.replace(/\./g, '/'));
+  if (base === null) return null;
+  return firstExisting([`${base}.py`, `${base}.pyi`, `${base}/__init__.py`], ctx.paths);
+};
+
+const resolvePython = (from: string, imp: PythonImport, ctx: ResolveContext): { resolved: string[]; unresolved: boolean } => {
+  const resolved: string[] = [];
+  if (imp.level > 0) {
+    let dir: string | null = dirname(from);
+    for (let i = 1; i < imp.level && dir !== null; i++) dir = dir ? dirname(dir) : null;
+    if (dir === null) return { resolved, unresolved: true };
+    const module = imp.module ? resolvePythonModule(dir, imp.module, ctx) : null;
+    if (module) resolved.push(module);
+    imp.names.forEach(name => {
+      const sub = resolvePythonModule(dir!, imp.module ? `${imp.module}.${name}` : name, ctx);
+      if (sub) resolved.push(sub);
+    });
+    return { resolved, unresolved: resolved.length === 0 && (!!imp.module || imp.names.length > 0) };
+  }
+  const module = ctx.pythonModules.get(imp.module);
+  if (module) resolved.push(module);
+  imp.names.forEach(name => {
+    const sub = ctx.pythonModules.get(`${imp.module}.${name}`);
+    if (sub) resolved.push(sub);
+  });
+  return { resolved, unresolved: false }; // Unknown absolute modules are installed packages
+};
+
+// --- Go ---
+
+const extractGoImports = (content: string, path: string): string[] => {
+  const code = maskComments(content, path);
+  const imports: string[] = [];
+  for (const block of code.matchAll(/\bimport\s*\(([^)]*)\)/g)) {
+    for (const m of block[1].matchAll(/^\s*(?:[\w.]+\s+)?"([^"]+)"/gm)) imports.push(m[1]);
+  }
+  for (const m of code.matchAll(/\bimport\s+(?:[\w.]+\s+)?"([^"]+)"/g)) imports.push(m[1]);
+  return imports;
+};
+
+// Imports name packages, so a file depends on every non-test file of the imported directory
+const resolveGo = (specifier: string, ctx: ResolveContext): string[] | null | undefined => {
+  const mod = ctx.goModules.find(m => specifier === m.module || specifier.startsWith(`${m.module}/`));
+  if (!mod) return undefined;
+  const dir = joinPath(mod.dir, specifier.substring(mod.module.length + 1));
+  const files = dir === null ? undefined : ctx.goPackages.get(dir);
+  return files && files.length > 0 ? files : null;
+};
+
+// --- Rust ---
+
+interface RustImport {
+  kind: 'mod' | 'use';
+  segments: string[]; // For "use": path after crate/self/super, "super" repeated as needed
+  anchor: 'crate' | 'self' | 'super';
+}
+
+const RUST_CRATE_ROOTS = ['lib.rs', 'main.rs'];
+
+const extractRustImports = (content: string, path: string): RustImport[] => {
+  const code = maskLiterals(content, path);
+  const imports: RustImport[] = [];
+  for (const m of code.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm)) {
+    imports.push({ kind: 'mod', segments: [m[1]], anchor: 'self' });
+  }
+  for (const m of code.matchAll(/\buse\s+((?:crate|self|super)\s*::[^;]+);/g)) {
+    const tree = m[1].replace(/\s+/g, '');
+    const [anchor, ...rest] = tree.split('::');
+    const head = rest.join('::');
+    // "use crate::{a::X, b}" is flattened one level; deeper nesting only contributes its first path
+    const branches = head.startsWith('{') ? head.slice(1, head.lastIndexOf('}')).split(',') : [head];
+    branches.forEach(branch => {
+      const segments = branch.split('::').filter(s => /^\w+$/.test(s));
+      if (segments.length > 0) imports.push({ kind: 'use', segments, anchor: anchor as RustImport['anchor'] });
+    });
+  }
+  return imports;
+};
+
+// Directory holding a module's child modules: foo.rs keeps them in foo/, mod.rs and crate roots beside themselves
+const rustModuleDir = (path: string): string => {
+  const name = path.substring(path.lastIndexOf('/') + 1);
+  if (name === 'mod.rs' || RUST_CRATE_ROOTS.includes(name)) return dirname(path);
+  return joinPath(dirname(path), name.replace(/\.rs$/, ''))!;
+};
+
+const rustCrateDir = (path: string, paths: Set<string>): string => {
+  let dir = dirname(path);
+  for (;;) {
+    if (RUST_CRATE_ROOTS.some(root => paths.has(dir ? `${dir}/${root}` : root))) return dir;
+    if (!dir) return dirname(path);
+    dir = dirname(dir);
+  }
+};
+
+// Longest module prefix of the path that exists; the rest names items inside it
+const resolveRustPath = (dir: string, segments: string[], paths: Set<string>): string | null => {
+  for (let k = segments.length; k > 0; k--) {
+    const base = joinPath(dir, segments.slice(0, k).join('/'));
+    if (base === null) continue;
+    const found = firstExisting([`${base}.rs`, `${base}/mod.rs`], paths);
+    if (found) return found;
+  }
+  return null;
+};
+
+const resolveRust = (from: string, imp: RustImport, ctx: ResolveContext): string | null | undefined => {
+  if (imp.kind === 'mod') return resolveRustPath(rustModuleDir(from), imp.segments, ctx.paths);
+  let dir = imp.anchor === 'crate' ? rustCrateDir(from, ctx.paths) : rustModuleDir(from);
+  let segments = imp.segments;
+  if (imp.anchor === 'super') dir = dirname(dir);
+  while (segments[0] === 'super') {
+    dir = dirname(dir);
+    segments = segments.slice(1);
+  }
+  const found = segments.length > 0 ? resolveRustPath(dir, segments, ctx.paths) : null;
+  if (found) return found;
+  // Items declared in the anchor module itself (e.g. "use crate::Config" with Config in lib.rs) add no
+  // edge: that module declares this one with "mod", and the edge back would fold both into a cycle
+  const owner = firstExisting([`${dir}.rs`, ...['mod.rs', ...RUST_CRATE_ROOTS].map(f => dir ? `${dir}/${f}` : f)], ctx.paths);
+  return owner ? undefined : null;
+};
+
+// --- Graph ---
+
+const createContext = (sources: GraphSource[]): ResolveContext => {
+  const allPaths = sources.map(s => s.path);
+  const paths = new Set(allPaths);
+
+  const goModules = sources
+    .filter(s => s.path === 'go.mod' || s.path.endsWith('/go.mod'))
+    .map(s => ({ module: (s.content.match(/^\s*module\s+(\S+)/m) || [])[1], dir: dirname(s.path) }))
+    .filter((m): m is { module: string; dir: string } => !!m.module)
+    .sort((a, b) => b.module.length - a.module.length);
+  const goPackages = new Map<string, string[]>();
+  allPaths.filter(p => p.endsWith('.go') && !p.endsWith('_test.go')).forEach(p => {
+    const dir = dirname(p);
+    goPackages.set(dir, [...(goPackages.get(dir) || []), p]);
+  });
+
+  return { paths, tsConfigs: loadTsConfigs(sources, paths), pythonModules: indexPythonModules(allPaths, paths), goModules, goPackages };
+};
+
+export const buildImportGraph = (sources: GraphSource[]): ImportGraph => {
+  const ctx = createContext(sources);
+  const deps = new Map<string, string[]>();
+  const unresolved = new Map<string, string[]>();
+
+  sources.forEach(({ path, content }) => {
+    const language = getGraphLanguage(path);
+    if (!language) return;
+    const found: string[] = [];
+    const missing: string[] = [];
+    const add = (result: string | string[] | null | undefined, specifier: string) => {
+      if (result === undefined) return;
+      if (result === null) missing.push(specifier);
+      else found.push(...(Array.isArray(result) ? result : [result]));
+    };
+
+    if (language === 'js') {
+      extractJsImports(content, path).forEach(spec => add(resolveJs(path, spec, ctx), spec));
+    } else if (language === 'python') {
+      extractPythonImports(content, path).forEach(imp => {
+        const { resolved, unresolved: isMissing } = resolvePython(path, imp, ctx);
+        add(isMissing ? null : resolved, `${'.'.repeat(imp.level)}${imp.module}`);
+      });
+    } else if (language === 'go') {
+      extractGoImports(content, path).forEach(spec => add(resolveGo(spec, ctx), spec));
+    } else {
+      extractRustImports(content, path).forEach(imp =>
+        add(resolveRust(path, imp, ctx), imp.kind === 'mod' ? `mod ${imp.segments[0]}` : `${imp.anchor}::${imp.segments.join('::')}`));
+    }
+
+    const unique = Array.from(new Set(found)).filter(dep => dep !== path);
+    if (unique.length > 0) deps.set(path, unique);
+    if (missing.length > 0) unresolved.set(path, Array.from(new Set(missing)));
+  });
+
+  return { deps, unresolved };
+};
+
+// --- Ordering ---
+
+/**
+ * Groups files so that every file comes after the files it imports: strongly connected
+ * components (import cycles) form one group, and groups are ordered by their depth in the
+ * graph, leaves first and entry points last. Ties keep the input order, so callers pass
+ * files in their usual (directory) order.
+ */
+export const orderByDependencies = <T extends GraphSource>(files: T[]): T[][] => {
+  const { deps } = buildImportGraph(files);
+  const position = new Map<string, number>(files.map((f, i) => [f.path, i]));
+  const edges = (path: string) => (deps.get(path) || []).filter(dep => position.has(dep));
+
+  // Tarjan's algorithm; components come out dependencies first
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (path: string) => {
+    index.set(path, counter);
+    lowlink.set(path, counter);
+    counter++;
+    stack.push(path);
+    onStack.add(path);
+    for (const dep of edges(path)) {
+      if (!index.has(dep)) {
+        visit(dep);
+        lowlink.set(path, Math.min(lowlink.get(path)!, lowlink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowlink.set(path, Math.min(lowlink.get(path)!, index.get(dep)!));
+      }
+    }
+    if (lowlink.get(path) === index.get(path)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== path);
+      components.push(component.sort((a, b) => position.get(a)! - position.get(b)!));
+    }
+  };
+  files.forEach(f => { if (!index.has(f.path)) visit(f.path); });
+
+  const componentOf = new Map<string, number>();
+  components.forEach((component, i) => component.forEach(path => componentOf.set(path, i)));
+  const depth: number[] = [];
+  components.forEach((component, i) => {
+    depth[i] = 0;
+    component.forEach(path => edges(path).forEach(dep => {
+      const other = componentOf.get(dep)!;
+      if (other !== i) depth[i] = Math.max(depth[i], depth[other] + 1);
+    }));
+  });
+
+  const byPath = new Map<string, T>(files.map(f => [f.path, f]));
+  return components
+    .map((component, i) => ({ component, depth: depth[i], first: position.get(component[0])! }))
+    .sort((a, b) => a.depth - b.depth || a.first - b.first)
+    .map(({ component }) => component.map(path => byPath.get(path)!));
+};
+
+// --- Tracing ---
+
+export type TraceDirection = 'imports' | 'importers' | 'both';
+
+export interface TraceOptions {
+  depth: number; // Levels of imports to follow; Infinity for the full closure
+  direction: TraceDirection;
+}
+
+export interface TraceResult {
+  paths: string[]; // The start file first, then by distance
+  unresolved: { path: string; specifier: string }[]; // Imports within the closure that matched no file
+}
+
+/**
+ * Files reachable from `start` within `depth` import edges. "both" is the union of the two
+ * one-way traces, so siblings (other importers of an imported file) are not pulled in.
+ */
+export const traceDependencies = (sources: GraphSource[], start: string, { depth, direction }: TraceOptions): TraceResult => {
+  const { deps, unresolved } = buildImportGraph(sources);
+  const importers = new Map<string, string[]>();
+  deps.forEach((targets, path) => targets.forEach(target => importers.set(target, [...(importers.get(target) || []), path])));
+
+  const reached: string[] = [start];
+  const seen = new Set<string>([start]);
+  const walk = (edges: Map<string, string[]>) => {
+    const visited = new Set<string>([start]);
+    let frontier = [start];
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+      const next: string[] = [];
+      frontier.forEach(path => (edges.get(path) || []).forEach(target => {
+        if (visited.has(target)) return;
+        visited.add(target);
+        next.push(target);
+        if (!seen.has(target)) {
+          seen.add(target);
+          reached.push(target);
+        }
+      }));
+      frontier = next;
+    }
+  };
+  if (direction !== 'importers') walk(deps);
+  if (direction !== 'imports') walk(importers);
+
+  return {
+    paths: reached,
+    unresolved: reached.flatMap(path => (unresolved.get(path) || []).map(specifier => ({ path, specifier }))),
+  };
+};
@@ -0,0 +1,188 @@
+// Minimal RFC 1950/1951 inflater. DecompressionStream rejects zlib streams that are followed by
+// more data, which is exactly how objects are laid out inside git packfiles, so we decode ourselves
+// and report how many input bytes the stream occupied.
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  counts: Uint16Array;  // Number of codes of each bit length
+  symbols: Uint16Array; // Symbols ordered by code
+}
+
+export interface InflateResult {
+  data: Uint8Array;
+  bytesRead: number;
+}
+
+const buildHuffman = (lengths: ArrayLike<number>, offset: number, count: number): Huffman => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < count; i++) counts[lengths[offset + i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(count);
+  for (let i = 0; i < count; i++) {
+    const len = lengths[offset + i];
+    if (len) symbols[offsets[len]++] = i;
+  }
+  return { counts, symbols };
+};
+
+const FIXED_LITERALS = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return buildHuffman(lengths, 0, 288);
+})();
+const FIXED_DISTANCES = buildHuffman(new Uint8Array(30).fill(5), 0, 30);
+
+/**
+ * Inflates a zlib stream starting at the beginning of `input`. Trailing bytes after the
+ * stream are ignored. `sizeHint` preallocates the output when the inflated size is known.
+ */
+export const inflateZlib = (input: Uint8Array, sizeHint = 0): InflateResult => {
+  if (input.length < 2 || (input[0] & 0x0f) !== 8 || ((input[0] << 8) | input[1]) % 31 !== 0) {
+    throw new Error('Invalid zlib header');
+  }
+  if (input[1] & 0x20) throw new Error('Preset zlib dictionaries are not supported');
+
+  let pos = 2;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let out = new Uint8Array(Math.max(sizeHint, 1024));
+  let outLength = 0;
+
+  const bits = (n: number): number => {
+    while (bitCount < n) {
+      if (pos >= input.length) throw new Error('Unexpected end of compressed data');
+      bitBuffer |= input[pos++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << n) - 1);
+    bitBuffer >>>= n;
+    bitCount -= n;
+    return value;
+  };
+
+  const ensureCapacity = (extra: number) => {
+    if (outLength + extra <= out.length) return;
+    const grown = new Uint8Array(Math.max(out.length * 2, outLength + extra));
+    grown.set(out.subarray(0, outLength));
+    out = grown;
+  };
+
+  // Canonical Huffman decoding, one bit at a time
+  const decodeSymbol = (h: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = h.counts[len];
+      if (code - first < count) return h.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  };
+
+  const inflateBlock = (literals: Huffman, distances: Huffman) => {
+    while (true) {
+      const symbol = decodeSymbol(literals);
+      if (symbol < 256) {
+        ensureCapacity(1);
+        out[outLength++] = symbol;
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid length code');
+        const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+        const distIndex = decodeSymbol(distances);
+        if (distIndex >= DIST_BASE.length) throw new Error('Invalid distance code');
+        const distance = DIST_BASE[distIndex] + bits(DIST_EXTRA[distIndex]);
+        if (distance > outLength) throw new Error('Distance too far back');
+        ensureCapacity(length);
+        // Byte by byte: source and destination may overlap for run-length style copies
+        for (let i = 0; i < length; i++) {
+          out[outLength] = out[outLength - distance];
+          outLength++;
+        }
+      }
+    }
+  };
+
+  const readDynamicTables = (): [Huffman, Huffman] => {
+    const literalCount = bits(5) + 257;
+    const distanceCount = bits(5) + 1;
+    const codeLengthCount = bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+    const codeLengthHuffman = buildHuffman(codeLengths, 0, 19);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let i = 0;
+    while (i < lengths.length) {
+      const symbol = decodeSymbol(codeLengthHuffman);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Repeat with no previous code length');
+        value = lengths[i - 1];
+        repeat = 3 + bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3);
+      } else {
+        repeat = 11 + bits(7);
+      }
+      if (i + repeat > lengths.length) throw new Error('Too many code lengths');
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    return [buildHuffman(lengths, 0, literalCount), buildHuffman(lengths, literalCount, distanceCount)];
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+    if (type === 0) {
+      // Stored block: skip to the byte boundary, then LEN / NLEN and raw bytes
+      bitBuffer = 0;
+      bitCount = 0;
+      if (pos + 4 > input.length) throw new Error('Unexpected end of compressed data');
+      const length = input[pos] | (input[pos + 1] << 8);
+      pos += 4;
+      if (pos + length > input.length) throw new Error('Unexpected end of compressed data');
+      ensureCapacity(length);
+      out.set(input.subarray(pos, pos + length), outLength);
+      outLength += length;
+      pos += length;
+    } else if (type === 1) {
+      inflateBlock(FIXED_LITERALS, FIXED_DISTANCES);
+    } else if (type === 2) {
+      const [literals, distances] = readDynamicTables();
+      inflateBlock(literals, distances);
+    } else {
+      throw new Error('Invalid deflate block type');
+    }
+  }
+
+  // Unused bits belong to the last byte read; the Adler-32 checksum follows on the next boundary
+  return { data: out.subarray(0, outLength), bytesRead: pos + 4 };
+};
@@ -0,0 +1,276 @@
+import { ProcessedFile, FileNode, OversizeSettings, ConverterSettings, SecretRule } from '../types';
+import { DEFAULT_OVERSIZE_SETTINGS } from './oversizedFiles';
+import { DEFAULT_CONVERTER_SETTINGS } from './converters';
+import { OutputOptions, OutputCosts } from './fileProcessing';
+import { TokenizerConfig } from './tokenizers';
+import { SearchResult } from './searchIndex';
+import { GraphSource, TraceOptions, TraceResult } from './importGraph';
+import { SecretScanResult } from './secretScanner';
+import { SkeletonResult } from './skeleton';
+
+// --- Worker Protocol ---
+
+export interface IngestionEntry {
+  file: File;
+  path: string; // Passed explicitly: instance-level webkitRelativePath does not survive structured cloning
+}
+
+export type IngestionWorkerRequest =
+  | { type: 'ingest'; jobId: number; entries: IngestionEntry[]; oversize: OversizeSettings; converters: ConverterSettings }
+  | { type: 'buildTree'; jobId: number; paths: string[] }
+  | { type: 'skeleton'; jobId: number; sources: { path: string; content: string }[] }
+  | { type: 'countTokens'; jobId: number; tokenizer: TokenizerConfig; texts: string[] }
+  | { type: 'chunks'; jobId: number; tokenizer: TokenizerConfig; files: ProcessedFile[]; tokenLimit: number; options: OutputOptions }
+  | { type: 'costs'; jobId: number; tokenizer: TokenizerConfig; files: ProcessedFile[]; options: OutputOptions }
+  | { type: 'search'; jobId: number; query: string; sources: SearchSource[] }
+  | { type: 'trace'; jobId: number; sources: GraphSource[]; start: string; options: TraceOptions }
+  | { type: 'secrets'; jobId: number; sources: SearchSource[]; rules: SecretRule[]; allowList: string[] };
+
+export type IngestionWorkerResponse =
+  | { type: 'ingested'; jobId: number; files: ProcessedFile[] }
+  | { type: 'tree'; jobId: number; tree: FileNode[] }
+  | { type: 'skeleton'; jobId: number; result: SkeletonResult }
+  | { type: 'tokenCounts'; jobId: number; counts: number[]; exact: boolean }
+  | { type: 'chunks'; jobId: number; chunks: string[] }
+  | { type: 'costs'; jobId: number; costs: OutputCosts }
+  | { type: 'search'; jobId: number; results: SearchResult[] }
+  | { type: 'trace'; jobId: number; result: TraceResult }
+  | { type: 'secrets'; jobId: number; scan: SecretScanResult; redacted: Record<string, string> }
+  | { type: 'error'; jobId: number; message: string };
+
+export interface SearchSource {
+  path: string;
+  hash: string; // The worker keeps each file's index entry (or secret matches) until its hash changes
+  content: string;
+}
+
+export interface IngestionOptions {
+  signal?: AbortSignal;
+  onProgress?: (processed: number, total: number) => void;
+  batchSize?: number;
+  oversize?: OversizeSettings;
+  converters?: ConverterSettings;
+}
+
+export interface IngestionResult {
+  files: ProcessedFile[];
+  pending: IngestionEntry[]; // Entries not yet processed when the run was cancelled, or in batches that failed
+  error?: string; // Why the last failed batch failed, if any did
+  cancelled: boolean;
+}
+
+const createWorker = () =>
+  new Worker(new URL('../workers/ingestion.worker.ts', import.meta.url), { type: 'module' });
+
+const getPoolSize = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+/**
+ * Reads, classifies and token-counts files on a pool of workers.
+ * Batches are handed out as workers free up; aborting terminates the pool immediately and
+ * returns everything finished so far plus the untouched entries so the run can be resumed.
+ * A batch the worker fails on is returned as pending too, so its files can be retried.
+ */
+export const ingestFiles = (entries: IngestionEntry[], options: IngestionOptions = {}): Promise<IngestionResult> => {
+  const { signal, onProgress, batchSize = 50, oversize = DEFAULT_OVERSIZE_SETTINGS, converters = DEFAULT_CONVERTER_SETTINGS } = options;
+
+  return new Promise((resolve) => {
+    const batches: IngestionEntry[][] = [];
+    for (let i = 0; i < entries.length; i += batchSize) {
+      batches.push(entries.slice(i, i + batchSize));
+    }
+
+    const results: ProcessedFile[] = [];
+    const failed: IngestionEntry[] = [];
+    let error: string | undefined;
+    const inFlight = new Map<number, IngestionEntry[]>();
+    const activeJob = new Map<Worker, number>();
+    const workers = Array.from({ length: Math.min(getPoolSize(), batches.length) }, createWorker);
+    let nextJobId = 0;
+    let processed = 0;
+    let settled = false;
+
+    const handleAbort = () => finish(true);
+
+    const finish = (cancelled: boolean) => {
+      if (settled) return;
+      settled = true;
+      workers.forEach(w => w.terminate());
+      signal?.removeEventListener('abort', handleAbort);
+      const pending = [...failed, ...Array.from(inFlight.values()).flat(), ...batches.flat()];
+      resolve({ files: results, pending, cancelled, error });
+    };
+
+    const dispatch = (worker: Worker) => {
+      const batch = batches.shift();
+      if (!batch) {
+        if (inFlight.size === 0) finish(false);
+        return;
+      }
+      const jobId = nextJobId++;
+      inFlight.set(jobId, batch);
+      activeJob.set(worker, jobId);
+      const request: IngestionWorkerRequest = { type: 'ingest', jobId, entries: batch, oversize, converters };
+      worker.postMessage(request);
+    };
+
+    if (batches.length === 0) {
+      finish(false);
+      return;
+    }
+    if (signal?.aborted) {
+      finish(true);
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    const complete = (worker: Worker, jobId: number, failure?: string) => {
+      const batch = inFlight.get(jobId) || [];
+      inFlight.delete(jobId);
+      activeJob.delete(worker);
+      if (failure !== undefined) {
+        failed.push(...batch);
+        error = failure;
+      }
+      processed += batch.length;
+      onProgress?.(processed, entries.length);
+      dispatch(worker);
+    };
+
+    workers.forEach(worker => {
+      worker.onmessage = (e: MessageEvent<IngestionWorkerResponse>) => {
+        if (settled) return;
+        const msg = e.data;
+        if (msg.type === 'ingested') {
+          results.push(...msg.files);
+          complete(worker, msg.jobId);
+        } else if (msg.type === 'error') {
+          console.error(`Ingestion batch ${msg.jobId} failed:`, msg.message);
+          complete(worker, msg.jobId, msg.message);
+        }
+      };
+      worker.onerror = (e) => {
+        // An uncaught worker error sets its batch aside rather than stalling the whole run
+        console.error('Ingestion worker crashed', e);
+        const jobId = activeJob.get(worker);
+        if (!settled && jobId !== undefined) complete(worker, jobId, e.message || 'Ingestion worker crashed');
+      };
+      dispatch(worker);
+    });
+  });
+};
+
+// Tree building, skeletons, token counting and chunking share a single long-lived worker so large uploads
+// never block rendering; the worker also keeps tokenizer vocabularies loaded between requests
+let serviceWorker: Worker | null = null;
+let serviceJobId = 0;
+const serviceCallbacks = new Map<number, (msg: IngestionWorkerResponse) => void>();
+
+const runInServiceWorker = (request: (jobId: number) => IngestionWorkerRequest): Promise<IngestionWorkerResponse> => {
+  if (!serviceWorker) {
+    const worker = createWorker();
+    serviceWorker = worker;
+    worker.onmessage = (e: MessageEvent<IngestionWorkerResponse>) => {
+      const callback = serviceCallbacks.get(e.data.jobId);
+      serviceCallbacks.delete(e.data.jobId);
+      callback?.(e.data);
+    };
+    // A crashed worker (or one whose module failed to load) fails everything it was given,
+    // and the next request starts a fresh one instead of waiting forever
+    const fail = (message: string) => (e: Event) => {
+      console.error(message, e);
+      worker.terminate();
+      if (serviceWorker !== worker) return;
+      serviceWorker = null;
+      const reason = e instanceof ErrorEvent && e.message ? e.message : message;
+      serviceCallbacks.forEach((callback, jobId) => callback({ type: 'error', jobId, message: reason }));
+      serviceCallbacks.clear();
+    };
+    worker.onerror = fail('Service worker crashed');
+    worker.onmessageerror = fail('Service worker response could not be read');
+  }
+
+  const jobId = serviceJobId++;
+  return new Promise(resolve => {
+    serviceCallbacks.set(jobId, resolve);
+    serviceWorker!.postMessage(request(jobId));
+  });
+};
+
+export const buildFileTreeInWorker = async (paths: string[]): Promise<FileNode[]> => {
+  const msg = await runInServiceWorker(jobId => ({ type: 'buildTree', jobId, paths }));
+  if (msg.type === 'tree') return msg.tree;
+  console.error('Tree build failed', msg.type === 'error' ? msg.message : msg);
+  return [];
+};
+
+// Skeletons keyed by path; files that could not be parsed are missing from the result
+export const buildSkeletonsInWorker = async (sources: { path: string; content: string }[]): Promise<SkeletonResult> => {
+  const msg = await runInServiceWorker(jobId => ({ type: 'skeleton', jobId, sources }));
+  if (msg.type === 'skeleton') return msg.result;
+  console.error('Skeleton extraction failed', msg.type === 'error' ? msg.message : msg);
+  return { skeletons: {} };
+};
+
+export interface TokenCountResult {
+  counts: number[];
+  exact: boolean; // False when the tokenizer fell back to an estimate
+}
+
+export const countTokensInWorker = async (texts: string[], tokenizer: TokenizerConfig): Promise<TokenCountResult> => {
+  const msg = await runInServiceWorker(jobId => ({ type: 'countTokens', jobId, tokenizer, texts }));
+  if (msg.type === 'tokenCounts') return { counts: msg.counts, exact: msg.exact };
+  console.error('Token counting failed', msg.type === 'error' ? msg.message : msg);
+  return { counts: texts.map(() => 0), exact: false };
+};
+
+// generateChunks with the target model's tokenizer; only selected files are sent across
+export const generateChunksInWorker = async (
+  files: ProcessedFile[],
+  tokenLimit: number,
+  options: OutputOptions,
+  tokenizer: TokenizerConfig
+): Promise<string[]> => {
+  const selected = files.filter(f => f.selected);
+  const cloneable = { ...options, countTokens: undefined }; // Functions can't be posted; the worker sets its own
+  const msg = await runInServiceWorker(jobId => ({ type: 'chunks', jobId, tokenizer, files: selected, tokenLimit, options: cloneable }));
+  if (msg.type === 'chunks') return msg.chunks;
+  throw new Error(msg.type === 'error' ? msg.message : 'Unexpected worker response');
+};
+
+// measureOutputCosts with the target model's tokenizer; unlike chunking this needs every file
+export const measureOutputCostsInWorker = async (
+  files: ProcessedFile[],
+  options: OutputOptions,
+  tokenizer: TokenizerConfig
+): Promise<OutputCosts> => {
+  const cloneable = { ...options, countTokens: undefined };
+  const msg = await runInServiceWorker(jobId => ({ type: 'costs', jobId, tokenizer, files, options: cloneable }));
+  if (msg.type === 'costs') return msg.costs;
+  throw new Error(msg.type === 'error' ? msg.message : 'Unexpected worker response');
+};
+
+// BM25 ranking of the given files against a question (see utils/searchIndex)
+export const rankFilesInWorker = async (sources: SearchSource[], query: string): Promise<SearchResult[]> => {
+  const msg = await runInServiceWorker(jobId => ({ type: 'search', jobId, query, sources }));
+  if (msg.type === 'search') return msg.results;
+  throw new Error(msg.type === 'error' ? msg.message : 'Unexpected worker response');
+};
+
+// Import closure of one file (see traceDependencies); sources should include tsconfig files for aliases
+export const traceDependenciesInWorker = async (sources: GraphSource[], start: string, options: TraceOptions): Promise<TraceResult> => {
+  const msg = await runInServiceWorker(jobId => ({ type: 'trace', jobId, sources, start, options }));
+  if (msg.type === 'trace') return msg.result;
+  throw new Error(msg.type === 'error' ? msg.message : 'Unexpected worker response');
+};
+
+export interface SecretScanInWorkerResult {
+  scan: SecretScanResult;
+  redacted: Record<string, string>; // See redactSources
+}
+
+// scanSecrets plus redaction of every source; per-file matches are cached by hash between calls
+export const scanSecretsInWorker = async (sources: SearchSource[], rules: SecretRule[], allowList: string[]): Promise<SecretScanInWorkerResult> => {
+  const msg = await runInServiceWorker(jobId => ({ type: 'secrets', jobId, sources, rules, allowList }));
+  if (msg.type === 'secrets') return { scan: msg.scan, redacted: msg.redacted };
+  throw new Error(msg.type === 'error' ? msg.message : 'Unexpected worker response');
+};
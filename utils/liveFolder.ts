@@ -0,0 +1,116 @@
+import { SkippedFile } from '../types';
+import { matchBuiltinIgnore } from './fileProcessing';
+import { withRelativePath } from './fileSystemEntries';
+
+// File System Access API pieces that are not part of TypeScript's DOM lib yet
+interface LiveDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemFileHandle | LiveDirectoryHandle>;
+  queryPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+const DB_NAME = 'codecontext';
+const STORE_NAME = 'handles';
+const HANDLE_KEY = 'liveFolder';
+
+export const isLiveFolderSupported = (): boolean =>
+  typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+export const pickLiveFolder = async (): Promise<FileSystemDirectoryHandle> => {
+  const picker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  return picker({ id: 'codecontext-live', mode: 'read' });
+};
+
+// --- IndexedDB persistence (handles are structured-cloneable, so they survive reloads) ---
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveFolderHandle = async (handle: FileSystemDirectoryHandle): Promise<void> => {
+  await withStore('readwrite', store => store.put(handle, HANDLE_KEY));
+};
+
+export const loadFolderHandle = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    const handle = await withStore<FileSystemDirectoryHandle | undefined>('readonly', store => store.get(HANDLE_KEY));
+    return handle || null;
+  } catch (e) {
+    console.warn('Could not restore live folder handle', e);
+    return null;
+  }
+};
+
+export const clearFolderHandle = async (): Promise<void> => {
+  await withStore('readwrite', store => store.delete(HANDLE_KEY));
+};
+
+/**
+ * Checks read access to a stored handle, prompting if allowed.
+ * Prompting requires a user gesture, so pass prompt=false from timers.
+ */
+export const ensureReadPermission = async (handle: FileSystemDirectoryHandle, prompt = true): Promise<boolean> => {
+  const live = handle as LiveDirectoryHandle;
+  if (typeof live.queryPermission !== 'function') return true;
+  if (await live.queryPermission({ mode: 'read' }) === 'granted') return true;
+  if (!prompt) return false;
+  return (await live.requestPermission({ mode: 'read' })) === 'granted';
+};
+
+/**
+ * Walks a directory handle and returns its files with webkitRelativePath set, rooted at the
+ * folder name like the folder picker. Built-in ignored directories are not descended into,
+ * except the top-level `.git`: its files are returned separately as gitFiles for the git panel
+ * and, like uploaded ones, never reach the output.
+ */
+export const scanDirectoryHandle = async (
+  root: FileSystemDirectoryHandle
+): Promise<{ files: File[]; skipped: SkippedFile[]; gitFiles: File[] }> => {
+  const files: File[] = [];
+  const skipped: SkippedFile[] = [];
+  const gitFiles: File[] = [];
+
+  const walk = async (dir: LiveDirectoryHandle, prefix: string, into: File[], filtered: boolean) => {
+    for await (const entry of dir.values()) {
+      const path = `${prefix}/${entry.name}`;
+      if (entry.kind === 'directory') {
+        const pattern = filtered ? matchBuiltinIgnore(`${path}/`) : null;
+        if (pattern) {
+          skipped.push({ path: `${path}/`, pattern, source: 'built-in' });
+          if (entry.name === '.git' && prefix === root.name) await walk(entry as LiveDirectoryHandle, path, gitFiles, false);
+          continue;
+        }
+        await walk(entry as LiveDirectoryHandle, path, into, filtered);
+      } else {
+        try {
+          const file = await (entry as FileSystemFileHandle).getFile();
+          into.push(withRelativePath(file, path));
+        } catch (e) {
+          console.warn(`Failed to read ${path}`, e);
+        }
+      }
+    }
+  };
+
+  await walk(root as LiveDirectoryHandle, root.name, files, true);
+  return { files, skipped, gitFiles };
+};
@@ -0,0 +1,86 @@
+import { ModelPreset, TokenizerId } from '../types';
+
+/**
+ * Target models with their context window, a recommended output reserve, the tokenizer used
+ * to count for them and list price per million input tokens. Picking one sets the chunk
+ * budget to the window minus the reserve. Custom entries are kept in localStorage.
+ * Prices are list prices for standard (non-batch, uncached) input and drift over time;
+ * tiered models are listed at their lowest tier.
+ */
+
+export const BUILTIN_MODEL_PRESETS: ModelPreset[] = [
+  { id: 'gpt-4.1', name: 'GPT-4.1', contextWindow: 1047576, outputReserve: 32768, tokenizer: 'o200k', inputPrice: 2 },
+  { id: 'gpt-4.1-mini', name: 'GPT-4.1 mini', contextWindow: 1047576, outputReserve: 32768, tokenizer: 'o200k', inputPrice: 0.4 },
+  { id: 'gpt-4o', name: 'GPT-4o', contextWindow: 128000, outputReserve: 16384, tokenizer: 'o200k', inputPrice: 2.5 },
+  { id: 'gpt-4o-mini', name: 'GPT-4o mini', contextWindow: 128000, outputReserve: 16384, tokenizer: 'o200k', inputPrice: 0.15 },
+  // Reasoning models spend output tokens on thinking, hence the larger reserve
+  { id: 'o3', name: 'o3', contextWindow: 200000, outputReserve: 50000, tokenizer: 'o200k', inputPrice: 2 },
+  { id: 'o4-mini', name: 'o4-mini', contextWindow: 200000, outputReserve: 50000, tokenizer: 'o200k', inputPrice: 1.1 },
+  { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', contextWindow: 128000, outputReserve: 4096, tokenizer: 'cl100k', inputPrice: 10 },
+  { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', contextWindow: 16385, outputReserve: 4096, tokenizer: 'cl100k', inputPrice: 0.5 },
+  // Claude's vocabulary is not published; cl100k counts come closest among the bundled ones
+  { id: 'claude-opus-4', name: 'Claude Opus 4', contextWindow: 200000, outputReserve: 32000, tokenizer: 'cl100k', approximateTokenizer: true, inputPrice: 15 },
+  { id: 'claude-sonnet-4', name: 'Claude Sonnet 4', contextWindow: 200000, outputReserve: 32000, tokenizer: 'cl100k', approximateTokenizer: true, inputPrice: 3 },
+  { id: 'claude-3.5-haiku', name: 'Claude 3.5 Haiku', contextWindow: 200000, outputReserve: 8192, tokenizer: 'cl100k', approximateTokenizer: true, inputPrice: 0.8 },
+  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', contextWindow: 1048576, outputReserve: 65536, tokenizer: 'gemini', inputPrice: 1.25 },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextWindow: 1048576, outputReserve: 65536, tokenizer: 'gemini', inputPrice: 0.3 },
+  { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', contextWindow: 1048576, outputReserve: 8192, tokenizer: 'gemini', inputPrice: 0.1 },
+];
+
+export const DEFAULT_MODEL_PRESET_ID = 'gpt-4o';
+
+export const TOKENIZER_LABELS: Record<TokenizerId, string> = {
+  o200k: 'o200k (GPT-4o and later)',
+  cl100k: 'cl100k (GPT-4 / GPT-3.5)',
+  gemini: 'Gemini (estimated)',
+};
+
+// Custom presets follow the built-in ones, so a custom id can never shadow a built-in
+export const getModelPreset = (id: string, custom: ModelPreset[]): ModelPreset =>
+  [...BUILTIN_MODEL_PRESETS, ...custom].find(p => p.id === id)
+  || BUILTIN_MODEL_PRESETS.find(p => p.id === DEFAULT_MODEL_PRESET_ID)!;
+
+// Tokens each chunk may use: the context window minus what the answer needs
+export const getChunkBudget = (preset: ModelPreset): number => Math.max(0, preset.contextWindow - preset.outputReserve);
+
+export const estimateInputCost = (tokens: number, preset: ModelPreset): number => tokens * preset.inputPrice / 1_000_000;
+
+// Sub-cent amounts keep enough digits to compare models
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : usd < 10 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(0)}`;
+
+// "128k", "1M" for windows in selects and labels
+export const formatTokenCount = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${+(tokens / 1_048_576).toFixed(1)}M` : tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+
+export const getPresetError = (preset: ModelPreset): string | null => {
+  if (!preset.name.trim()) return 'Name is required';
+  if (!(preset.contextWindow > 0)) return 'Context window must be a positive number of tokens';
+  if (!(preset.outputReserve >= 0) || preset.outputReserve >= preset.contextWindow) return 'Output reserve must be smaller than the context window';
+  if (!(preset.inputPrice >= 0)) return 'Price cannot be negative';
+  return null;
+};
+
+export const createPresetId = () => `model_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+const PRESETS_KEY = 'codecontext.modelPresets';
+
+export const loadCustomModelPresets = (): ModelPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    const parsed: ModelPreset[] = stored ? JSON.parse(stored) : [];
+    return parsed
+      .filter(p => p && typeof p.name === 'string' && p.tokenizer in TOKENIZER_LABELS && !getPresetError(p))
+      .map(p => ({ ...p, custom: true }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomModelPresets = (presets: ModelPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn('Could not persist model presets', e);
+  }
+};
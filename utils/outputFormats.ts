@@ -0,0 +1,218 @@
+import { ProcessedFile, OutputFormat } from '../types';
+
+// A leading block that isn't a file, e.g. the git diff
+export interface OutputSection {
+  name: string;    // e.g. "GIT DIFF"
+  label?: string;  // e.g. "working tree vs 1a2b3c4"
+  body: string;
+  language?: string;
+}
+
+// One slice of a file too large for a single chunk; lines are 1-based and inclusive
+export interface FilePiece {
+  index: number;
+  total: number;
+  startLine: number;
+  endLine: number;
+}
+
+export const describePiece = (path: string, piece: FilePiece) =>
+  `FILE PART ${piece.index}/${piece.total}: ${path} (lines ${piece.startLine}-${piece.endLine})`;
+
+// What InteractiveView needs to know about a line of formatted output
+export type ParsedLine = { kind: 'start'; path: string } | { kind: 'end' } | null;
+
+/**
+ * Shapes the generated context. Items are formatted independently and then wrapped by
+ * `document`, so every chunk is a complete document in the chosen format.
+ */
+export interface OutputFormatter {
+  id: OutputFormat | 'template';
+  label: string;
+  fileExtension: string;
+  mimeType: string;
+  file: (file: ProcessedFile, index: number, summary?: string, piece?: FilePiece) => string;
+  assets: (assets: ProcessedFile[]) => string;
+  section: (section: OutputSection) => string;
+  document: (items: string[], part?: { index: number; total: number }) => string; // part is 1-based
+  parseLine: (line: string) => ParsedLine;
+}
+
+const getCommentWrapper = (fileName: string): [string, string] => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    
+    switch (ext) {
+        case 'html':
+        case 'xml':
+        case 'svg':
+        case 'vue': // Vue often uses HTML-like comments in template
+            return ['<!--', '-->'];
+        case 'css':
+        case 'scss':
+        case 'less':
+            return ['/*', '*/'];
+        case 'py':
+        case 'rb':
+        case 'sh':
+        case 'yaml':
+        case 'yml':
+        case 'dockerfile':
+            return ['#', ''];
+        case 'js':
+        case 'jsx':
+        case 'ts':
+        case 'tsx':
+        case 'java':
+        case 'c':
+        case 'cpp':
+        case 'cs':
+        case 'go':
+        case 'rs':
+        case 'swift':
+        case 'php':
+            return ['//', ''];
+        case 'sql':
+            return ['--', ''];
+        default:
+            return ['#', '']; // Default fallback
+    }
+};
+
+
+const LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', swift: 'swift',
+  c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php', sh: 'bash', sql: 'sql',
+  html: 'html', vue: 'vue', svelte: 'svelte', xml: 'xml', svg: 'xml', css: 'css', scss: 'scss', less: 'less',
+  json: 'json', yaml: 'yaml', yml: 'yaml', toml: 'toml', md: 'markdown', ipynb: 'python', dockerfile: 'dockerfile',
+};
+
+export const getLanguage = (path: string): string => {
+  const name = path.substring(path.lastIndexOf('/') + 1).toLowerCase();
+  const ext = name.includes('.') ? name.split('.').pop()! : name;
+  return LANGUAGES[ext] || '';
+};
+
+const assetLines = (assets: ProcessedFile[]) => assets.map(f => `${f.path} ${f.content}`).join('\n');
+
+const plainFormatter: OutputFormatter = {
+  id: 'plain',
+  label: 'Plain Delimiters',
+  fileExtension: 'txt',
+  mimeType: 'text/plain',
+  file: (f, _index, summary, piece) => {
+    let content = f.content;
+    if (summary) {
+      const [prefix, suffix] = getCommentWrapper(f.name);
+      // Ensure space between comment syntax and text
+      const start = prefix ? `${prefix} SUMMARY: ` : 'SUMMARY: ';
+      const end = suffix ? ` ${suffix}` : '';
+      content = `${start}${summary}${end}\n${content}`;
+    }
+    if (piece) return `\n\n--- ${describePiece(f.path, piece)} ---\n${content}\n--- FILE PART ${piece.index}/${piece.total} END: ${f.path} ---`;
+    return `\n\n--- FILE START: ${f.path} ---\n${content}\n--- FILE END: ${f.path} ---`;
+  },
+  assets: assets => plainFormatter.section({ name: 'ASSETS', body: assetLines(assets) }),
+  section: ({ name, label, body }) => {
+    const suffix = label ? `: ${label}` : '';
+    return `\n\n--- ${name} START${suffix} ---\n${body}\n--- ${name} END${suffix} ---`;
+  },
+  document: items => items.join(''),
+  parseLine: line => {
+    const start = line.match(/^--- FILE START: (.+) ---$/) || line.match(/^--- FILE PART \d+\/\d+: (.+) \(lines \d+-\d+\) ---$/);
+    if (start) return { kind: 'start', path: start[1] };
+    return /^--- FILE (?:PART \d+\/\d+ )?END: (.+) ---$/.test(line) ? { kind: 'end' } : null;
+  },
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const unescapeXml = (text: string) => text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+const xmlTag = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+// Document layout recommended for long-context prompting; contents stay unescaped to keep code verbatim
+const xmlFormatter: OutputFormatter = {
+  id: 'xml',
+  label: 'XML Documents',
+  fileExtension: 'xml',
+  mimeType: 'application/xml',
+  file: (f, index, summary, piece) => [
+    piece ? `<document index="${index}" part="${piece.index}/${piece.total}" lines="${piece.startLine}-${piece.endLine}">` : `<document index="${index}">`,
+    `<source>${escapeXml(f.path)}</source>`,
+    ...(summary ? [`<summary>${escapeXml(summary)}</summary>`] : []),
+    '<document_content>',
+    f.content,
+    '</document_content>',
+    '</document>',
+  ].join('\n'),
+  assets: assets => xmlFormatter.section({ name: 'ASSETS', body: assetLines(assets) }),
+  section: ({ name, label, body }) =>
+    `<${xmlTag(name)}${label ? ` label="${escapeXml(label)}"` : ''}>\n${body}\n</${xmlTag(name)}>`,
+  document: items => `<documents>\n${items.join('\n')}\n</documents>`,
+  parseLine: line => {
+    const start = line.match(/^<source>(.+)<\/source>$/);
+    if (start) return { kind: 'start', path: unescapeXml(start[1]) };
+    return line === '</document>' ? { kind: 'end' } : null;
+  },
+};
+
+// A fence longer than any backtick run in the content, so embedded fences can't close it early
+const fenceFor = (content: string) => {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  return '`'.repeat(longest + 1);
+};
+
+const fenced = (content: string, language: string) => {
+  const fence = fenceFor(content);
+  return `${fence}${language}\n${content}\n${fence}`;
+};
+
+const markdownFormatter: OutputFormatter = {
+  id: 'markdown',
+  label: 'Markdown Fences',
+  fileExtension: 'md',
+  mimeType: 'text/markdown',
+  file: (f, _index, summary, piece) =>
+    `## ${piece ? describePiece(f.path, piece) : `File: ${f.path}`}\n\n${summary ? `> ${summary.replace(/\n/g, '\n> ')}\n\n` : ''}${fenced(f.content, getLanguage(f.path))}`,
+  assets: assets => `## Assets\n\n${assets.map(f => `- \`${f.path}\` ${f.content}`).join('\n')}`,
+  section: ({ name, label, body, language }) =>
+    `## ${name.charAt(0) + name.slice(1).toLowerCase()}${label ? `: ${label}` : ''}\n\n${fenced(body, language || '')}`,
+  document: items => items.join('\n\n'),
+  parseLine: line => {
+    const start = line.match(/^## File: (.+)$/) || line.match(/^## FILE PART \d+\/\d+: (.+) \(lines \d+-\d+\)$/);
+    return start ? { kind: 'start', path: start[1] } : null;
+  },
+};
+
+const indentJson = (value: unknown) => JSON.stringify(value, null, 2).replace(/\n/g, '\n  ');
+
+// A top-level array with one object per file, asset or section
+const jsonFormatter: OutputFormatter = {
+  id: 'json',
+  label: 'JSON',
+  fileExtension: 'json',
+  mimeType: 'application/json',
+  file: (f, _index, summary, piece) => `  ${indentJson({
+    type: 'file',
+    path: f.path,
+    part: piece ? `${piece.index}/${piece.total}` : undefined,
+    lines: piece ? `${piece.startLine}-${piece.endLine}` : undefined,
+    language: getLanguage(f.path) || undefined,
+    summary,
+    content: f.content,
+  })}`,
+  assets: assets => assets
+    .map(f => `  ${indentJson({ type: 'asset', path: f.path, size: f.size, ...f.asset })}`)
+    .join(',\n'),
+  section: ({ name, label, body }) => `  ${indentJson({ type: 'section', name, label, content: body })}`,
+  document: items => items.length === 0 ? '[]' : `[\n${items.join(',\n')}\n]`,
+  parseLine: line => {
+    const start = line.match(/^ {4}"path": ("(?:[^"\\]|\\.)*"),?$/);
+    if (start) return { kind: 'start', path: JSON.parse(start[1]) };
+    return /^ {2}\},?$/.test(line) ? { kind: 'end' } : null;
+  },
+};
+
+export const OUTPUT_FORMATTERS: OutputFormatter[] = [plainFormatter, xmlFormatter, markdownFormatter, jsonFormatter];
+
+export const getFormatter = (id: OutputFormat = 'plain'): OutputFormatter =>
+  OUTPUT_FORMATTERS.find(f => f.id === id) || plainFormatter;
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ProcessedFile, OutputTemplate } from '../types';
+import { EXAMPLE_TEMPLATE, getTemplateError, createTemplateFormatter } from './outputTemplates';
+import { generateLLMOutput, generateChunks } from './fileProcessing';
+
+const file = (path: string, content: string): ProcessedFile => ({
+  path, name: path.split('/').pop()!, content, size: content.length, type: 'text/plain', selected: true,
+});
+
+const template = (body: string): OutputTemplate => ({ id: 'test', name: 'Test', body });
+
+describe('getTemplateError', () => {
+  it('accepts the example template', () => {
+    expect(getTemplateError(EXAMPLE_TEMPLATE.body)).toBeNull();
+  });
+
+  it('reports unbalanced and misplaced tags with their line', () => {
+    expect(getTemplateError('{{#each files}}\n{{#if summary}}\n{{/each}}')).toMatch(/^Line 3:/);
+    expect(getTemplateError('{{#each files}}{{/each}}\n{{else}}')).toMatch(/^Line 2: unexpected/);
+    expect(getTemplateError('{{#each files}}{{path}')).toMatch(/unclosed/);
+  });
+
+  it('requires a files loop', () => {
+    expect(getTemplateError('{{path}}')).toMatch(/each files/);
+  });
+
+  it('rejects a second files loop', () => {
+    expect(getTemplateError('{{#each files}}{{path}}{{/each}}\n{{#each files}}{{name}}{{/each}}')).toMatch(/^Line 2: only one/);
+  });
+
+  it('rejects document variables inside the files loop', () => {
+    expect(getTemplateError('{{#each files}}\n{{path}} {{chunkIndex}}\n{{/each}}')).toMatch(/^Line 2: "chunkIndex" is a document variable/);
+    expect(getTemplateError('{{#each files}}\n{{#if isLastChunk}}x{{/if}}\n{{/each}}')).toMatch(/^Line 2:/);
+  });
+});
+
+describe('createTemplateFormatter', () => {
+  it('renders document and file variables, dropping lines of block tags', () => {
+    const formatter = createTemplateFormatter(template('Part {{chunkIndex}}/{{totalChunks}}\n{{#each files}}\n# {{path}}\n{{content}}\n{{/each}}\n'));
+    const items = [formatter.file(file('a.ts', 'A'), 1), formatter.file(file('b.ts', 'B'), 2)];
+    expect(formatter.document(items, { index: 2, total: 3 })).toBe('Part 2/3\n# a.ts\nA\n# b.ts\nB\n');
+  });
+
+  it('renders the else branch of the loop when there are no files', () => {
+    const formatter = createTemplateFormatter(template('{{#each files}}{{path}}{{else}}none{{/each}}'));
+    expect(formatter.document([])).toBe('none');
+  });
+
+  it('keeps sections on lines of their own', () => {
+    const output = generateLLMOutput([file('src/a.ts', 'const a = 1;'), file('src/b.ts', 'const b = 2;')], {
+      template: { id: 'example', ...EXAMPLE_TEMPLATE },
+      preamble: true,
+    });
+    output.split('\n').filter(line => line.includes('###')).forEach(line => expect(line).toMatch(/^### /));
+    expect(output).not.toMatch(/---\S/);
+  });
+
+  it('keeps part headers on lines of their own when chunked', () => {
+    const files = Array.from({ length: 8 }, (_, i) => file(`src/f${i}.ts`, `export const v${i} = ${'1 + '.repeat(40)}1;`));
+    const chunks = generateChunks(files, 300, { template: { id: 'example', ...EXAMPLE_TEMPLATE }, preamble: true });
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      chunk.split('\n').filter(line => line.includes('###')).forEach(line => expect(line).toMatch(/^### /));
+      expect(chunk).not.toMatch(/---\S/);
+    });
+  });
+
+  it('recognises file starts for navigation', () => {
+    const formatter = createTemplateFormatter(template('{{#each files}}\n=== {{path}} ===\n{{content}}\n{{/each}}'));
+    expect(formatter.parseLine('=== src/a.ts ===')).toEqual({ kind: 'start', path: 'src/a.ts' });
+  });
+});
@@ -0,0 +1,348 @@
+import { OutputFormat, OutputTemplate } from '../types';
+import { getFormatter, getLanguage, OutputFormatter, ParsedLine } from './outputFormats';
+
+/**
+ * A small Mustache-like language for user-defined output layouts:
+ *   {{name}}                                   variable
+ *   {{#if name}} ... {{else}} ... {{/if}}      conditional (also {{#unless}})
+ *   {{#each files}} ... {{/each}}              loop over the files of the document (one per template)
+ *   {{! comment }}                             ignored; "\{{" emits a literal "{{"
+ * Block tags alone on a line take the whole line with them, so templates can be laid out
+ * one tag per line without leaving blank lines in the output.
+ */
+
+export const TEMPLATE_VARIABLES: { name: string; scope: 'document' | 'file'; description: string }[] = [
+  { name: 'chunkIndex', scope: 'document', description: 'Part number, starting at 1' },
+  { name: 'totalChunks', scope: 'document', description: 'Number of parts' },
+  { name: 'chunked', scope: 'document', description: 'True when the output is split into parts' },
+  { name: 'isFirstChunk', scope: 'document', description: 'True for the first part' },
+  { name: 'isLastChunk', scope: 'document', description: 'True for the last part' },
+  { name: 'path', scope: 'file', description: 'File path' },
+  { name: 'name', scope: 'file', description: 'File name' },
+  { name: 'content', scope: 'file', description: 'File content' },
+  { name: 'summary', scope: 'file', description: 'AI summary, if generated and enabled' },
+  { name: 'tokens', scope: 'file', description: 'Estimated tokens of the content' },
+  { name: 'language', scope: 'file', description: 'Language id, e.g. "typescript"' },
+  { name: 'index', scope: 'file', description: 'Position of the file in the output, starting at 1' },
+  { name: 'filePart', scope: 'file', description: 'For a file split across chunks, e.g. "2/5"; empty otherwise' },
+  { name: 'lineRange', scope: 'file', description: 'Line range of a split file\'s part, e.g. "120-240"; empty otherwise' },
+];
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'var'; name: string }
+  | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Token =
+  | { kind: 'text'; text: string }
+  | { kind: 'var'; name: string; line: number }
+  | { kind: 'open'; block: 'if' | 'unless' | 'each'; name: string; line: number }
+  | { kind: 'close'; block: string; line: number }
+  | { kind: 'else'; line: number };
+
+const NAME = /^[A-Za-z_]\w*$/;
+
+// File items are rendered before the part they land in is known, so these are not available inside the loop
+const DOCUMENT_VARIABLES = new Set(TEMPLATE_VARIABLES.filter(v => v.scope === 'document').map(v => v.name));
+
+const tokenize = (body: string): Token[] => {
+  const tokens: Token[] = [];
+  let text = '';
+  let i = 0;
+  const lineAt = (pos: number) => body.substring(0, pos).split('\n').length;
+
+  while (i < body.length) {
+    if (body.startsWith('\\{{', i)) {
+      text += '{{';
+      i += 3;
+      continue;
+    }
+    if (!body.startsWith('{{', i)) {
+      text += body[i++];
+      continue;
+    }
+
+    const end = body.indexOf('}}', i + 2);
+    const line = lineAt(i);
+    if (end === -1) throw new Error(`Line ${line}: unclosed "{{"`);
+    const inner = body.substring(i + 2, end).trim();
+    let tagEnd = end + 2;
+
+    let token: Token | null;
+    if (inner.startsWith('!')) {
+      token = null;
+    } else if (inner === 'else') {
+      token = { kind: 'else', line };
+    } else if (inner.startsWith('#')) {
+      const [block, name, ...rest] = inner.substring(1).trim().split(/\s+/);
+      if (block !== 'if' && block !== 'unless' && block !== 'each') throw new Error(`Line ${line}: unknown block "#${block}"`);
+      if (!name || !NAME.test(name) || rest.length > 0) throw new Error(`Line ${line}: "#${block}" needs exactly one variable name`);
+      token = { kind: 'open', block, name, line };
+    } else if (inner.startsWith('/')) {
+      token = { kind: 'close', block: inner.substring(1).trim(), line };
+    } else if (NAME.test(inner)) {
+      token = { kind: 'var', name: inner, line };
+    } else {
+      throw new Error(`Line ${line}: "{{${inner}}}" is not a variable name`);
+    }
+
+    // A block tag alone on its line swallows the line's indentation and newline
+    if (token?.kind !== 'var') {
+      const before = body.substring(body.lastIndexOf('\n', i - 1) + 1, i);
+      const after = body.substring(tagEnd).match(/^[ \t]*(\r?\n|$)/);
+      if (before.trim() === '' && after) {
+        text = text.substring(0, text.length - before.length);
+        tagEnd += after[0].length;
+      }
+    }
+
+    if (text) tokens.push({ kind: 'text', text });
+    text = '';
+    if (token) tokens.push(token);
+    i = tagEnd;
+  }
+
+  if (text) tokens.push({ kind: 'text', text });
+  return tokens;
+};
+
+// Builds the node tree; throws with a line number on unbalanced or misplaced tags
+const parseTemplate = (body: string): TemplateNode[] => {
+  const tokens = tokenize(body);
+  let pos = 0;
+  let filesLoop: Extract<Token, { kind: 'open' }> | null = null;
+
+  const parseUntilClose = (open?: Extract<Token, { kind: 'open' }>, inFiles = false): { nodes: TemplateNode[]; otherwise: TemplateNode[] } => {
+    const nodes: TemplateNode[] = [];
+    const otherwise: TemplateNode[] = [];
+    let target = nodes;
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if ((token.kind === 'var' || token.kind === 'open') && inFiles && DOCUMENT_VARIABLES.has(token.name)) {
+        throw new Error(`Line ${token.line}: "${token.name}" is a document variable; use it outside {{#each files}}`);
+      }
+      if (token.kind === 'text') target.push({ type: 'text', text: token.text });
+      else if (token.kind === 'var') target.push({ type: 'var', name: token.name });
+      else if (token.kind === 'else') {
+        if (!open || target === otherwise) throw new Error(`Line ${token.line}: unexpected {{else}}`);
+        target = otherwise;
+      } else if (token.kind === 'close') {
+        if (!open) throw new Error(`Line ${token.line}: unexpected {{/${token.block}}}`);
+        if (token.block !== open.block) {
+          throw new Error(`Line ${token.line}: {{/${token.block}}} closes {{#${open.block} ${open.name}}} from line ${open.line}`);
+        }
+        return { nodes, otherwise };
+      } else {
+        const isFilesLoop = token.block === 'each' && token.name === 'files';
+        if (isFilesLoop && filesLoop) {
+          throw new Error(`Line ${token.line}: only one {{#each files}} block is allowed (the first is on line ${filesLoop.line})`);
+        }
+        if (isFilesLoop) filesLoop = token;
+        const inner = parseUntilClose(token, inFiles || isFilesLoop);
+        target.push(token.block === 'each'
+          ? { type: 'each', name: token.name, body: inner.nodes, otherwise: inner.otherwise }
+          : { type: 'if', name: token.name, negate: token.block === 'unless', then: inner.nodes, otherwise: inner.otherwise });
+      }
+    }
+    if (open) throw new Error(`Line ${open.line}: {{#${open.block} ${open.name}}} is never closed`);
+    return { nodes, otherwise };
+  };
+
+  const { nodes } = parseUntilClose();
+  if (!nodes.some(n => n.type === 'each' && n.name === 'files')) {
+    throw new Error('Templates need a top-level {{#each files}} ... {{/each}} block');
+  }
+  return nodes;
+};
+
+// --- Rendering ---
+
+type Scope = Record<string, unknown>;
+
+const lookup = (scopes: Scope[], name: string): unknown => {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (name in scopes[i]) return scopes[i][name];
+  }
+  return undefined;
+};
+
+const isTruthy = (value: unknown) => Array.isArray(value) ? value.length > 0 : !!value;
+
+// `renderedFiles` stands in for the top-level files loop, whose items are rendered one by one up front
+const render = (nodes: TemplateNode[], scopes: Scope[], renderedFiles?: string): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'var': {
+      const value = lookup(scopes, node.name);
+      return value === undefined || value === null ? '' : String(value);
+    }
+    case 'if':
+      return isTruthy(lookup(scopes, node.name)) !== node.negate
+        ? render(node.then, scopes, renderedFiles)
+        : render(node.otherwise, scopes, renderedFiles);
+    case 'each': {
+      if (node.name === 'files' && renderedFiles !== undefined) {
+        return renderedFiles ? renderedFiles : render(node.otherwise, scopes);
+      }
+      const list = lookup(scopes, node.name);
+      if (!Array.isArray(list) || list.length === 0) return render(node.otherwise, scopes);
+      return list.map(item => render(node.body, [...scopes, item as Scope])).join('');
+    }
+  }
+}).join('');
+
+export const getTemplateError = (body: string): string | null => {
+  try {
+    parseTemplate(body);
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Recognises file starts in the output by rendering the loop body with marker values and
+ * turning the first line that holds the path into a pattern. Returns null when that line has
+ * no fixed text around the path, since a bare path line can't be told apart from content.
+ */
+const buildStartPattern = (loopBody: TemplateNode[]): RegExp | null => {
+  const PATH = '\u0001';
+  const OTHER = '\u0002';
+  const sample: Scope = new Proxy({}, {
+    has: () => true,
+    get: (_target, name) => name === 'path' ? PATH : OTHER,
+  });
+  const line = render(loopBody, [sample]).split('\n').find(l => l.includes(PATH));
+  if (!line || line.replace(PATH, '').split(OTHER).join('').trim() === '') return null;
+  const source = escapeRegExp(line)
+    .replace(PATH, '(.+?)')
+    .split(OTHER).join('.*?');
+  return new RegExp(`^${source}$`);
+};
+
+const formatterCache = new Map<string, OutputFormatter>();
+
+// Sections and the asset list sit between rendered files, so they get lines of their own
+const standalone = (text: string) => `${text.startsWith('\n') ? '' : '\n'}${text}\n`;
+
+/**
+ * Wraps a template as an output formatter. Sections (git diff, overview, part headers) and the
+ * asset list keep the plain layout and take a file's place in the loop.
+ */
+export const createTemplateFormatter = (template: OutputTemplate): OutputFormatter => {
+  const key = `${template.extension || ''}\u0000${template.body}`;
+  const cached = formatterCache.get(key);
+  if (cached) return cached;
+
+  const nodes = parseTemplate(template.body);
+  const loop = nodes.find((n): n is Extract<TemplateNode, { type: 'each' }> => n.type === 'each' && n.name === 'files')!;
+  const startPattern = buildStartPattern(loop.body);
+  const plain = getFormatter('plain');
+
+  const formatter: OutputFormatter = {
+    id: 'template',
+    label: template.name,
+    fileExtension: template.extension || 'txt',
+    mimeType: 'text/plain',
+    file: (f, index, summary, piece) => render(loop.body, [{
+      path: f.path,
+      name: f.name,
+      content: f.content,
+      summary: summary || '',
+      tokens: f.tokens ?? Math.ceil(f.content.length / 4),
+      language: getLanguage(f.path),
+      index,
+      filePart: piece ? `${piece.index}/${piece.total}` : '',
+      lineRange: piece ? `${piece.startLine}-${piece.endLine}` : '',
+    }]),
+    assets: assets => standalone(plain.assets(assets)),
+    section: section => standalone(plain.section(section)),
+    document: (items, part = { index: 1, total: 1 }) => render(nodes, [{
+      chunkIndex: part.index,
+      totalChunks: part.total,
+      chunked: part.total > 1,
+      isFirstChunk: part.index === 1,
+      isLastChunk: part.index === part.total,
+    }], items.join('')),
+    parseLine: (line): ParsedLine => {
+      const start = startPattern ? line.match(startPattern) : null;
+      if (start) return { kind: 'start', path: start[1] };
+      return plain.parseLine(line);
+    },
+  };
+
+  if (formatterCache.size > 20) formatterCache.clear();
+  formatterCache.set(key, formatter);
+  return formatter;
+};
+
+// Built-in format, or the user template when one is active and valid
+export const resolveFormatter = (format?: OutputFormat, template?: OutputTemplate | null): OutputFormatter =>
+  template && getTemplateError(template.body) === null ? createTemplateFormatter(template) : getFormatter(format);
+
+// --- Persistence & Sharing ---
+
+const TEMPLATES_KEY = 'codecontext.outputTemplates';
+
+export const EXAMPLE_TEMPLATE: Omit<OutputTemplate, 'id'> = {
+  name: 'Review Request',
+  extension: 'md',
+  body: [
+    'You are reviewing a codebase{{#if chunked}} (part {{chunkIndex}} of {{totalChunks}}){{/if}}.',
+    '',
+    '{{#each files}}',
+    '### {{path}} ({{language}}, ~{{tokens}} tokens)',
+    '{{#if summary}}',
+    '> {{summary}}',
+    '{{/if}}',
+    '{{content}}',
+    '',
+    '{{/each}}',
+    '{{#if isLastChunk}}',
+    'Task: describe what you want done with this code.',
+    '{{else}}',
+    'More files follow. Reply "OK" and wait for the last part before answering.',
+    '{{/if}}',
+    '',
+  ].join('\n'),
+};
+
+export const createTemplateId = () => `tpl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const loadOutputTemplates = (): OutputTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveOutputTemplates = (templates: OutputTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.warn('Could not persist output templates', e);
+  }
+};
+
+// Shared form drops the local id so imports never collide with existing templates
+export const exportTemplate = (template: OutputTemplate): string =>
+  JSON.stringify({ name: template.name, extension: template.extension, body: template.body }, null, 2);
+
+export const importTemplate = (json: string): OutputTemplate => {
+  const parsed = JSON.parse(json);
+  if (!parsed || typeof parsed.body !== 'string') throw new Error('Not a template: expected an object with a "body" string');
+  const error = getTemplateError(parsed.body);
+  if (error) throw new Error(error);
+  return {
+    id: createTemplateId(),
+    name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : 'Imported Template',
+    extension: typeof parsed.extension === 'string' ? parsed.extension.replace(/[^a-z0-9]/gi, '') || undefined : undefined,
+    body: parsed.body,
+  };
+};
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { readOversizedFile, DEFAULT_OVERSIZE_SETTINGS, FULL_READ_LIMIT } from './oversizedFiles';
+
+describe('readOversizedFile', () => {
+  it('keeps UTF-8 when the head and tail windows cut through multibyte characters', async () => {
+    // Three-byte characters straddle both window edges (FULL_READ_LIMIT / 2 from either end)
+    const window = FULL_READ_LIMIT / 2;
+    const edge = 'grüße\n';
+    const edgeBytes = new TextEncoder().encode(edge).length;
+    const file = new File([
+      edge, 'a'.repeat(window - 1 - edgeBytes), '日本\n',
+      'const x = 1;\n'.repeat(65536),
+      '語', 'b'.repeat(window - 2 - edgeBytes), edge,
+    ], 'big.ts');
+    const result = await readOversizedFile(file, 'head-tail', DEFAULT_OVERSIZE_SETTINGS);
+    expect(result.encoding).toBe('utf-8');
+    expect(result.content.match(/grüße/g)).toHaveLength(2);
+    expect(result.content).not.toContain('�');
+  });
+});
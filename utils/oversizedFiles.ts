@@ -0,0 +1,213 @@
+import { OversizeStrategy, OversizeSettings } from '../types';
+import { createPatternMatcher, readTextFile, MAX_FILE_SIZE } from './fileProcessing';
+import { decodeText, DecodedText } from './textDecoding';
+
+export const OVERSIZE_STRATEGIES: { value: OversizeStrategy; label: string }[] = [
+  { value: 'head-tail', label: 'Head + Tail' },
+  { value: 'first-lines', label: 'First N Lines' },
+  { value: 'outline', label: 'Structural Outline' },
+  { value: 'sampled', label: 'Sampled Sections' },
+  { value: 'placeholder', label: 'Placeholder Only' },
+];
+
+export const DEFAULT_OVERSIZE_SETTINGS: OversizeSettings = {
+  maxFileSize: MAX_FILE_SIZE,
+  excerptLines: 200,
+  defaultStrategy: 'head-tail',
+  rules: [],
+};
+
+// Files beyond this are never loaded whole; only their head and tail bytes are decoded
+export const FULL_READ_LIMIT = 32 * 1024 * 1024;
+const SAMPLED_SECTIONS = 5;
+
+// Declarations worth keeping in an outline across common languages, schemas and SQL dumps
+const OUTLINE_PATTERN = new RegExp([
+  '^\\s*(export\\s+)?(default\\s+)?(abstract\\s+)?(async\\s+)?(function|class|interface|type|enum|namespace|module)\\b',
+  '^\\s*(pub(\\(crate\\))?\\s+)?(fn|struct|trait|impl|mod)\\b',
+  '^\\s*(def|class)\\s',
+  '^func\\s',
+  '^\\s*(public|private|protected)\\s.*[({]\\s*$',
+  '^\\s*(CREATE|ALTER)\\s+(TABLE|VIEW|INDEX|UNIQUE INDEX|FUNCTION|PROCEDURE|TRIGGER|TYPE|SCHEMA)\\b',
+  '^\\s*(message|service|enum|schema|input|query|mutation)\\s+\\w+\\s*\\{',
+  '^#{1,6}\\s',
+].join('|'), 'i');
+
+export const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const elision = (from: number, to: number) =>
+  `[... ${(to - from + 1).toLocaleString()} lines omitted (lines ${from.toLocaleString()}-${to.toLocaleString()}) ...]`;
+
+export const resolveOversizeStrategy = (path: string, settings: OversizeSettings): OversizeStrategy => {
+  const rule = settings.rules.find(r => r.pattern === path || createPatternMatcher(r.pattern).test(path));
+  return rule ? rule.strategy : settings.defaultStrategy;
+};
+
+const headTail = (lines: string[], budget: number): string => {
+  if (lines.length <= budget) return lines.join('\n');
+  const head = Math.ceil(budget / 2);
+  const tail = Math.floor(budget / 2);
+  return [
+    ...lines.slice(0, head),
+    elision(head + 1, lines.length - tail),
+    ...lines.slice(lines.length - tail),
+  ].join('\n');
+};
+
+const firstLines = (lines: string[], budget: number): string => {
+  if (lines.length <= budget) return lines.join('\n');
+  return [...lines.slice(0, budget), elision(budget + 1, lines.length)].join('\n');
+};
+
+const sampled = (lines: string[], budget: number): string => {
+  if (lines.length <= budget) return lines.join('\n');
+  const sectionSize = Math.max(1, Math.floor(budget / SAMPLED_SECTIONS));
+  const stride = Math.floor((lines.length - sectionSize) / (SAMPLED_SECTIONS - 1));
+  const out: string[] = [];
+  let cursor = 0;
+  for (let s = 0; s < SAMPLED_SECTIONS; s++) {
+    const start = s === SAMPLED_SECTIONS - 1 ? lines.length - sectionSize : s * stride;
+    if (start > cursor) out.push(elision(cursor + 1, start));
+    out.push(...lines.slice(start, start + sectionSize));
+    cursor = start + sectionSize;
+  }
+  return out.join('\n');
+};
+
+const outline = (lines: string[], budget: number): string | null => {
+  const matches: string[] = [];
+  for (let i = 0; i < lines.length && matches.length < budget; i++) {
+    if (OUTLINE_PATTERN.test(lines[i])) {
+      matches.push(`L${i + 1}: ${lines[i].trim()}`);
+    }
+  }
+  return matches.length > 0 ? matches.join('\n') : null;
+};
+
+// Very long lines (minified bundles, single-line JSON) can blow past the cap even in an excerpt
+export const clampChars = (text: string, maxChars: number): string => {
+  if (text.length <= maxChars) return text;
+  const half = Math.floor(maxChars / 2);
+  const omitted = text.length - half * 2;
+  return `${text.substring(0, half)}\n[... ${omitted.toLocaleString()} characters omitted ...]\n${text.substring(text.length - half)}`;
+};
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const isContinuationByte = (byte: number) => (byte & 0xc0) === 0x80;
+
+// Bytes in the UTF-8 sequence a lead byte starts (1 for ASCII and for stray continuation bytes)
+const sequenceLength = (byte: number) => byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+
+// A window cut at a byte offset can end partway through a character, which would fail the
+// UTF-8 validity check and send the whole file to a legacy encoding; drop the partial character
+const trimPartialUtf8End = (bytes: Uint8Array): Uint8Array => {
+  for (let back = 1; back <= Math.min(3, bytes.length); back++) {
+    const byte = bytes[bytes.length - back];
+    if (isContinuationByte(byte)) continue;
+    return sequenceLength(byte) > back ? bytes.subarray(0, bytes.length - back) : bytes;
+  }
+  return bytes;
+};
+
+// The same at the start of a window: skip the continuation bytes of a character begun before it
+const trimPartialUtf8Start = (bytes: Uint8Array): Uint8Array => {
+  let start = 0;
+  while (start < Math.min(3, bytes.length) && isContinuationByte(bytes[start])) start++;
+  return bytes.subarray(start);
+};
+
+export interface ReadResult extends DecodedText {
+  oversizeStrategy?: OversizeStrategy;
+}
+
+/**
+ * Reduces a file above the size cap according to the strategy, prefixing a note that
+ * describes what was omitted. Files too big to load whole are read as head and tail windows.
+ */
+export const readOversizedFile = async (
+  file: File,
+  strategy: OversizeStrategy,
+  settings: OversizeSettings,
+  encodingOverride?: string
+): Promise<ReadResult> => {
+  if (strategy === 'placeholder') {
+    return { content: `[File too large: ${file.size} bytes. Skipped content.]`, encoding: 'unknown', isBinary: false, oversizeStrategy: strategy };
+  }
+
+  let decoded: DecodedText;
+  let partialRead = false;
+  if (file.size <= FULL_READ_LIMIT) {
+    decoded = decodeText(await readBytes(file), encodingOverride);
+  } else {
+    partialRead = true;
+    const window = FULL_READ_LIMIT / 2;
+    const headBytes = await readBytes(file.slice(0, window));
+    const trimmed = trimPartialUtf8End(headBytes);
+    let head = decodeText(trimmed, encodingOverride);
+    // Trimming only applies to UTF-8; other encodings (e.g. UTF-16) decode the window as read
+    if (head.encoding !== 'utf-8' && trimmed !== headBytes) head = decodeText(headBytes, encodingOverride);
+    if (head.isBinary) return { ...head, oversizeStrategy: strategy };
+    const tailBytes = await readBytes(file.slice(file.size - window));
+    const tail = decodeText(head.encoding === 'utf-8' ? trimPartialUtf8Start(tailBytes) : tailBytes, head.encoding);
+    const skippedBytes = file.size - window * 2;
+    decoded = { ...head, content: `${head.content}\n[... ${formatSize(skippedBytes)} not read ...]\n${tail.content}` };
+  }
+  if (decoded.isBinary) return { ...decoded, oversizeStrategy: strategy };
+
+  const lines = decoded.content.split('\n');
+  const budget = settings.excerptLines;
+  let appliedStrategy = strategy;
+  let body: string;
+
+  switch (strategy) {
+    case 'first-lines':
+      body = firstLines(lines, budget);
+      break;
+    case 'sampled':
+      body = sampled(lines, budget);
+      break;
+    case 'outline': {
+      const result = outline(lines, budget);
+      if (result === null) {
+        // Nothing structural to show; an excerpt is more useful than an empty outline
+        appliedStrategy = 'head-tail';
+        body = headTail(lines, budget);
+      } else {
+        body = result;
+      }
+      break;
+    }
+    case 'head-tail':
+    default:
+      body = headTail(lines, budget);
+      break;
+  }
+
+  const label = OVERSIZE_STRATEGIES.find(s => s.value === appliedStrategy)?.label || appliedStrategy;
+  const omitted = appliedStrategy === 'outline'
+    ? 'only declaration lines are listed, prefixed with their line numbers'
+    : 'omitted ranges are marked inline';
+  const note = `[Oversized file: ${formatSize(file.size)}, ${lines.length.toLocaleString()}${partialRead ? '+' : ''} lines. ` +
+    `Strategy: ${label} (${budget} line budget); ${omitted}.]`;
+
+  return {
+    ...decoded,
+    content: `${note}\n${clampChars(body, settings.maxFileSize)}`,
+    oversizeStrategy: appliedStrategy,
+  };
+};
+
+// Full read under the cap, strategy-driven excerpt above it
+export const readFileWithSettings = async (
+  file: File,
+  path: string,
+  settings: OversizeSettings,
+  encodingOverride?: string
+): Promise<ReadResult> => {
+  if (file.size <= settings.maxFileSize) {
+    return readTextFile(file, encodingOverride, settings.maxFileSize);
+  }
+  return readOversizedFile(file, resolveOversizeStrategy(path, settings), settings, encodingOverride);
+};
@@ -0,0 +1,137 @@
+/**
+ * Local BM25F ranking of files against a free-text question, so relevant files can be
+ * selected without an API key. Each file is indexed in three fields (path, declared symbol
+ * names and content) and identifiers are split into their camelCase / snake_case parts, so
+ * "token limit" matches `tokenLimit`, `TOKEN_LIMIT` and `token-limit.ts` alike.
+ */
+
+type Field = 'path' | 'symbols' | 'content';
+
+const FIELDS: Field[] = ['path', 'symbols', 'content'];
+
+// Path and symbol hits say more about what a file is about than a mention in its body
+const FIELD_WEIGHTS: Record<Field, number> = { path: 3, symbols: 2, content: 1 };
+// Length normalization per field; paths are short and similar in length, so barely normalized
+const FIELD_B: Record<Field, number> = { path: 0.3, symbols: 0.6, content: 0.75 };
+const K1 = 1.2;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+  'we', 'our', 'you', 'your', 'i', 'my', 'me', 'not', 'no', 'if', 'else', 'then', 'there', 'all', 'any', 'get',
+  'set', 'new', 'var', 'let', 'const', 'function', 'return', 'import', 'export', 'default', 'class', 'def', 'self',
+  'true', 'false', 'null', 'undefined', 'none', 'void', 'public', 'private', 'static', 'async', 'await',
+  'fn', 'func', 'pub', 'use', 'mod', 'type', 'interface', 'struct', 'impl', 'package', 'string', 'number',
+]);
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*|\d+/g;
+
+// Declarations across TS/JS, Python, Go, Rust, Java and friends; Go receivers are skipped
+const DECLARATION = /\b(?:function\*?|class|interface|type|enum|struct|trait|impl|def|fn|const|let|var|module|namespace|record)\s+([A-Za-z_$][\w$]*)|\bfunc\s*(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/g;
+
+// Light plural folding, applied to documents and queries alike
+const normalize = (term: string): string => {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+};
+
+// Splits identifiers into lowercase parts, keeping the joined identifier as a term too
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const [word] of text.matchAll(IDENTIFIER)) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(p => p.toLowerCase())
+      .filter(p => p.length > 1 && !/^\d+$/.test(p));
+    if (parts.length > 1) terms.push(normalize(parts.join('')));
+    parts.forEach(p => { if (!STOPWORDS.has(p)) terms.push(normalize(p)); });
+  }
+  return terms;
+};
+
+export interface IndexedDocument {
+  path: string;
+  lengths: Record<Field, number>;
+  terms: Map<string, number[]>; // Term frequency per field, in FIELDS order
+}
+
+export const indexDocument = (path: string, content: string): IndexedDocument => {
+  const symbols = Array.from(content.matchAll(DECLARATION), m => m[1] || m[2]).join(' ');
+  const fields: Record<Field, string[]> = {
+    path: tokenize(path),
+    symbols: tokenize(symbols),
+    content: tokenize(content),
+  };
+  const terms = new Map<string, number[]>();
+  FIELDS.forEach((field, i) => fields[field].forEach(term => {
+    let tf = terms.get(term);
+    if (!tf) {
+      tf = [0, 0, 0];
+      terms.set(term, tf);
+    }
+    tf[i]++;
+  }));
+  return { path, lengths: { path: fields.path.length, symbols: fields.symbols.length, content: fields.content.length }, terms };
+};
+
+export interface SearchResult {
+  path: string;
+  score: number;
+  matched: string[]; // Query terms found in the file
+}
+
+// Files with a positive score, best first. Corpus statistics come from the documents given,
+// so the ranking always reflects the current project
+export const rankDocuments = (docs: IndexedDocument[], query: string): SearchResult[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || docs.length === 0) return [];
+
+  const averages = FIELDS.map(field => docs.reduce((acc, d) => acc + d.lengths[field], 0) / docs.length || 1);
+  const idf = new Map(queryTerms.map(term => {
+    const df = docs.reduce((acc, d) => acc + (d.terms.has(term) ? 1 : 0), 0);
+    return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  const results: SearchResult[] = [];
+  docs.forEach(doc => {
+    let score = 0;
+    const matched: string[] = [];
+    queryTerms.forEach(term => {
+      const tf = doc.terms.get(term);
+      if (!tf) return;
+      const weighted = FIELDS.reduce((acc, field, i) =>
+        acc + FIELD_WEIGHTS[field] * tf[i] / (1 - FIELD_B[field] + FIELD_B[field] * doc.lengths[field] / averages[i]), 0);
+      score += idf.get(term)! * weighted / (K1 + weighted);
+      matched.push(term);
+    });
+    if (score > 0) results.push({ path: doc.path, score, matched });
+  });
+  return results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+};
+
+// Without a token limit, files scoring below this fraction of the best one are left out
+const MIN_RELATIVE_SCORE = 0.2;
+
+/**
+ * Greedy fill in rank order: files that would overflow the budget are skipped in favour of
+ * smaller ones further down. A limit of 0 means no budget (see MIN_RELATIVE_SCORE).
+ */
+export const selectWithinBudget = (results: SearchResult[], tokensOf: (path: string) => number, tokenLimit: number): Set<string> => {
+  const selected = new Set<string>();
+  if (results.length === 0) return selected;
+  if (tokenLimit === 0) {
+    results.forEach(r => { if (r.score >= results[0].score * MIN_RELATIVE_SCORE) selected.add(r.path); });
+    return selected;
+  }
+  let used = 0;
+  for (const r of results) {
+    const tokens = tokensOf(r.path);
+    if (used + tokens > tokenLimit) continue;
+    selected.add(r.path);
+    used += tokens;
+  }
+  return selected;
+};
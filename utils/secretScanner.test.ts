@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { scanSecrets, redactSecrets, BUILTIN_SECRET_RULES } from './secretScanner';
+
+const awsKey = (n: number) => `AKIA${n.toString().padStart(16, '0')}`;
+
+describe('scanSecrets', () => {
+  it('redacts every match even past the findings shown per file', () => {
+    const content = Array.from({ length: 250 }, (_, i) => `key${i} = "${awsKey(i)}"`).join('\n');
+    const { findings, placeholders } = scanSecrets([{ path: 'keys.txt', content }], BUILTIN_SECRET_RULES, new Set());
+    expect(findings.length).toBe(200);
+    expect(placeholders.size).toBe(250);
+    const redacted = redactSecrets(content, placeholders);
+    expect(redacted).not.toMatch(/AKIA\d{16}/);
+    expect(redacted).toContain('<REDACTED:aws_key_250>');
+  });
+
+  it('gives the same value the same placeholder across files', () => {
+    const { findings } = scanSecrets(
+      [{ path: 'a.env', content: `id=${awsKey(1)}` }, { path: 'b.env', content: `other=${awsKey(1)}` }],
+      BUILTIN_SECRET_RULES,
+      new Set()
+    );
+    expect(findings.map(f => f.placeholder)).toEqual(['<REDACTED:aws_key_1>', '<REDACTED:aws_key_1>']);
+  });
+});
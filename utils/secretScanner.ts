@@ -0,0 +1,231 @@
+import { SecretRule, SecretSettings } from '../types';
+import { hashContent } from './fileProcessing';
+
+export interface SecretFinding {
+  path: string;
+  ruleId: string;
+  label: string;
+  line: number;
+  value: string;       // Never rendered; the UI shows maskSecret(value)
+  fingerprint: string; // Allow-list key, so the list itself never stores secrets
+  placeholder: string | null; // null when allow-listed
+}
+
+export interface SecretScanResult {
+  findings: SecretFinding[];
+  placeholders: Map<string, string>; // Secret value -> placeholder, allow-listed values excluded
+}
+
+export const BUILTIN_SECRET_RULES: SecretRule[] = [
+  // Service-account JSON embeds a PEM with escaped newlines; matched before the generic PEM rule
+  { id: 'gcp_service_account', label: 'GCP service account key', pattern: '"private_key"\\s*:\\s*"(-----BEGIN [A-Z ]*PRIVATE KEY-----[^"]+-----END [A-Z ]*PRIVATE KEY-----(?:\\\\n)?)"', group: 1 },
+  { id: 'gcp_key_id', label: 'GCP private key ID', pattern: '"private_key_id"\\s*:\\s*"([0-9a-f]{40})"', group: 1 },
+  { id: 'private_key', label: 'PEM private key', pattern: '-----BEGIN ([A-Z ]*)PRIVATE KEY-----[\\s\\S]*?-----END \\1PRIVATE KEY-----' },
+  { id: 'aws_key', label: 'AWS access key ID', pattern: '\\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\\b' },
+  { id: 'aws_secret', label: 'AWS secret access key', pattern: 'aws.{0,20}?(?:secret|private).{0,20}?[\'"=:\\s]+([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])', flags: 'i', group: 1 },
+  { id: 'jwt', label: 'JSON Web Token', pattern: '\\beyJ[A-Za-z0-9_-]{10,}\\.eyJ[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}' },
+  { id: 'github_token', label: 'GitHub token', pattern: '\\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\\b' },
+  { id: 'google_api_key', label: 'Google API key', pattern: '\\bAIza[0-9A-Za-z_-]{35}\\b' },
+  { id: 'slack_token', label: 'Slack token', pattern: '\\bxox[abprs]-[A-Za-z0-9-]{10,}\\b' },
+  { id: 'stripe_key', label: 'Stripe secret key', pattern: '\\b[rs]k_live_[0-9a-zA-Z]{24,}\\b' },
+  { id: 'env_secret', label: 'Secret in env assignment', pattern: '^\\s*(?:export\\s+)?[A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|PWD|CREDENTIALS?)[A-Z0-9_]*\\s*=\\s*[\'"]?([^\\s\'"$#]{8,})', flags: 'm', group: 1 },
+  { id: 'secret', label: 'Hard-coded credential', pattern: '(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credential|auth[_-]?key|access[_-]?key)[\\w-]*[\'"]?\\s*[:=]\\s*[\'"]([^\'"\\s$]{8,})[\'"]', flags: 'i', group: 1, minEntropy: 3 },
+  { id: 'high_entropy', label: 'High-entropy string', pattern: '[\'"`]([A-Za-z0-9+/=_-]{24,})[\'"`]', group: 1, minEntropy: 4.5 },
+];
+
+// Lockfiles are full of integrity hashes that look random by design
+const ENTROPY_EXEMPT_PATH = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|[^/]+\.lock|go\.sum)$/;
+// Only the findings listed in the UI are capped; every match is still redacted
+const MAX_FINDINGS_PER_FILE = 200;
+const SETTINGS_KEY = 'codecontext.secretSettings';
+
+export const DEFAULT_SECRET_SETTINGS: SecretSettings = { customRules: [], allowList: [] };
+
+export const shannonEntropy = (text: string): number => {
+  const counts = new Map<string, number>();
+  for (const ch of text) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+};
+
+export const maskSecret = (value: string): string => {
+  const firstLine = value.split(/\r?\n|\\n/)[0];
+  const visible = firstLine.length > 12 ? firstLine.substring(0, 4) : '';
+  return `${visible}${'•'.repeat(8)} (${value.length} chars)`;
+};
+
+export const isValidPattern = (pattern: string, flags = ''): boolean => {
+  try {
+    new RegExp(pattern, flags);
+    return pattern.length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const compileRule = (rule: SecretRule): RegExp | null => {
+  const flags = new Set((rule.flags || '').split(''));
+  flags.add('g');
+  try {
+    return new RegExp(rule.pattern, Array.from(flags).join(''));
+  } catch {
+    console.warn(`Invalid secret rule ${rule.id}: ${rule.pattern}`);
+    return null;
+  }
+};
+
+export interface CompiledSecretRule {
+  rule: SecretRule;
+  regex: RegExp;
+}
+
+export const compileSecretRules = (rules: SecretRule[]): CompiledSecretRule[] => rules
+  .map(rule => ({ rule, regex: compileRule(rule) }))
+  .filter((r): r is CompiledSecretRule => r.regex !== null);
+
+// A detected value in one file, before placeholders are assigned across files
+export interface SecretMatch {
+  ruleId: string;
+  label: string;
+  line: number;
+  value: string;
+  fingerprint: string;
+}
+
+// Line number of every offset, by binary search over the line starts
+const createLineLocator = (content: string) => {
+  const starts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) starts.push(i + 1);
+  return (offset: number) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >>> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+};
+
+/**
+ * Matches of every rule in one file, rule by rule in rule order. Overlapping matches go to the
+ * earlier rule. Depends only on the file and the rules, so callers can cache it by content hash.
+ */
+export const matchSecrets = (source: { path: string; content: string }, rules: CompiledSecretRule[]): SecretMatch[] => {
+  const taken: [number, number][] = [];
+  const matches: SecretMatch[] = [];
+  const lineAt = createLineLocator(source.content);
+
+  for (const { rule, regex } of rules) {
+    if (rule.minEntropy && ENTROPY_EXEMPT_PATH.test(source.path)) continue;
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(source.content)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      const value = rule.group ? match[rule.group] : match[0];
+      if (!value) continue;
+      const start = match.index + (rule.group ? match[0].indexOf(value) : 0);
+      const end = start + value.length;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      if (rule.minEntropy && shannonEntropy(value) < rule.minEntropy) continue;
+      taken.push([start, end]);
+      matches.push({ ruleId: rule.id, label: rule.label, line: lineAt(start), value, fingerprint: hashContent(value) });
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Assigns placeholders to the matches of every file, in file order. The same secret value always
+ * maps to the same placeholder, numbered per rule in order of first appearance, so outputs stay
+ * consistent across files and chunks.
+ */
+export const collectSecrets = (files: { path: string; matches: SecretMatch[] }[], allowList: Set<string>): SecretScanResult => {
+  const findings: SecretFinding[] = [];
+  const placeholders = new Map<string, string>();
+  const counters = new Map<string, number>();
+
+  for (const { path, matches } of files) {
+    const fileFindings: SecretFinding[] = [];
+    for (const match of matches) {
+      let placeholder: string | null = null;
+      if (!allowList.has(match.fingerprint)) {
+        placeholder = placeholders.get(match.value) || null;
+        if (!placeholder) {
+          const n = (counters.get(match.ruleId) || 0) + 1;
+          counters.set(match.ruleId, n);
+          placeholder = `<REDACTED:${match.ruleId}_${n}>`;
+          placeholders.set(match.value, placeholder);
+        }
+      }
+      if (fileFindings.length < MAX_FINDINGS_PER_FILE) fileFindings.push({ path, ...match, placeholder });
+    }
+    findings.push(...fileFindings.sort((a, b) => a.line - b.line));
+  }
+
+  return { findings, placeholders };
+};
+
+// Scans text sources with the given rules (see matchSecrets and collectSecrets)
+export const scanSecrets = (
+  sources: { path: string; content: string }[],
+  rules: SecretRule[],
+  allowList: Set<string>
+): SecretScanResult => {
+  const compiled = compileSecretRules(rules);
+  return collectSecrets(sources.map(source => ({ path: source.path, matches: matchSecrets(source, compiled) })), allowList);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const redactionPatterns = new WeakMap<Map<string, string>, RegExp>();
+
+// Replaces every occurrence of a detected secret, wherever it appears, with its placeholder
+export const redactSecrets = (text: string, placeholders: Map<string, string>): string => {
+  if (placeholders.size === 0) return text;
+  let regex = redactionPatterns.get(placeholders);
+  if (!regex) {
+    // Longest first so a secret containing another is replaced whole
+    const values = Array.from(placeholders.keys()).sort((a, b) => b.length - a.length);
+    regex = new RegExp(values.map(escapeRegExp).join('|'), 'g');
+    redactionPatterns.set(placeholders, regex);
+  }
+  return text.replace(regex, value => placeholders.get(value) || value);
+};
+
+// Redacted text by path, only for the sources that contained a secret
+export const redactSources = (sources: { path: string; content: string }[], placeholders: Map<string, string>): Record<string, string> => {
+  const redacted: Record<string, string> = {};
+  if (placeholders.size === 0) return redacted;
+  sources.forEach(({ path, content }) => {
+    const text = redactSecrets(content, placeholders);
+    if (text !== content) redacted[path] = text;
+  });
+  return redacted;
+};
+
+export const loadSecretSettings = (): SecretSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SECRET_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SECRET_SETTINGS;
+  } catch {
+    return DEFAULT_SECRET_SETTINGS;
+  }
+};
+
+export const saveSecretSettings = (settings: SecretSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Could not persist secret settings', e);
+  }
+};
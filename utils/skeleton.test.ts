@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { buildSkeletons } from './skeleton';
+
+describe('buildSkeletons', () => {
+  it('builds non-TS skeletons when the TypeScript compiler cannot be loaded', async () => {
+    // Node can't import the compiler's CDN URL, which stands in for a failed download
+    const { skeletons, compilerError } = await buildSkeletons([
+      { path: 'app.ts', content: 'export const add = (a: number, b: number) => {\n  return a + b;\n};' },
+      { path: 'util.py', content: 'def add(a, b):\n    return a + b\n' },
+    ]);
+    expect(compilerError).toMatch(/^TypeScript compiler unavailable/);
+    expect(skeletons['app.ts']).toBeUndefined();
+    expect(skeletons['util.py']).toContain('def add(a, b):');
+    expect(skeletons['util.py']).not.toContain('return a + b');
+  });
+});
@@ -0,0 +1,480 @@
+import type * as TS from 'typescript';
+import { ProcessedFile } from '../types';
+import { maskLiterals } from './commentStripping';
+
+/**
+ * Signature-only "skeleton" views of source files: imports, exported types, class and
+ * function signatures and doc comments, with every body elided. TypeScript and JavaScript
+ * go through the compiler API; Python, Go and Java use line-based parsers that rely on
+ * indentation or on brace counting over literal-masked source.
+ */
+
+type SkeletonLanguage = 'typescript' | 'python' | 'go' | 'java';
+
+const LANGUAGES: Record<string, SkeletonLanguage> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'typescript', jsx: 'typescript', mjs: 'typescript', cjs: 'typescript',
+  py: 'python', pyi: 'python',
+  go: 'go',
+  java: 'java',
+};
+
+const ELIDED = '{ ... }';
+// Initializers longer than this are replaced with "..." in constants and fields
+const MAX_INITIALIZER = 80;
+
+const getSkeletonLanguage = (path: string): SkeletonLanguage | null => {
+  const ext = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+  return LANGUAGES[ext] || null;
+};
+
+// Excerpts and converter output are not valid source, so they keep their full content
+export const canSkeleton = (f: ProcessedFile): boolean =>
+  !f.asset && !f.oversizeStrategy && !f.converter && getSkeletonLanguage(f.path) !== null;
+
+// --- TypeScript / JavaScript ---
+
+// The compiler is several megabytes, so it is only loaded once a skeleton is requested. Skeletons
+// are built in a module worker, which does not see the page's import map, so it is loaded by URL;
+// keep the version in step with the typescript devDependency that provides its types.
+const TYPESCRIPT_URL = 'https://aistudiocdn.com/typescript@~5.8.2';
+
+type CompilerModule = typeof import('typescript') | { default: typeof import('typescript') };
+
+let compiler: Promise<typeof TS> | null = null;
+const loadCompiler = (): Promise<typeof TS> => {
+  if (!compiler) {
+    compiler = (import(/* @vite-ignore */ TYPESCRIPT_URL) as Promise<CompilerModule>)
+      .then(mod => 'default' in mod ? mod.default : mod)
+      .catch(err => {
+        // A failed download is retried on the next request
+        compiler = null;
+        throw err;
+      });
+  }
+  return compiler;
+};
+
+const skeletonTypeScript = (ts: typeof TS, content: string, path: string): string => {
+  const lower = path.toLowerCase();
+  const kind = lower.endsWith('.tsx') ? ts.ScriptKind.TSX
+    : lower.endsWith('.jsx') ? ts.ScriptKind.JSX
+    : /\.[mc]?js$/.test(lower) ? ts.ScriptKind.JS
+    : ts.ScriptKind.TS;
+  const sf = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, kind);
+  const isDeclarationFile = lower.endsWith('.d.ts');
+
+  const textOf = (node: TS.Node) => content.substring(node.getStart(sf), node.getEnd());
+
+  // Source text of a node with the given ranges swapped out (ranges must not overlap)
+  const rewrite = (node: TS.Node, replacements: [number, number, string][]) => {
+    let out = '';
+    let pos = node.getStart(sf);
+    replacements.sort((a, b) => a[0] - b[0]).forEach(([start, end, text]) => {
+      out += content.substring(pos, start) + text;
+      pos = end;
+    });
+    return out + content.substring(pos, node.getEnd());
+  };
+
+  const docOf = (node: TS.Node, indent: string) => {
+    const ranges = ts.getLeadingCommentRanges(content, node.getFullStart()) || [];
+    return ranges
+      .filter(r => content.startsWith('/**', r.pos))
+      .map(r => indent + content.substring(r.pos, r.end) + '\n')
+      .join('');
+  };
+
+  const hasModifier = (node: TS.Node, kind: TS.SyntaxKind) =>
+    ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(m => m.kind === kind);
+
+  const isExported = (node: TS.Node) =>
+    isDeclarationFile || hasModifier(node, ts.SyntaxKind.ExportKeyword) || hasModifier(node, ts.SyntaxKind.DeclareKeyword);
+
+  // Function-like initializers keep their signature; other long initializers become "..."
+  const initializerReplacement = (init: TS.Expression): [number, number, string] | null => {
+    if ((ts.isArrowFunction(init) || ts.isFunctionExpression(init)) && init.body) {
+      const body = init.body;
+      if (ts.isBlock(body) || textOf(body).length > MAX_INITIALIZER) {
+        return [body.getStart(sf), body.getEnd(), ts.isBlock(body) ? ELIDED : '...'];
+      }
+      return null;
+    }
+    if (ts.isClassExpression(init)) return [init.getStart(sf), init.getEnd(), classSkeleton(init, '')];
+    if (textOf(init).length > MAX_INITIALIZER) return [init.getStart(sf), init.getEnd(), '...'];
+    return null;
+  };
+
+  const withElidedBody = (node: TS.Node, body: TS.Node | undefined) =>
+    body ? rewrite(node, [[body.getStart(sf), body.getEnd(), ELIDED]]) : textOf(node);
+
+  const classSkeleton = (node: TS.ClassLikeDeclaration, indent: string): string => {
+    const header = content.substring(node.getStart(sf), node.members.pos).trimEnd();
+    const memberIndent = indent + '  ';
+    const members: string[] = [];
+    node.members.forEach(member => {
+      if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || (member.name && ts.isPrivateIdentifier(member.name))) return;
+      let text: string;
+      if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member)) {
+        text = withElidedBody(member, member.body);
+      } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+        const replacement = initializerReplacement(member.initializer);
+        text = replacement ? rewrite(member, [replacement]) : textOf(member);
+      } else if (ts.isClassStaticBlockDeclaration(member)) {
+        return;
+      } else {
+        text = textOf(member);
+      }
+      members.push(docOf(member, memberIndent) + memberIndent + text.trim());
+    });
+    return members.length > 0 ? `${header}\n${members.join('\n')}\n${indent}}` : `${header}}`;
+  };
+
+  const blocks: string[] = [];
+  let previousImport = false;
+  sf.statements.forEach(stmt => {
+    let text: string | null = null;
+    if (ts.isImportDeclaration(stmt) || ts.isImportEqualsDeclaration(stmt) || ts.isExportDeclaration(stmt)) {
+      text = textOf(stmt);
+    } else if (ts.isExportAssignment(stmt)) {
+      const replacement = initializerReplacement(stmt.expression);
+      text = replacement ? rewrite(stmt, [replacement]) : textOf(stmt);
+    } else if (ts.isInterfaceDeclaration(stmt) || ts.isTypeAliasDeclaration(stmt) || ts.isEnumDeclaration(stmt) || ts.isModuleDeclaration(stmt)) {
+      if (isExported(stmt)) text = textOf(stmt);
+    } else if (ts.isFunctionDeclaration(stmt)) {
+      text = withElidedBody(stmt, stmt.body);
+    } else if (ts.isClassDeclaration(stmt)) {
+      text = classSkeleton(stmt, '');
+    } else if (ts.isVariableStatement(stmt) && isExported(stmt)) {
+      const replacements = stmt.declarationList.declarations
+        .map(d => d.initializer ? initializerReplacement(d.initializer) : null)
+        .filter((r): r is [number, number, string] => r !== null);
+      text = rewrite(stmt, replacements);
+    }
+    if (text === null) return;
+    // Consecutive imports stay together as one block
+    const isImport = ts.isImportDeclaration(stmt) || ts.isImportEqualsDeclaration(stmt);
+    if (isImport && previousImport) blocks[blocks.length - 1] += '\n' + text;
+    else blocks.push(docOf(stmt, '') + text);
+    previousImport = isImport;
+  });
+
+  return blocks.join('\n\n');
+};
+
+// --- Python ---
+
+const PY_DOCSTRING = /^[rRuUbBfF]{0,2}("""|''')/;
+
+const skeletonPython = (content: string, masked: string): string => {
+  const lines = content.split('\n');
+  const codeLines = masked.split('\n');
+  const out: string[] = [];
+  const classIndents: number[] = []; // Indentation of each enclosing class statement
+  let decorators: string[] = [];
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const isBlank = (i: number) => codeLines[i].trim() === '';
+
+  // Last line of a statement that may continue over bracketed lines
+  const statementEnd = (start: number): number => {
+    let depth = 0;
+    for (let i = start; i < lines.length; i++) {
+      for (const ch of codeLines[i]) {
+        if ('([{'.includes(ch)) depth++;
+        else if (')]}'.includes(ch)) depth--;
+      }
+      if (depth <= 0 && !codeLines[i].trimEnd().endsWith('\\')) return i;
+    }
+    return lines.length - 1;
+  };
+
+  // First line after the block opened at `start` (lines indented deeper than `indent`)
+  const blockEnd = (start: number, indent: number): number => {
+    let i = start;
+    while (i < lines.length && (isBlank(i) || indentOf(lines[i]) > indent)) i++;
+    return i;
+  };
+
+  // Docstring lines directly after a def/class header, or [] if there is none
+  const docstringAt = (start: number): string[] => {
+    let i = start;
+    while (i < lines.length && lines[i].trim() === '') i++;
+    if (i >= lines.length || !PY_DOCSTRING.test(lines[i].trim())) return [];
+    const quote = lines[i].trim().match(PY_DOCSTRING)![1];
+    const first = lines[i].trim().replace(PY_DOCSTRING, '');
+    if (first.includes(quote)) return [lines[i]];
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j].includes(quote)) return lines.slice(i, j + 1);
+    }
+    return lines.slice(i);
+  };
+
+  // Module docstring
+  const moduleDoc = docstringAt(0);
+  out.push(...moduleDoc);
+  let i = moduleDoc.length > 0 ? lines.findIndex(l => l.trim() !== '') + moduleDoc.length : 0;
+
+  while (i < lines.length) {
+    if (isBlank(i)) {
+      i++;
+      continue;
+    }
+    const indent = indentOf(lines[i]);
+    while (classIndents.length > 0 && indent <= classIndents[classIndents.length - 1]) classIndents.pop();
+    const inClass = classIndents.length > 0;
+    const trimmed = lines[i].trim();
+    const end = statementEnd(i);
+    const statement = lines.slice(i, end + 1);
+
+    if (trimmed.startsWith('@')) {
+      decorators.push(...statement);
+      i = end + 1;
+      continue;
+    }
+
+    const def = /^(async\s+)?def\s/.test(trimmed);
+    if (def || /^class\s/.test(trimmed)) {
+      const docstring = docstringAt(end + 1);
+      if (out.length > 0 && !inClass) out.push('');
+      out.push(...decorators, ...statement, ...docstring);
+      decorators = [];
+      const bodyStart = end + 1 + (docstring.length > 0 ? lines.slice(end + 1).findIndex(l => l.trim() !== '') + docstring.length : 0);
+      if (def) {
+        out.push(`${' '.repeat(indent + 4)}...`);
+        i = blockEnd(bodyStart, indent);
+      } else {
+        classIndents.push(indent);
+        i = bodyStart;
+      }
+      continue;
+    }
+
+    decorators = [];
+    const keep = inClass
+      ? /^[A-Za-z_]\w*\s*:/.test(trimmed) // Annotated class attributes
+      : /^(import|from)\s/.test(trimmed) || /^__all__\s*=/.test(trimmed) || (indent === 0 && /^[A-Z_][A-Z0-9_]*\s*(:[^=]+)?=/.test(trimmed) && statement.join('\n').length <= MAX_INITIALIZER);
+    if (keep) out.push(...statement);
+    // Anything else (module code, nested blocks) is skipped along with its body
+    i = blockEnd(end + 1, indent);
+  }
+
+  return out.join('\n');
+};
+
+// --- Brace languages ---
+
+const countBraces = (line: string): number => {
+  let depth = 0;
+  for (const ch of line) {
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+  }
+  return depth;
+};
+
+const countParens = (line: string): number => {
+  let depth = 0;
+  for (const ch of line) {
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+  }
+  return depth;
+};
+
+const skeletonGo = (content: string, masked: string): string => {
+  const lines = content.split('\n');
+  const codeLines = masked.split('\n');
+  const out: string[] = [];
+  let doc: string[] = [];
+
+  // Index of the line closing the declaration that starts at `start`
+  const declarationEnd = (start: number): number => {
+    let braces = 0;
+    let parens = 0;
+    for (let i = start; i < lines.length; i++) {
+      braces += countBraces(codeLines[i]);
+      parens += countParens(codeLines[i]);
+      if (braces <= 0 && parens <= 0) return i;
+    }
+    return lines.length - 1;
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const trimmed = lines[i].trim();
+    if (trimmed.startsWith('//') && codeLines[i].trim() === '') {
+      doc.push(lines[i]);
+      i++;
+      continue;
+    }
+    if (trimmed === '') {
+      doc = [];
+      i++;
+      continue;
+    }
+
+    const end = declarationEnd(i);
+    const block = lines.slice(i, end + 1);
+    let text: string | null = null;
+    if (/^(package|import|type)\b/.test(trimmed)) {
+      text = block.join('\n');
+    } else if (/^func\b/.test(trimmed)) {
+      // The body opens at the first brace outside the parameter and result lists
+      const code = codeLines.slice(i, end + 1).join('\n');
+      let parens = 0;
+      let open = -1;
+      for (let k = 0; k < code.length; k++) {
+        if (code[k] === '(') parens++;
+        else if (code[k] === ')') parens--;
+        else if (code[k] === '{' && parens === 0) {
+          open = k;
+          break;
+        }
+      }
+      text = open === -1 ? block.join('\n') : block.join('\n').substring(0, open).trimEnd() + ' ' + ELIDED;
+    } else if (/^(const|var)\b/.test(trimmed)) {
+      text = block.join('\n').length <= MAX_INITIALIZER * 4
+        ? block.join('\n')
+        : lines[i].replace(/=.*$/, '= ...');
+    }
+
+    if (text !== null) {
+      if (out.length > 0) out.push('');
+      out.push(...doc, text);
+    }
+    doc = [];
+    i = end + 1;
+  }
+
+  return out.join('\n');
+};
+
+const JAVA_TYPE_HEADER = /\b(class|interface|enum|record|@interface)\s+\w+/;
+
+const skeletonJava = (content: string, masked: string): string => {
+  const lines = content.split('\n');
+  const codeLines = masked.split('\n');
+  const out: string[] = [];
+  const scopes: ('type' | 'body')[] = []; // One entry per open brace
+  let pending: string[] = []; // Annotations and the start of a multi-line declaration
+  let inDoc = false;
+
+  // Braces not handled as a declaration's own opening brace belong to method bodies and initializers
+  const trackBraces = (code: string) => {
+    for (const ch of code) {
+      if (ch === '{') scopes.push('body');
+      else if (ch === '}') scopes.pop();
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const code = codeLines[i];
+    const trimmed = line.trim();
+    const atTypeLevel = scopes.every(s => s === 'type');
+
+    if (!atTypeLevel) {
+      trackBraces(code);
+      continue;
+    }
+
+    // Javadoc is kept, other comments dropped
+    if (inDoc || (code.trim() === '' && trimmed.startsWith('/**'))) {
+      pending.push(line);
+      inDoc = !trimmed.includes('*/');
+      continue;
+    }
+    if (code.trim() === '') continue;
+
+    const declaration = [...pending.filter(l => !/^\s*(\/\*\*|\*|@)/.test(l)), code].join(' ').trim();
+    const isPrivate = /^private\b/.test(declaration.replace(/^(@\w+(\([^)]*\))?\s*)+/, ''));
+    const open = code.indexOf('{');
+    const closesOnly = code.trim().startsWith('}') && (open === -1 || open > code.indexOf('}'));
+
+    if (closesOnly) {
+      scopes.pop();
+      out.push(line.substring(0, line.indexOf('}') + 1));
+      pending = [];
+      trackBraces(code.substring(code.indexOf('}') + 1));
+      continue;
+    }
+
+    if (open !== -1) {
+      const header = [...pending.filter(l => !/^\s*(\/\*\*|\*)/.test(l)), code.substring(0, open)].join(' ');
+      const isType = JAVA_TYPE_HEADER.test(header) && !header.includes('=') && !/\bnew\s/.test(header);
+      if (isType && countBraces(code) === 0) {
+        out.push(...pending, line); // One-line type such as "interface Cb { void call(); }"
+      } else if (isType) {
+        out.push(...pending, line.substring(0, open + 1));
+        scopes.push('type');
+        // Members declared on the same line as the opening brace are rare; the rest of the line is scanned as code
+        trackBraces(code.substring(open + 1));
+      } else {
+        if (!isPrivate) {
+          const signature = line.substring(0, open).trimEnd();
+          const closer = /=\s*new\s/.test(header) || header.includes('->') ? ';' : '';
+          out.push(...pending, `${signature}${signature.trim() ? ' ' : ''}${ELIDED}${closer}`);
+        }
+        trackBraces(code.substring(open));
+      }
+      pending = [];
+      continue;
+    }
+
+    if (/^(package|import)\b/.test(trimmed) || code.trimEnd().endsWith(';') || code.trimEnd().endsWith(',')) {
+      if (!isPrivate) {
+        const text = trimmed.length > MAX_INITIALIZER + 40 && code.includes('=')
+          ? line.substring(0, line.indexOf('=')).trimEnd() + ' = ...;'
+          : line;
+        out.push(...pending, text);
+      }
+      pending = [];
+      continue;
+    }
+
+    // Annotations or a declaration continuing on the next line
+    pending.push(line);
+  }
+
+  return out.join('\n');
+};
+
+// --- Entry point ---
+
+export interface SkeletonResult {
+  skeletons: Record<string, string>;
+  compilerError?: string; // The TypeScript compiler could not be loaded, so TS/JS files have no skeleton
+}
+
+/**
+ * Skeletons for the given sources, keyed by path. Files in unsupported languages, or that fail
+ * to parse, are left out so callers fall back to full content. A failed compiler download only
+ * costs the TS/JS skeletons; the other languages don't need it.
+ */
+export const buildSkeletons = async (sources: { path: string; content: string }[]): Promise<SkeletonResult> => {
+  const result: Record<string, string> = {};
+  let ts: typeof TS | null = null;
+  let compilerError: string | undefined;
+  if (sources.some(s => getSkeletonLanguage(s.path) === 'typescript')) {
+    try {
+      ts = await loadCompiler();
+    } catch (e) {
+      compilerError = `TypeScript compiler unavailable: ${(e as Error).message}`;
+    }
+  }
+
+  sources.forEach(({ path, content }) => {
+    const language = getSkeletonLanguage(path);
+    try {
+      if (language === 'typescript' && ts) result[path] = skeletonTypeScript(ts, content, path);
+      else if (language === 'python') result[path] = skeletonPython(content, maskLiterals(content, path));
+      else if (language === 'go') result[path] = skeletonGo(content, maskLiterals(content, path));
+      else if (language === 'java') result[path] = skeletonJava(content, maskLiterals(content, path));
+    } catch (e) {
+      console.warn(`Could not build skeleton for ${path}`, e);
+    }
+  });
+
+  return { skeletons: result, compilerError };
+};
@@ -0,0 +1,129 @@
+// Encoding detection for uploaded files: BOM sniffing, UTF-16 and UTF-8 validity
+// checks, a Shift-JIS heuristic and a printable-ratio test to tell text from binary.
+
+export const BINARY_PLACEHOLDER = '[Binary file detected]';
+
+// Labels offered for manual override in the UI (normalized TextDecoder names)
+export const SUPPORTED_ENCODINGS = [
+  'utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-2', 'windows-1251',
+  'koi8-r', 'shift_jis', 'euc-jp', 'gbk', 'big5', 'euc-kr'
+];
+
+export interface DecodedText {
+  content: string;
+  encoding: string;
+  isBinary: boolean;
+}
+
+const SAMPLE_SIZE = 8192;
+const MAX_NON_PRINTABLE_RATIO = 0.1;
+
+const sniffBom = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+// BOM-less UTF-16 shows up as NUL bytes on one side of each code unit for ASCII-range text
+const sniffUtf16 = (sample: Uint8Array): string | null => {
+  if (sample.length < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  const units = Math.floor(sample.length / 2);
+  if (oddZeros / units > 0.3 && evenZeros / units < 0.05) return 'utf-16le';
+  if (evenZeros / units > 0.3 && oddZeros / units < 0.05) return 'utf-16be';
+  return null;
+};
+
+const isValidUtf8 = (bytes: Uint8Array): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Shift-JIS lead bytes for kana and most kanji fall in 0x81-0x9F, a range windows-1252
+// only uses for rare punctuation; Latin-1 accented letters live in 0xC0-0xFF instead
+const looksLikeShiftJis = (bytes: Uint8Array): boolean => {
+  let high = 0;
+  let lowLeads = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+    if (b < 0x80) continue;
+    high++;
+    if (b >= 0x81 && b <= 0x9f) lowLeads++;
+  }
+  if (high === 0 || lowLeads / high < 0.4) return false;
+  try {
+    new TextDecoder('shift_jis', { fatal: true }).decode(bytes);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+const nonPrintableRatio = (text: string): number => {
+  const sample = text.length > SAMPLE_SIZE ? text.substring(0, SAMPLE_SIZE) : text;
+  if (sample.length === 0) return 0;
+  let bad = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const code = sample.charCodeAt(i);
+    // Tab, LF, FF, CR and ESC (ANSI colour codes in logs) are legitimate in text files
+    if ((code < 32 && code !== 9 && code !== 10 && code !== 12 && code !== 13 && code !== 27) || code === 0xfffd) {
+      bad++;
+    }
+  }
+  return bad / sample.length;
+};
+
+/**
+ * Returns the most likely text encoding of a buffer, or null if it looks binary.
+ */
+export const detectEncoding = (bytes: Uint8Array): string | null => {
+  const bom = sniffBom(bytes);
+  if (bom) return bom;
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  const utf16 = sniffUtf16(sample);
+  if (utf16) return utf16;
+
+  if (sample.includes(0)) return null;
+  if (isValidUtf8(bytes)) return 'utf-8';
+  if (looksLikeShiftJis(bytes)) return 'shift_jis';
+
+  // windows-1252 never fails to decode and is what "Latin-1" means in practice
+  return 'windows-1252';
+};
+
+/**
+ * Decodes a buffer using the detected encoding, or the given override.
+ * An override bypasses binary detection so users can force-read misclassified files.
+ */
+export const decodeText = (bytes: Uint8Array, encodingOverride?: string): DecodedText => {
+  const encoding = encodingOverride || detectEncoding(bytes);
+  if (!encoding) {
+    return { content: BINARY_PLACEHOLDER, encoding: 'binary', isBinary: true };
+  }
+
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch (e) {
+    decoder = new TextDecoder('utf-8');
+  }
+  // TextDecoder strips a matching BOM by default
+  const content = decoder.decode(bytes);
+
+  if (!encodingOverride && nonPrintableRatio(content) > MAX_NON_PRINTABLE_RATIO) {
+    return { content: BINARY_PLACEHOLDER, encoding: 'binary', isBinary: true };
+  }
+
+  return { content, encoding: decoder.encoding, isBinary: false };
+};
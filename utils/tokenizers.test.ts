@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+// Vocabularies are served from public/tokenizers in the app; the tests read them from disk
+const serveVocabularies = () => {
+  vi.stubGlobal('self', { location: { href: 'http://localhost/' } });
+  vi.stubGlobal('fetch', async (url: URL) => new Response(readFileSync(resolve(__dirname, '../public', `.${url.pathname}`), 'utf8')));
+};
+
+// Fresh module per test, since counters are cached once loaded
+const load = async () => (await import('./tokenizers')).loadTokenCounter;
+
+const SAMPLES = [
+  'hello world',
+  'tiktoken is great!',
+  "I'm sure they'll HAVEN'T done it",
+  'export const add = (a: number, b: number): number => a + b;\n',
+  '    if (x) {\n        return 12345678;\n    }\n',
+  'Grüße aus Köln — naïve café',
+  '日本語のテキストです',
+  'emoji 🎉🚀 mixed',
+  '\n\n\n   \t trailing   ',
+  'a'.repeat(1200), // Longer than the merge window
+];
+
+// Counts from the reference tiktoken implementation
+const EXPECTED = {
+  o200k: [2, 6, 8, 19, 15, 9, 7, 6, 4, 150],
+  cl100k: [2, 6, 11, 19, 15, 10, 9, 8, 4, 150],
+};
+
+describe('loadTokenCounter', () => {
+  beforeEach(() => vi.resetModules());
+  afterEach(() => vi.unstubAllGlobals());
+
+  it.each(['o200k', 'cl100k'] as const)('counts %s tokens exactly like tiktoken', async id => {
+    serveVocabularies();
+    const counter = await (await load())({ id });
+    expect(counter.exact).toBe(true);
+    expect(SAMPLES.map(counter.count)).toEqual(EXPECTED[id]);
+  });
+
+  it('falls back to an inexact estimate when the vocabulary cannot be loaded', async () => {
+    vi.stubGlobal('self', { location: { href: 'http://localhost/' } });
+    vi.stubGlobal('fetch', async () => new Response('', { status: 404 }));
+    const counter = await (await load())({ id: 'o200k' });
+    expect(counter.exact).toBe(false);
+    expect(counter.count('hello world')).toBeGreaterThan(0);
+  });
+
+  it('scales Gemini estimates by the calibration factor', async () => {
+    const loadTokenCounter = await load();
+    const base = await loadTokenCounter({ id: 'gemini' });
+    const scaled = await loadTokenCounter({ id: 'gemini', calibration: 1.5 });
+    const text = SAMPLES.join('\n');
+    expect(base.exact).toBe(false);
+    expect(scaled.count(text)).toBe(Math.round(base.count(text) * 1.5));
+  });
+});
@@ -0,0 +1,224 @@
+import { TokenizerId } from '../types';
+
+/**
+ * Token counting for the target model. OpenAI-style models use byte-level BPE over the
+ * o200k/cl100k vocabularies, loaded from /tokenizers/*.tiktoken (see public/tokenizers);
+ * if a vocabulary cannot be loaded the count falls back to an approximation and is reported
+ * as inexact. Gemini's vocabulary is not published, so it is always estimated, optionally
+ * scaled by a factor measured against the countTokens API. Which vocabulary a model uses
+ * comes from its preset (see utils/modelPresets).
+ */
+
+export interface TokenizerConfig {
+  id: TokenizerId;
+  calibration?: number; // Multiplier for estimated counts (Gemini)
+}
+
+export interface TokenCounter {
+  id: TokenizerId;
+  exact: boolean; // False when the count is an estimate
+  count: (text: string) => number;
+}
+
+// --- Byte-level BPE ---
+
+// Pre-tokenization patterns from the tiktoken encodings, with inline (?i:) groups expanded for JS
+const CONTRACTIONS = "'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])";
+const BPE_ENCODINGS: Partial<Record<TokenizerId, { file: string; pattern: RegExp }>> = {
+  cl100k: {
+    file: 'cl100k_base.tiktoken',
+    pattern: new RegExp(`${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`, 'gu'),
+  },
+  o200k: {
+    file: 'o200k_base.tiktoken',
+    pattern: new RegExp([
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+      `\\p{N}{1,3}`,
+      ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+      `\\s*[\\r\\n]+`,
+      `\\s+(?!\\S)`,
+      `\\s+`,
+    ].join('|'), 'gu'),
+  },
+};
+
+// Pieces longer than this are merged in windows; real text almost never has pieces this long
+const MAX_PIECE_BYTES = 512;
+const PIECE_CACHE_LIMIT = 100000;
+
+const encoder = new TextEncoder();
+
+// Bytes as a binary string, the same key form atob() produces when the vocabulary is parsed
+const toBinary = (piece: string): string => {
+  const bytes = encoder.encode(piece);
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]);
+  return out;
+};
+
+// Number of tokens tiktoken's byte-pair merge produces for one piece
+const mergeCount = (bytes: string, ranks: Map<string, number>): number => {
+  if (bytes.length <= 1 || ranks.has(bytes)) return bytes.length === 0 ? 0 : 1;
+  const starts: number[] = [];
+  for (let i = 0; i <= bytes.length; i++) starts.push(i);
+  const rankAt = (i: number) => i + 2 < starts.length
+    ? ranks.get(bytes.substring(starts[i], starts[i + 2])) ?? Infinity
+    : Infinity;
+  const pairRanks = starts.map((_, i) => rankAt(i));
+
+  for (;;) {
+    let best = Infinity;
+    let bestIndex = -1;
+    for (let i = 0; i < pairRanks.length - 1; i++) {
+      if (pairRanks[i] < best) {
+        best = pairRanks[i];
+        bestIndex = i;
+      }
+    }
+    if (bestIndex === -1) break;
+    starts.splice(bestIndex + 1, 1);
+    pairRanks.splice(bestIndex + 1, 1);
+    pairRanks[bestIndex] = rankAt(bestIndex);
+    if (bestIndex > 0) pairRanks[bestIndex - 1] = rankAt(bestIndex - 1);
+  }
+  return starts.length - 1;
+};
+
+const createBpeCounter = (ranks: Map<string, number>, pattern: RegExp): ((text: string) => number) => {
+  const cache = new Map<string, number>();
+  return (text: string) => {
+    let total = 0;
+    for (const match of text.matchAll(pattern)) {
+      const piece = match[0];
+      let n = cache.get(piece);
+      if (n === undefined) {
+        const bytes = toBinary(piece);
+        n = 0;
+        for (let i = 0; i < bytes.length; i += MAX_PIECE_BYTES) n += mergeCount(bytes.substring(i, i + MAX_PIECE_BYTES), ranks);
+        if (cache.size > PIECE_CACHE_LIMIT) cache.clear();
+        cache.set(piece, n);
+      }
+      total += n;
+    }
+    return total;
+  };
+};
+
+// .tiktoken files hold one "<base64 token> <rank>" pair per line
+const parseRanks = (text: string): Map<string, number> | null => {
+  const ranks = new Map<string, number>();
+  for (const line of text.split('\n')) {
+    if (!line) continue;
+    const space = line.indexOf(' ');
+    const rank = parseInt(line.substring(space + 1), 10);
+    if (space === -1 || isNaN(rank)) return null; // Not a vocabulary, e.g. the dev server's index.html fallback
+    ranks.set(atob(line.substring(0, space)), rank);
+  }
+  return ranks.size > 0 ? ranks : null;
+};
+
+const loadRanks = async (file: string): Promise<Map<string, number> | null> => {
+  try {
+    const response = await fetch(new URL(`/tokenizers/${file}`, self.location.href));
+    if (!response.ok) return null;
+    return parseRanks(await response.text());
+  } catch (e) {
+    console.warn(`Tokenizer vocabulary ${file} could not be loaded`, e);
+    return null;
+  }
+};
+
+// --- Estimation ---
+
+interface EstimatorWeights {
+  lettersPerToken: number;   // ASCII letter runs (identifiers, words)
+  digitsPerToken: number;
+  spacesPerToken: number;    // Whitespace runs (indentation)
+  punctPerToken: number;     // Runs of ASCII punctuation
+  cjkPerToken: number;       // Han, kana and hangul characters
+  otherLettersPerToken: number; // Other scripts (Cyrillic, Greek, Arabic, ...)
+}
+
+// Rough per-class ratios for each vocabulary; digits are split one by one in SentencePiece
+const ESTIMATOR_WEIGHTS: Record<TokenizerId, EstimatorWeights> = {
+  o200k: { lettersPerToken: 5.5, digitsPerToken: 3, spacesPerToken: 16, punctPerToken: 1.6, cjkPerToken: 1.3, otherLettersPerToken: 3.5 },
+  cl100k: { lettersPerToken: 5, digitsPerToken: 3, spacesPerToken: 16, punctPerToken: 1.5, cjkPerToken: 0.9, otherLettersPerToken: 2 },
+  gemini: { lettersPerToken: 5, digitsPerToken: 1, spacesPerToken: 8, punctPerToken: 1.4, cjkPerToken: 1.4, otherLettersPerToken: 3.5 },
+};
+
+const ESTIMATOR_SEGMENTS = /([A-Za-z]+)|([0-9]+)|(\s+)|([!-/:-@[-`{-~]+)|([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+)|(\p{L}+)|([^])/gu;
+
+const createEstimator = (weights: EstimatorWeights) => (text: string): number => {
+  let total = 0;
+  for (const m of text.matchAll(ESTIMATOR_SEGMENTS)) {
+    const len = m[0].length;
+    if (m[1]) total += Math.ceil(len / weights.lettersPerToken);
+    else if (m[2]) total += Math.ceil(len / weights.digitsPerToken);
+    else if (m[3]) total += Math.ceil(len / weights.spacesPerToken);
+    else if (m[4]) total += Math.ceil(len / weights.punctPerToken);
+    else if (m[5]) total += Math.ceil(len / weights.cjkPerToken);
+    else if (m[6]) total += Math.ceil(len / weights.otherLettersPerToken);
+    else total += 2; // Emoji and other symbols usually take several byte tokens
+  }
+  return total;
+};
+
+export const estimateTokensFor = (id: TokenizerId, text: string): number => createEstimator(ESTIMATOR_WEIGHTS[id])(text);
+
+// --- Loading ---
+
+const counters = new Map<TokenizerId, Promise<TokenCounter>>();
+
+const loadBaseCounter = (id: TokenizerId): Promise<TokenCounter> => {
+  let counter = counters.get(id);
+  if (!counter) {
+    const encoding = BPE_ENCODINGS[id];
+    counter = (encoding ? loadRanks(encoding.file) : Promise.resolve(null)).then(ranks => ranks && encoding
+      ? { id, exact: true, count: createBpeCounter(ranks, encoding.pattern) }
+      : { id, exact: false, count: createEstimator(ESTIMATOR_WEIGHTS[id]) });
+    counters.set(id, counter);
+  }
+  return counter;
+};
+
+// Loads (once) and returns the counter; vocabularies are large, so call this from a worker
+export const loadTokenCounter = async ({ id, calibration }: TokenizerConfig): Promise<TokenCounter> => {
+  const base = await loadBaseCounter(id);
+  if (base.exact || !calibration || calibration === 1) return base;
+  return { ...base, count: (text: string) => Math.round(base.count(text) * calibration) };
+};
+
+// --- Gemini Calibration ---
+
+const CALIBRATION_KEY = 'codecontext.geminiTokenCalibration';
+
+// Factors outside this range mean the sample was unrepresentative (or the API answered oddly)
+const MIN_CALIBRATION = 0.5;
+const MAX_CALIBRATION = 2;
+
+export const loadGeminiCalibration = (): number | null => {
+  try {
+    const stored = parseFloat(localStorage.getItem(CALIBRATION_KEY) || '');
+    return isNaN(stored) ? null : stored;
+  } catch {
+    return null;
+  }
+};
+
+// Slices from several files, so one language or a single huge file doesn't dominate the factor
+export const calibrationSample = (texts: string[], perText = 2000, maxTexts = 16): string =>
+  texts.filter(t => t.trim().length > 0).slice(0, maxTexts).map(t => t.substring(0, perText)).join('\n\n');
+
+// Ratio of the API's count to the estimate for a sample, stored for later sessions
+export const saveGeminiCalibration = (sample: string, actualTokens: number): number | null => {
+  const estimated = estimateTokensFor('gemini', sample);
+  if (estimated === 0) return null;
+  const factor = Math.min(MAX_CALIBRATION, Math.max(MIN_CALIBRATION, actualTokens / estimated));
+  try {
+    localStorage.setItem(CALIBRATION_KEY, factor.toFixed(4));
+  } catch (e) {
+    console.warn('Could not persist Gemini token calibration', e);
+  }
+  return factor;
+};
@@ -0,0 +1,119 @@
+import { FileNode } from '../types';
+
+/**
+ * Squarified treemap layout (Bruls, Huizing & van Wijk) over the file tree, sized by the
+ * token cost of each file in the output. Directories are laid out recursively inside their
+ * rectangle, below a header strip that carries their label.
+ */
+
+export interface TokenNode {
+  name: string;
+  path: string;
+  isFile: boolean;
+  tokens: number; // Cost if every file below were selected
+  selectedTokens: number; // Cost of the files below that are selected
+  children: TokenNode[];
+}
+
+export interface TreemapRect {
+  node: TokenNode;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export interface TreemapOptions {
+  headerHeight: number; // Label strip at the top of each directory
+  padding: number; // Inset between a directory's border and its children
+  minSize: number; // Rectangles smaller than this in either dimension are not subdivided
+}
+
+// Zero-cost files (e.g. empty or not yet counted) are dropped, as are directories left empty
+export const buildTokenTree = (nodes: FileNode[], costs: Record<string, number>, selected: Set<string>): TokenNode[] =>
+  nodes.flatMap((node): TokenNode[] => {
+    if (node.isFile) {
+      const tokens = costs[node.path] || 0;
+      if (tokens === 0) return [];
+      return [{ name: node.name, path: node.path, isFile: true, tokens, selectedTokens: selected.has(node.path) ? tokens : 0, children: [] }];
+    }
+    const children = buildTokenTree(node.children || [], costs, selected);
+    if (children.length === 0) return [];
+    return [{
+      name: node.name,
+      path: node.path,
+      isFile: false,
+      tokens: children.reduce((acc, c) => acc + c.tokens, 0),
+      selectedTokens: children.reduce((acc, c) => acc + c.selectedTokens, 0),
+      children,
+    }];
+  });
+
+// Largest aspect ratio in a row of areas laid along a side of the given length
+const worstRatio = (areas: number[], side: number): number => {
+  const sum = areas.reduce((acc, a) => acc + a, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+};
+
+const squarify = (nodes: TokenNode[], x: number, y: number, width: number, height: number): Omit<TreemapRect, 'depth'>[] => {
+  const total = nodes.reduce((acc, n) => acc + n.tokens, 0);
+  if (total === 0 || width <= 0 || height <= 0) return [];
+  const scale = (width * height) / total;
+  const items = [...nodes].sort((a, b) => b.tokens - a.tokens).map(node => ({ node, area: node.tokens * scale }));
+  const rects: Omit<TreemapRect, 'depth'>[] = [];
+
+  let i = 0;
+  while (i < items.length) {
+    const side = Math.min(width, height);
+    // Grow the row while that keeps its rectangles closer to square
+    let row = [items[i].area];
+    let end = i + 1;
+    while (end < items.length && worstRatio([...row, items[end].area], side) <= worstRatio(row, side)) {
+      row.push(items[end].area);
+      end++;
+    }
+
+    const rowArea = row.reduce((acc, a) => acc + a, 0);
+    const thickness = rowArea / side;
+    let offset = 0;
+    for (let j = i; j < end; j++) {
+      const length = items[j].area / thickness;
+      rects.push(width >= height
+        ? { node: items[j].node, x, y: y + offset, width: thickness, height: length }
+        : { node: items[j].node, x: x + offset, y, width: length, height: thickness });
+      offset += length;
+    }
+
+    // The row occupies a strip along the shorter side; continue in what is left
+    if (width >= height) {
+      x += thickness;
+      width -= thickness;
+    } else {
+      y += thickness;
+      height -= thickness;
+    }
+    i = end;
+  }
+  return rects;
+};
+
+// Rectangles for every node, parents before their children
+export const layoutTreemap = (nodes: TokenNode[], width: number, height: number, options: TreemapOptions): TreemapRect[] => {
+  const result: TreemapRect[] = [];
+  const place = (level: TokenNode[], x: number, y: number, w: number, h: number, depth: number) => {
+    squarify(level, x, y, w, h).forEach(rect => {
+      result.push({ ...rect, depth });
+      const { node } = rect;
+      if (node.isFile) return;
+      const innerWidth = rect.width - options.padding * 2;
+      const innerHeight = rect.height - options.headerHeight - options.padding;
+      if (innerWidth < options.minSize || innerHeight < options.minSize) return;
+      place(node.children, rect.x + options.padding, rect.y + options.headerHeight, innerWidth, innerHeight, depth + 1);
+    });
+  };
+  place(nodes, 0, 0, width, height, 0);
+  return result;
+};
@@ -0,0 +1,150 @@
+// Line diffs rendered in `git diff` style
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+// Past this many edits the Myers trace gets large; the file is shown as fully replaced instead
+const MAX_EDIT_DISTANCE = 2000;
+
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Myers O(ND) shortest edit script; null when the edit distance exceeds the limit
+const myers = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d] holds v[-d..d] as it was before round d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, d);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[], depth: number): DiffOp[] => {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = depth; d > 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: ' ', line: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: '+', line: b[--y] });
+    } else {
+      ops.push({ type: '-', line: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: ' ', line: a[--x] });
+    y--;
+  }
+  return ops.reverse();
+};
+
+const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  // Trimming the common prefix and suffix keeps the edit graph small for typical changes
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myers(middleA, middleB) || [
+    ...middleA.map(line => ({ type: '-' as const, line })),
+    ...middleB.map(line => ({ type: '+' as const, line })),
+  ];
+
+  return [
+    ...a.slice(0, start).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...a.slice(endA).map(line => ({ type: ' ' as const, line })),
+  ];
+};
+
+const formatHunks = (ops: DiffOp[], context: number): string[] => {
+  const changes: number[] = [];
+  ops.forEach((op, i) => { if (op.type !== ' ') changes.push(i); });
+  if (changes.length === 0) return [];
+
+  // Line numbers consumed before each op, for hunk headers
+  const oldLine = new Int32Array(ops.length + 1);
+  const newLine = new Int32Array(ops.length + 1);
+  ops.forEach((op, i) => {
+    oldLine[i + 1] = oldLine[i] + (op.type === '+' ? 0 : 1);
+    newLine[i + 1] = newLine[i] + (op.type === '-' ? 0 : 1);
+  });
+
+  const out: string[] = [];
+  let g = 0;
+  while (g < changes.length) {
+    const from = Math.max(0, changes[g] - context);
+    while (g + 1 < changes.length && changes[g + 1] - changes[g] <= context * 2 + 1) g++;
+    const to = Math.min(ops.length, changes[g] + context + 1);
+    g++;
+
+    const oldCount = oldLine[to] - oldLine[from];
+    const newCount = newLine[to] - newLine[from];
+    // An empty range is reported as starting at the line before it, like git does
+    const oldStart = oldCount === 0 ? oldLine[from] : oldLine[from] + 1;
+    const newStart = newCount === 0 ? newLine[from] : newLine[from] + 1;
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (let i = from; i < to; i++) out.push(ops[i].type + ops[i].line);
+  }
+  return out;
+};
+
+/**
+ * Renders a unified diff between two versions of a file. Pass null for oldPath or newPath
+ * to describe an added or deleted file.
+ */
+export const createUnifiedDiff = (
+  oldPath: string | null,
+  newPath: string | null,
+  oldText: string,
+  newText: string,
+  context = 3
+): string => {
+  const path = newPath || oldPath || '';
+  const header = [`diff --git a/${oldPath || path} b/${newPath || path}`];
+  if (!oldPath) header.push('new file');
+  if (!newPath) header.push('deleted file');
+  header.push(oldPath ? `--- a/${oldPath}` : '--- /dev/null');
+  header.push(newPath ? `+++ b/${newPath}` : '+++ /dev/null');
+
+  const hunks = formatHunks(diffLines(splitLines(oldText), splitLines(newText)), context);
+  return [...header, ...hunks].join('\n');
+};
@@ -0,0 +1,89 @@
+import { estimateTokens, hashContent, buildFileTree, generateChunks, measureOutputCosts } from '../utils/fileProcessing';
+import { loadTokenCounter } from '../utils/tokenizers';
+import { readFileForIngestion } from '../utils/converters';
+import { buildSkeletons } from '../utils/skeleton';
+import { indexDocument, rankDocuments, IndexedDocument } from '../utils/searchIndex';
+import { traceDependencies } from '../utils/importGraph';
+import { compileSecretRules, matchSecrets, collectSecrets, redactSources, SecretMatch } from '../utils/secretScanner';
+import { ProcessedFile } from '../types';
+import { IngestionWorkerRequest, IngestionWorkerResponse } from '../utils/ingestionPool';
+
+const respond = (msg: IngestionWorkerResponse) => self.postMessage(msg);
+
+// Search index entries by path, rebuilt only for files whose hash changed
+const searchDocuments = new Map<string, { hash: string; doc: IndexedDocument }>();
+// Secret matches by path, kept while both the file's hash and the rules are unchanged
+const secretMatches = new Map<string, { hash: string; rules: string; matches: SecretMatch[] }>();
+
+self.onmessage = async (e: MessageEvent<IngestionWorkerRequest>) => {
+  const msg = e.data;
+
+  try {
+    if (msg.type === 'ingest') {
+      const files = await Promise.all(msg.entries.map(async ({ file, path }): Promise<ProcessedFile> => {
+        const { content, encoding, isBinary, oversizeStrategy, converter, asset } = await readFileForIngestion(file, path, msg.oversize, msg.converters);
+        return {
+          path,
+          name: file.name,
+          size: file.size,
+          type: file.type,
+          content,
+          selected: true,
+          isBinary,
+          encoding,
+          oversizeStrategy,
+          converter,
+          asset,
+          tokens: estimateTokens(content),
+          hash: hashContent(content),
+        };
+      }));
+      respond({ type: 'ingested', jobId: msg.jobId, files });
+    } else if (msg.type === 'buildTree') {
+      respond({ type: 'tree', jobId: msg.jobId, tree: buildFileTree(msg.paths.map(path => ({ path }))) });
+    } else if (msg.type === 'skeleton') {
+      respond({ type: 'skeleton', jobId: msg.jobId, result: await buildSkeletons(msg.sources) });
+    } else if (msg.type === 'countTokens') {
+      const counter = await loadTokenCounter(msg.tokenizer);
+      respond({ type: 'tokenCounts', jobId: msg.jobId, counts: msg.texts.map(counter.count), exact: counter.exact });
+    } else if (msg.type === 'chunks') {
+      const counter = await loadTokenCounter(msg.tokenizer);
+      const chunks = generateChunks(msg.files, msg.tokenLimit, { ...msg.options, countTokens: counter.count });
+      respond({ type: 'chunks', jobId: msg.jobId, chunks });
+    } else if (msg.type === 'costs') {
+      const counter = await loadTokenCounter(msg.tokenizer);
+      respond({ type: 'costs', jobId: msg.jobId, costs: measureOutputCosts(msg.files, { ...msg.options, countTokens: counter.count }) });
+    } else if (msg.type === 'search') {
+      const current = new Set(msg.sources.map(s => s.path));
+      Array.from(searchDocuments.keys()).forEach(path => { if (!current.has(path)) searchDocuments.delete(path); });
+      const docs = msg.sources.map(({ path, hash, content }) => {
+        let entry = searchDocuments.get(path);
+        if (!entry || entry.hash !== hash) {
+          entry = { hash, doc: indexDocument(path, content) };
+          searchDocuments.set(path, entry);
+        }
+        return entry.doc;
+      });
+      respond({ type: 'search', jobId: msg.jobId, results: rankDocuments(docs, msg.query) });
+    } else if (msg.type === 'secrets') {
+      const rulesKey = JSON.stringify(msg.rules);
+      const compiled = compileSecretRules(msg.rules);
+      const current = new Set(msg.sources.map(s => s.path));
+      Array.from(secretMatches.keys()).forEach(path => { if (!current.has(path)) secretMatches.delete(path); });
+      const files = msg.sources.map(source => {
+        let entry = secretMatches.get(source.path);
+        if (!entry || !source.hash || entry.hash !== source.hash || entry.rules !== rulesKey) {
+          entry = { hash: source.hash, rules: rulesKey, matches: matchSecrets(source, compiled) };
+          if (source.hash) secretMatches.set(source.path, entry);
+        }
+        return { path: source.path, matches: entry.matches };
+      });
+      const scan = collectSecrets(files, new Set(msg.allowList));
+      respond({ type: 'secrets', jobId: msg.jobId, scan, redacted: redactSources(msg.sources, scan.placeholders) });
+    } else if (msg.type === 'trace') {
+      respond({ type: 'trace', jobId: msg.jobId, result: traceDependencies(msg.sources, msg.start, msg.options) });
+    }
+  } catch (err) {
+    respond({ type: 'error', jobId: msg.jobId, message: err instanceof Error ? err.message : String(err) });
+  }
+};